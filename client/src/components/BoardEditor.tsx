@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { Chessboard, ChessboardDnDProvider, SparePiece } from "react-chessboard";
+import type { Square } from "chess.js";
+import { RotateCw, Eraser, RefreshCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { createFenFromPosition, getPositionFromFen } from "../lib/chess";
+import { validatePosition } from "@shared/position";
+
+type EditorPiece = "wP" | "wN" | "wB" | "wR" | "wQ" | "wK" | "bP" | "bN" | "bB" | "bR" | "bQ" | "bK";
+
+interface BoardEditorProps {
+  fen: string;
+  onChange: (fen: string) => void;
+  orientation?: "white" | "black";
+  boardWidth?: number;
+}
+
+const EDITOR_ID = "position-editor";
+const START_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w - - 0 1";
+const WHITE_PIECES: EditorPiece[] = ["wK", "wQ", "wR", "wB", "wN", "wP"];
+const BLACK_PIECES: EditorPiece[] = ["bK", "bQ", "bR", "bB", "bN", "bP"];
+
+// Visual position editor: drag pieces in from the palettes, move them around,
+// drag them off the board (or right-click) to remove them. Every change is
+// reported as a FEN.
+const BoardEditor: React.FC<BoardEditorProps> = ({
+  fen,
+  onChange,
+  orientation = "white",
+  boardWidth = 280
+}) => {
+  const [flipped, setFlipped] = useState<boolean>(false);
+
+  const position = getPositionFromFen(fen) ?? {};
+  const turn = fen.trim().split(/\s+/)[1] === 'b' ? 'b' : 'w';
+  const check = validatePosition(fen);
+  const boardOrientation = flipped ? (orientation === "white" ? "black" : "white") : orientation;
+  const pieceWidth = boardWidth / 8;
+
+  const update = (next: Partial<Record<Square, string>>, nextTurn: 'w' | 'b' = turn) => {
+    onChange(createFenFromPosition(next, nextTurn));
+  };
+
+  // Each side has one king, so placing a king moves it
+  const place = (piece: string, square: Square, from?: Square) => {
+    const next = { ...position };
+    if (from) delete next[from];
+    if (piece.charAt(1) === 'K') {
+      (Object.keys(next) as Square[])
+        .filter(sq => next[sq] === piece)
+        .forEach(sq => delete next[sq]);
+    }
+    next[square] = piece;
+    update(next);
+    return true;
+  };
+
+  const remove = (square: Square) => {
+    if (!position[square]) return;
+    const next = { ...position };
+    delete next[square];
+    update(next);
+  };
+
+  const palette = (pieces: EditorPiece[]) => (
+    <div className="flex justify-center gap-1 my-1">
+      {pieces.map(piece => (
+        <div key={piece} className="cursor-grab" title="Drag onto the board">
+          <SparePiece piece={piece} width={pieceWidth} dndId={EDITOR_ID} />
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <ChessboardDnDProvider>
+      <div className="flex flex-col items-center">
+        {palette(boardOrientation === "white" ? BLACK_PIECES : WHITE_PIECES)}
+
+        <Chessboard
+          id={EDITOR_ID}
+          position={fen}
+          boardWidth={boardWidth}
+          boardOrientation={boardOrientation}
+          onPieceDrop={(source, target, piece) => place(piece, target, source)}
+          onSparePieceDrop={(piece, target) => place(piece, target)}
+          onPieceDropOffBoard={(source) => remove(source)}
+          onSquareRightClick={remove}
+          onPromotionCheck={() => false}
+          dropOffBoardAction="trash"
+          areArrowsAllowed={false}
+        />
+
+        {palette(boardOrientation === "white" ? WHITE_PIECES : BLACK_PIECES)}
+
+        {/* Side to move */}
+        <div className="grid grid-cols-2 gap-2 w-full mt-2" style={{ maxWidth: boardWidth }}>
+          <Button
+            type="button"
+            size="sm"
+            variant={turn === 'w' ? "default" : "outline"}
+            onClick={() => update(position, 'w')}
+          >
+            White to move
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant={turn === 'b' ? "default" : "outline"}
+            onClick={() => update(position, 'b')}
+          >
+            Black to move
+          </Button>
+        </div>
+
+        <div className="flex gap-2 mt-2">
+          <Button type="button" size="sm" variant="outline" className="flex items-center gap-1" onClick={() => update({})}>
+            <Eraser className="h-4 w-4" />
+            Clear
+          </Button>
+          <Button type="button" size="sm" variant="outline" className="flex items-center gap-1" onClick={() => onChange(START_FEN)}>
+            <RefreshCcw className="h-4 w-4" />
+            Reset
+          </Button>
+          <Button type="button" size="sm" variant="outline" className="flex items-center gap-1" onClick={() => setFlipped(!flipped)}>
+            <RotateCw className="h-4 w-4" />
+            Flip
+          </Button>
+        </div>
+
+        <div className="mt-2 text-sm text-center" style={{ maxWidth: boardWidth }}>
+          {check.ok ? (
+            <Badge className="bg-success/90 hover:bg-success/80 text-white">Legal position</Badge>
+          ) : (
+            <span className="text-danger">{check.error}</span>
+          )}
+        </div>
+      </div>
+    </ChessboardDnDProvider>
+  );
+};
+
+export default BoardEditor;
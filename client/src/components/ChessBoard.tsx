@@ -1,11 +1,13 @@
 import { useState, useEffect } from "react";
 import { Chessboard } from "react-chessboard";
-import { Square, Color } from "chess.js";
+import { Square, Color, PieceSymbol } from "chess.js";
 import { Check, ArrowUp, RotateCw, AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import PromotionModal from "./modals/PromotionModal";
+import { getPromotionPreviews, isPromotionMove } from "../lib/chess";
 
 interface ChessBoardProps {
   fen: string;
@@ -14,10 +16,14 @@ interface ChessBoardProps {
   selectedSquare: Square | null;
   legalMoves: Square[];
   remainingMoves: number;
+  freeHit?: boolean;
   status: string;
-  onSquareClick: (square: Square) => void;
-  onPieceDrop: (sourceSquare: Square, targetSquare: Square) => boolean;
+  onSquareClick: (square: Square, promotion?: PieceSymbol) => void;
+  onPieceDrop: (sourceSquare: Square, targetSquare: Square, promotion?: PieceSymbol) => boolean;
   onCapture: (piece: string, square: Square) => void;
+  opponentLabel?: string;
+  hotseat?: boolean;
+  orientation?: "white" | "black";
 }
 
 const ChessBoard: React.FC<ChessBoardProps> = ({
@@ -27,14 +33,56 @@ const ChessBoard: React.FC<ChessBoardProps> = ({
   selectedSquare,
   legalMoves,
   remainingMoves,
+  freeHit = false,
   status,
   onSquareClick,
   onPieceDrop,
-  onCapture
+  onCapture,
+  opponentLabel = "AI",
+  hotseat = false,
+  orientation = playerSide
 }) => {
+  // In hotseat mode whoever is to move is "the player"
+  const canMove = hotseat || currentTurn === playerSide;
+
   const [boardWidth, setBoardWidth] = useState<number>(600);
   const [captureMove, setCaptureMove] = useState<{ piece: string, square: Square } | null>(null);
   const [flipBoard, setFlipBoard] = useState<boolean>(false);
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: Square, to: Square, dropped: boolean } | null>(null);
+  
+  const promotionPreviews = pendingPromotion
+    ? getPromotionPreviews(fen, pendingPromotion.from, pendingPromotion.to)
+    : [];
+  
+  // Ask which piece to promote to before passing a promotion on
+  const handleSquareClick = (square: Square) => {
+    if (selectedSquare && legalMoves.includes(square) && isPromotionMove(fen, selectedSquare, square)) {
+      setPendingPromotion({ from: selectedSquare, to: square, dropped: false });
+      return;
+    }
+    onSquareClick(square);
+  };
+  
+  const handlePieceDrop = (sourceSquare: Square, targetSquare: Square) => {
+    if (isPromotionMove(fen, sourceSquare, targetSquare) &&
+        getPromotionPreviews(fen, sourceSquare, targetSquare).length > 0) {
+      // Snap back for now; the move is made once a piece is picked
+      setPendingPromotion({ from: sourceSquare, to: targetSquare, dropped: true });
+      return false;
+    }
+    return onPieceDrop(sourceSquare, targetSquare);
+  };
+  
+  const handlePromotionSelect = (piece: PieceSymbol) => {
+    if (!pendingPromotion) return;
+    
+    if (pendingPromotion.dropped) {
+      onPieceDrop(pendingPromotion.from, pendingPromotion.to, piece);
+    } else {
+      onSquareClick(pendingPromotion.to, piece);
+    }
+    setPendingPromotion(null);
+  };
 
   // Resize board based on container size
   useEffect(() => {
@@ -109,13 +157,17 @@ const ChessBoard: React.FC<ChessBoardProps> = ({
         <div className="p-3">
           <div className="flex justify-between items-center">
             <Badge className={`${
-              currentTurn === playerSide ? 'bg-success/90 hover:bg-success/80' : 'bg-secondary/90 hover:bg-secondary/80'
+              canMove ? 'bg-success/90 hover:bg-success/80' : 'bg-secondary/90 hover:bg-secondary/80'
             } text-white px-3 py-1`}>
-              {currentTurn === playerSide ? 'Your turn' : "AI's turn"}
+              {hotseat
+                ? `${currentTurn === "white" ? "White" : "Black"} to move`
+                : currentTurn === playerSide ? 'Your turn' : `${opponentLabel}'s turn`}
             </Badge>
             
-            <Badge className="bg-primary/90 hover:bg-primary/80 text-white">
-              {remainingMoves} {remainingMoves === 1 ? 'move' : 'moves'} remaining
+            <Badge className={`${
+              freeHit ? 'bg-amber-500/90 hover:bg-amber-500/80' : 'bg-primary/90 hover:bg-primary/80'
+            } text-white`}>
+              {freeHit ? 'Free Hit' : `${remainingMoves} ${remainingMoves === 1 ? 'move' : 'moves'} remaining`}
             </Badge>
           </div>
           
@@ -180,10 +232,11 @@ const ChessBoard: React.FC<ChessBoardProps> = ({
           position={fen}
           boardWidth={boardWidth}
           customSquareStyles={customSquareStyles()}
-          boardOrientation={flipBoard ? (playerSide === "white" ? "black" : "white") : (playerSide === "white" ? "white" : "black")}
-          onSquareClick={onSquareClick}
-          onPieceDrop={onPieceDrop}
-          arePiecesDraggable={currentTurn === playerSide}
+          boardOrientation={flipBoard ? (orientation === "white" ? "black" : "white") : orientation}
+          onSquareClick={handleSquareClick}
+          onPieceDrop={handlePieceDrop}
+          onPromotionCheck={() => false}
+          arePiecesDraggable={canMove}
           areArrowsAllowed={true}
         />
       </div>
@@ -209,12 +262,21 @@ const ChessBoard: React.FC<ChessBoardProps> = ({
         </div>
       )}
       
+      {/* Promotion picker */}
+      <PromotionModal
+        isOpen={pendingPromotion !== null}
+        color={currentTurn}
+        previews={promotionPreviews}
+        onSelect={handlePromotionSelect}
+        onCancel={() => setPendingPromotion(null)}
+      />
+      
       {/* Game instructions */}
       <div className="mt-6 text-center text-sm text-gray-500">
-        {currentTurn === playerSide ? (
+        {canMove ? (
           <p>Click on a piece to see possible moves, then click on a destination square to move.</p>
         ) : (
-          <p>AI is thinking about its next move...</p>
+          <p>{opponentLabel === "AI" ? "AI is thinking about its next move..." : `Waiting for ${opponentLabel} to move...`}</p>
         )}
       </div>
     </div>
@@ -0,0 +1,55 @@
+import { formatScore, type AnalysisScore } from "@shared/analysis";
+import { cn } from "@/lib/utils";
+
+interface EvaluationBarProps {
+  score: AnalysisScore | null;     // from white's point of view; null while unknown
+  orientation: "white" | "black";  // the side shown at the bottom, as on the board
+  height: number;
+  className?: string;
+}
+
+// How quickly the bar fills as the advantage grows, in centipawns
+const BAR_SCALE = 400;
+
+// Share of the bar that is white's, from 0 to 1
+function whiteShare(score: AnalysisScore | null): number {
+  if (!score) return 0.5;
+  if (score.type === "mate") return score.value > 0 ? 1 : score.value < 0 ? 0 : 0.5;
+  return 1 / (1 + Math.exp(-score.value / BAR_SCALE));
+}
+
+const EvaluationBar = ({ score, orientation, height, className }: EvaluationBarProps) => {
+  const white = whiteShare(score);
+  const whiteAhead = white >= 0.5;
+  const bottomShare = orientation === "white" ? white : 1 - white;
+
+  return (
+    <div
+      className={cn("relative w-6 rounded overflow-hidden bg-gray-800 shadow-inner", className)}
+      style={{ height }}
+      title={score ? formatScore(score) : "Analysing..."}
+    >
+      <div
+        className={cn(
+          "absolute left-0 right-0 transition-all duration-500",
+          orientation === "white" ? "bottom-0 bg-white" : "top-0 bg-white"
+        )}
+        style={{ height: `${white * 100}%` }}
+      />
+      {score && (
+        <span
+          className={cn(
+            "absolute left-0 right-0 text-center text-[10px] font-semibold",
+            // Print the score at the leading side's end, on its colour
+            whiteAhead ? "text-gray-800" : "text-white",
+            bottomShare >= 0.5 ? "bottom-1" : "top-1"
+          )}
+        >
+          {formatScore({ type: score.type, value: Math.abs(score.value) }).replace("+", "")}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default EvaluationBar;
@@ -3,17 +3,19 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter }
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
-import { Trophy, Timer, RotateCcw, Flag, XCircle, ChevronDown, ChevronUp, Clock } from "lucide-react";
+import { Trophy, Timer, RotateCcw, Flag, XCircle, ChevronDown, ChevronUp, Clock, Download } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { MISSED_MOVE } from "@shared/hukum";
 
 interface MoveLog {
   id: number;
   gameId: number;
   move: string;
   isPlayer: boolean;
-  capturedPiece?: string;
-  points: number;
+  capturedPiece?: string | null;
+  points: number | null;
   moveNumber: number;
+  freeHit?: boolean;
 }
 
 interface GameInfoPanelProps {
@@ -26,6 +28,10 @@ interface GameInfoPanelProps {
   isTimerLow: boolean;
   onNewGame: () => void;
   onResign: () => void;
+  playerLabel?: string;
+  opponentLabel?: string;
+  // Set once the game exists on the server, to offer a PGN download
+  gameId?: number | null;
 }
 
 const formatTime = (time: number): string => {
@@ -43,7 +49,10 @@ const GameInfoPanel: React.FC<GameInfoPanelProps> = ({
   timeRemaining,
   isTimerLow,
   onNewGame,
-  onResign
+  onResign,
+  playerLabel = "You",
+  opponentLabel = "AI",
+  gameId
 }) => {
   const [showHistory, setShowHistory] = useState(true);
   const progressPercentage = ((playerMoves + aiMoves) / 12) * 100;
@@ -93,7 +102,7 @@ const GameInfoPanel: React.FC<GameInfoPanelProps> = ({
               <div className="flex justify-between items-center mb-2">
                 <div className="flex items-center gap-2">
                   <div className="w-4 h-4 bg-white border border-gray-300 rounded-full"></div>
-                  <span className="font-medium">You</span>
+                  <span className="font-medium">{playerLabel}</span>
                 </div>
                 <span className={`font-sans font-bold text-xl ${playerLeading ? "text-success" : ""}`}>
                   {playerScore}
@@ -102,7 +111,7 @@ const GameInfoPanel: React.FC<GameInfoPanelProps> = ({
               <div className="flex justify-between items-center">
                 <div className="flex items-center gap-2">
                   <div className="w-4 h-4 bg-gray-800 border border-gray-300 rounded-full"></div>
-                  <span className="font-medium">AI</span>
+                  <span className="font-medium">{opponentLabel}</span>
                 </div>
                 <span className={`font-sans font-bold text-xl ${aiLeading ? "text-danger" : ""}`}>
                   {aiScore}
@@ -172,18 +181,23 @@ const GameInfoPanel: React.FC<GameInfoPanelProps> = ({
                     <div key={log.id} className={`flex justify-between py-1.5 px-1.5 border-b border-gray-100 ${log.isPlayer ? "bg-gray-50" : "bg-white"}`}>
                       <span className="flex items-center gap-1">
                         <Badge variant="outline" className={`text-xs py-0 px-1 ${log.isPlayer ? "border-success text-success" : "border-secondary text-secondary"}`}>
-                          {log.isPlayer ? 'You' : 'AI'}
+                          {log.isPlayer ? playerLabel : opponentLabel}
                         </Badge>
+                        {log.freeHit && (
+                          <Badge variant="outline" className="mr-2 border-amber-500 text-amber-600">Free Hit</Badge>
+                        )}
                         <span>
-                          {log.capturedPiece ? (
+                          {log.move === MISSED_MOVE ? (
+                            <span className="italic text-gray-500">missed move</span>
+                          ) : log.capturedPiece ? (
                             <span className="font-medium">captured {log.capturedPiece}</span>
                           ) : (
                             <span>{log.move.slice(0, 2)} → {log.move.slice(2, 4)}</span>
                           )}
                         </span>
                       </span>
-                      <span className={`font-medium ${log.points > 0 ? (log.isPlayer ? "text-success" : "text-danger") : ""}`}>
-                        {log.points > 0 ? `+${log.points}` : ''}
+                      <span className={`font-medium ${log.points ? (log.isPlayer === log.points > 0 ? "text-success" : "text-danger") : ""}`}>
+                        {log.points ? `${log.points > 0 ? '+' : ''}${log.points}` : ''}
                       </span>
                     </div>
                   ))
@@ -243,6 +257,19 @@ const GameInfoPanel: React.FC<GameInfoPanelProps> = ({
             <Trophy className="h-5 w-5 mr-2" />
             New Game
           </Button>
+          
+          {gameId && (
+            <Button
+              asChild
+              variant="outline"
+              className="w-full mt-3 py-2 transition rounded-md font-medium flex items-center justify-center gap-1"
+            >
+              <a href={`/api/games/${gameId}/pgn`} download>
+                <Download className="h-4 w-4" />
+                Download PGN
+              </a>
+            </Button>
+          )}
         </CardContent>
       </Card>
       
@@ -255,6 +282,8 @@ const GameInfoPanel: React.FC<GameInfoPanelProps> = ({
           <li>Bishop/Knight: 3 points</li>
           <li>Pawn: 1 point</li>
           <li>Checkmate: Win</li>
+          <li>Missed move: -1 point</li>
+          <li>Foul capture on a last move: opponent gets a Free Hit</li>
         </ul>
       </div>
     </div>
@@ -0,0 +1,30 @@
+import { Redirect, Route } from "wouter";
+import { Loader2 } from "lucide-react";
+import useAuth from "../hooks/useAuth";
+
+interface ProtectedRouteProps {
+  path: string;
+  component: React.ComponentType;
+  allowOffline?: boolean; // the page still works when the server can't be reached
+}
+
+// Route that sends logged-out visitors to the login page
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ path, component: Component, allowOffline = false }) => {
+  const { user, isLoading, offline } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-screen">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : user || (offline && allowOffline) ? (
+        <Component />
+      ) : (
+        <Redirect to="/auth" />
+      )}
+    </Route>
+  );
+};
+
+export default ProtectedRoute;
@@ -1,13 +1,21 @@
 import { useState } from "react";
+import { Chess } from "chess.js";
 import { Dialog, DialogContent, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Slider } from "@/components/ui/slider";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ChevronRight, Crown, Cpu, Globe, Award, Zap } from "lucide-react";
+import { ChevronRight, Crown, Cpu, Globe, Award, Zap, Users, FileText } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
-// import { Chessboard } from "react-chessboard";
+import { Chessboard } from "react-chessboard";
+import BoardEditor from "../BoardEditor";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import type { Difficulty } from "@shared/schema";
+import { validatePosition } from "@shared/position";
+import { parsePgn, PgnError, type ParsedPgn } from "@shared/pgn";
 
 interface NewGameModalProps {
   isOpen: boolean;
@@ -21,8 +29,10 @@ interface GameOptions {
   playerSide: "white" | "black";
   playerRole: "player1" | "player2";
   fen: string;
-  difficulty: "standard" | "grandmaster" | "insane";
-  boardSetup: "standard" | "custom";
+  difficulty: Difficulty;
+  boardSetup: "standard" | "custom" | "pgn";
+  mode: "ai" | "hotseat";
+  autoFlip: boolean;
 }
 
 const STANDARD_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
@@ -63,22 +73,74 @@ const NewGameModal: React.FC<NewGameModalProps> = ({
     playerRole: currentRole,
     fen: STANDARD_FEN,
     difficulty: "grandmaster",
-    boardSetup: "standard"
+    boardSetup: "standard",
+    mode: "ai",
+    autoFlip: true
   });
   
   const [activeTab, setActiveTab] = useState<string>("general");
   const [selectedPosition, setSelectedPosition] = useState<number>(0);
+  const [setupError, setSetupError] = useState<string | null>(null);
+  
+  // PGN import
+  const [pgnText, setPgnText] = useState<string>("");
+  const [parsedPgn, setParsedPgn] = useState<ParsedPgn | null>(null);
+  const [importPly, setImportPly] = useState<number>(0);
 
   const handleChange = (key: keyof GameOptions, value: any) => {
-    setGameOptions({
-      ...gameOptions,
+    setGameOptions(options => ({
+      ...options,
       [key]: value
-    });
+    }));
   };
 
+  // Check the position before the game is created so mistakes show up here
   const handleSubmit = () => {
+    if (gameOptions.boardSetup === "pgn" && !parsedPgn) {
+      setSetupError("Check the PGN and pick a position first");
+      setActiveTab("import");
+      return;
+    }
+    
+    const position = validatePosition(gameOptions.fen);
+    const error = !position.ok ? position.error
+      : new Chess(gameOptions.fen).isGameOver() ? "The game is already over in this position"
+      : null;
+    if (error) {
+      setSetupError(error);
+      setActiveTab(gameOptions.boardSetup === "pgn" ? "import" : "position");
+      return;
+    }
+    
+    setSetupError(null);
     onStartGame(gameOptions);
   };
+  
+  // Read the pasted PGN and start from its final position by default
+  const checkPgn = () => {
+    try {
+      const parsed = parsePgn(pgnText);
+      const lastPly = parsed.positions.length - 1;
+      setParsedPgn(parsed);
+      setSetupError(null);
+      selectImportPly(parsed, lastPly);
+    } catch (error) {
+      setParsedPgn(null);
+      setSetupError(error instanceof PgnError ? error.message : "Could not read the PGN");
+    }
+  };
+  
+  // Branch from a ply of the imported game; the Hukum counters start at zero
+  const selectImportPly = (parsed: ParsedPgn, ply: number) => {
+    setImportPly(ply);
+    setGameOptions(options => ({
+      ...options,
+      boardSetup: "pgn",
+      fen: parsed.positions[ply].fen
+    }));
+  };
+  
+  const importPosition = parsedPgn?.positions[importPly];
 
   const isStandardSetup = gameOptions.boardSetup === "standard";
   
@@ -96,7 +158,7 @@ const NewGameModal: React.FC<NewGameModalProps> = ({
         </DialogDescription>
         
         <Tabs value={activeTab} onValueChange={setActiveTab} className="mt-4">
-          <TabsList className="grid grid-cols-3 mb-4">
+          <TabsList className="grid grid-cols-4 mb-4">
             <TabsTrigger value="general" className="flex items-center gap-1">
               <Crown className="h-4 w-4" />
               <span>General</span>
@@ -105,6 +167,10 @@ const NewGameModal: React.FC<NewGameModalProps> = ({
               <Globe className="h-4 w-4" />
               <span>Position</span>
             </TabsTrigger>
+            <TabsTrigger value="import" className="flex items-center gap-1">
+              <FileText className="h-4 w-4" />
+              <span>Import</span>
+            </TabsTrigger>
             <TabsTrigger value="ai" className="flex items-center gap-1">
               <Cpu className="h-4 w-4" />
               <span>AI Settings</span>
@@ -114,6 +180,47 @@ const NewGameModal: React.FC<NewGameModalProps> = ({
           <TabsContent value="general" className="border rounded-md p-4">
             <h3 className="font-medium text-lg mb-4">Game Setup</h3>
             
+            {/* Opponent Selection */}
+            <div className="mb-6">
+              <Label className="block text-sm font-medium text-gray-600 mb-2">
+                Opponent
+              </Label>
+              <div className="grid grid-cols-2 gap-3">
+                <Button
+                  type="button"
+                  variant={gameOptions.mode === "ai" ? "default" : "outline"}
+                  className="py-6 flex items-center justify-center gap-2"
+                  onClick={() => handleChange("mode", "ai")}
+                >
+                  <Cpu className="h-5 w-5" />
+                  <span className="font-medium">AI</span>
+                </Button>
+                
+                <Button
+                  type="button"
+                  variant={gameOptions.mode === "hotseat" ? "default" : "outline"}
+                  className="py-6 flex items-center justify-center gap-2"
+                  onClick={() => handleChange("mode", "hotseat")}
+                >
+                  <Users className="h-5 w-5" />
+                  <span className="font-medium">Pass and Play</span>
+                </Button>
+              </div>
+              
+              {gameOptions.mode === "hotseat" && (
+                <div className="flex items-center justify-between mt-3">
+                  <Label htmlFor="autoFlip" className="text-sm text-gray-600">
+                    Flip the board between turns
+                  </Label>
+                  <Switch
+                    id="autoFlip"
+                    checked={gameOptions.autoFlip}
+                    onCheckedChange={(checked) => handleChange("autoFlip", checked)}
+                  />
+                </div>
+              )}
+            </div>
+            
             {/* Side Selection */}
             <div className="mb-6">
               <Label className="block text-sm font-medium text-gray-600 mb-2">
@@ -220,18 +327,32 @@ const NewGameModal: React.FC<NewGameModalProps> = ({
               </div>
             </div>
             
-            {/* Position Preview */}
+            {/* Position Editor */}
             <div className="mb-4 grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <Label className="block text-sm font-medium text-gray-600 mb-2">
-                  Board Preview
+                  {isStandardSetup ? "Board Preview" : "Edit Position"}
                 </Label>
-                <div className="aspect-square w-full max-w-[200px] mx-auto border rounded overflow-hidden bg-gray-100 p-2 flex items-center justify-center">
-                  <div className="text-sm text-gray-500 text-center">
-                    <div className="font-medium mb-1">FEN Preview</div>
-                    <div className="truncate max-w-40">{gameOptions.fen.substring(0, 20)}...</div>
+                {isStandardSetup ? (
+                  <div className="w-[200px] mx-auto">
+                    <Chessboard
+                      id="setup-preview"
+                      position={gameOptions.fen}
+                      boardWidth={200}
+                      arePiecesDraggable={false}
+                      boardOrientation={gameOptions.playerSide}
+                    />
                   </div>
-                </div>
+                ) : (
+                  <BoardEditor
+                    fen={gameOptions.fen}
+                    onChange={(fen) => {
+                      handleChange("fen", fen);
+                      setSetupError(null);
+                    }}
+                    orientation={gameOptions.playerSide}
+                  />
+                )}
               </div>
               
               <div>
@@ -283,7 +404,71 @@ const NewGameModal: React.FC<NewGameModalProps> = ({
                 onChange={(e) => handleChange("fen", e.target.value)}
                 disabled={isStandardSetup}
               />
+              {setupError && gameOptions.boardSetup !== "pgn" && (
+                <p className="mt-2 text-sm text-danger">{setupError}</p>
+              )}
+            </div>
+          </TabsContent>
+          
+          <TabsContent value="import" className="border rounded-md p-4">
+            <h3 className="font-medium text-lg mb-1">Import a Game</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              Paste a game in PGN, then choose the move to branch from. Six Hukum moves each are played from there.
+            </p>
+            
+            <Textarea
+              className="w-full h-28 font-mono text-xs"
+              placeholder={'[Event "Opera Game"]\n\n1. e4 e5 2. Nf3 d6 3. d4 Bg4 ...'}
+              value={pgnText}
+              onChange={(e) => {
+                setPgnText(e.target.value);
+                setParsedPgn(null);
+              }}
+            />
+            <div className="flex items-center justify-between mt-2">
+              <span className="text-sm text-danger">
+                {gameOptions.boardSetup === "pgn" || !parsedPgn ? setupError : null}
+              </span>
+              <Button type="button" variant="outline" disabled={!pgnText.trim()} onClick={checkPgn}>
+                Check PGN
+              </Button>
             </div>
+            
+            {parsedPgn && importPosition && (
+              <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="mx-auto">
+                  <Chessboard
+                    id="import-preview"
+                    position={importPosition.fen}
+                    boardWidth={200}
+                    arePiecesDraggable={false}
+                    boardOrientation={gameOptions.playerSide}
+                  />
+                </div>
+                
+                <div>
+                  {(parsedPgn.headers.White || parsedPgn.headers.Black) && (
+                    <div className="font-medium mb-1">
+                      {parsedPgn.headers.White ?? "?"} vs {parsedPgn.headers.Black ?? "?"}
+                    </div>
+                  )}
+                  <Label className="block text-sm font-medium text-gray-600 mb-2">
+                    Branch after: {importPosition.moveLabel}
+                  </Label>
+                  <Slider
+                    min={0}
+                    max={parsedPgn.positions.length - 1}
+                    step={1}
+                    value={[importPly]}
+                    onValueChange={([ply]) => selectImportPly(parsedPgn, ply)}
+                  />
+                  <p className="text-sm text-gray-500 mt-2">
+                    {new Chess(importPosition.fen).turn() === 'w' ? "White" : "Black"} to move
+                    {" "}(ply {importPly} of {parsedPgn.positions.length - 1})
+                  </p>
+                </div>
+              </div>
+            )}
           </TabsContent>
           
           <TabsContent value="ai" className="border rounded-md p-4">
@@ -0,0 +1,70 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import type { PieceSymbol } from "chess.js";
+import type { PromotionPreview } from "../../lib/chess";
+
+interface PromotionModalProps {
+  isOpen: boolean;
+  color: "white" | "black";
+  previews: PromotionPreview[];
+  onSelect: (piece: PieceSymbol) => void;
+  onCancel: () => void;
+}
+
+const PIECE_NAMES: Record<PieceSymbol, string> = {
+  q: "Queen",
+  r: "Rook",
+  b: "Bishop",
+  n: "Knight",
+  p: "Pawn",
+  k: "King"
+};
+
+const PIECE_ICONS: Record<"white" | "black", Partial<Record<PieceSymbol, string>>> = {
+  white: { q: "♕", r: "♖", b: "♗", n: "♘" },
+  black: { q: "♛", r: "♜", b: "♝", n: "♞" }
+};
+
+const PromotionModal: React.FC<PromotionModalProps> = ({
+  isOpen,
+  color,
+  previews,
+  onSelect,
+  onCancel
+}) => {
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="bg-white rounded-lg shadow-lg w-full max-w-md p-6 mx-4 animate-slide-up">
+        <DialogHeader>
+          <DialogTitle className="font-sans font-bold text-2xl">Promote Pawn</DialogTitle>
+          <DialogDescription>
+            The promotion bonus is the new piece's value minus a pawn's, so pick the piece that scores best.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          {previews.map(preview => (
+            <Button
+              key={preview.piece}
+              variant="outline"
+              className="h-auto py-3 flex flex-col items-center gap-1 border border-gray-300 hover:bg-gray-100"
+              onClick={() => onSelect(preview.piece)}
+            >
+              <span className="text-4xl leading-none">{PIECE_ICONS[color][preview.piece]}</span>
+              <span className="font-medium">{PIECE_NAMES[preview.piece]}</span>
+              <span className="text-sm text-success">+{preview.points} points</span>
+              {preview.checkmate ? (
+                <Badge className="bg-danger/90 hover:bg-danger/80 text-white">Checkmate</Badge>
+              ) : preview.check && (
+                <Badge className="bg-amber-500/90 hover:bg-amber-500/80 text-white">Check</Badge>
+              )}
+            </Button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PromotionModal;
@@ -1,100 +1,113 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect } from "react";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Loader2, RefreshCw, CheckCircle, XCircle, Clock, Trophy } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, RefreshCw, CheckCircle, XCircle, Clock, Trophy, Move, Pencil } from "lucide-react";
 import { Chess, Square } from "chess.js";
 import { Chessboard } from "react-chessboard";
-import { apiRequest } from "@/lib/queryClient";
+import BoardEditor from "../BoardEditor";
+import { validatePosition, validatePuzzlePosition } from "@shared/position";
+import { SHOOTOUT_ROUNDS, SHOOTOUT_SOLVE_TIME } from "@shared/shootout";
+import type { PuzzleSetter } from "@shared/schema";
+import { getErrorMessage } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Progress } from "@/components/ui/progress";
 import useTimer from "@/hooks/useTimer";
+import usePuzzleShootout from "@/hooks/usePuzzleShootout";
 
 interface PuzzleShootoutModalProps {
   isOpen: boolean;
   onClose: () => void;
   gameId?: number;
+  // Final position of the tied game, offered as a starting point
+  gameFen?: string;
 }
 
-interface Puzzle {
-  id: number;
-  gameId: number;
-  fen: string;
-  solution: string;
-  mateIn: number;
-  aiSolved?: boolean;
-}
+const START_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
 
 const PuzzleShootoutModal: React.FC<PuzzleShootoutModalProps> = ({
   isOpen,
   onClose,
-  gameId
+  gameId,
+  gameFen
 }) => {
-  const [puzzles, setPuzzles] = useState<Puzzle[]>([]);
-  const [currentPuzzleIndex, setCurrentPuzzleIndex] = useState(0);
-  const [fen, setFen] = useState("rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1");
+  const [fen, setFen] = useState(START_FEN);
   const [mateIn, setMateIn] = useState(2);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [userWon, setUserWon] = useState(false);
-  const [aiLost, setAiLost] = useState(false);
-  const [puzzleSolved, setPuzzleSolved] = useState<boolean | null>(null);
   const [selectedSquare, setSelectedSquare] = useState<Square | null>(null);
   const [legalMoves, setLegalMoves] = useState<Square[]>([]);
+  const [editorMode, setEditorMode] = useState<"play" | "setup">("setup");
+  const [fenInput, setFenInput] = useState("");
+  const [fenError, setFenError] = useState<string | null>(null);
   const { toast } = useToast();
+  const {
+    phase,
+    standing,
+    activePuzzle,
+    solveFen,
+    lastReply,
+    lastResult,
+    error,
+    isSubmitting,
+    submitPuzzle,
+    playSolveMove,
+    giveUp,
+    retry
+  } = usePuzzleShootout(gameId, isOpen);
   
-  // Timer for countdown (15 seconds per puzzle for AI to solve)
+  // Both sides get the same clock on every puzzle
+  const clockRunning = phase === "solving" || phase === "ai_solving";
   const { timeRemaining, isTimerLow, resetTimer, stopTimer } = useTimer({
-    initialTime: 15,
-    isActive: isProcessing,
+    initialTime: SHOOTOUT_SOLVE_TIME,
+    isActive: clockRunning,
     onTimeUp: () => {
-      // AI couldn't solve in time - player wins
-      setUserWon(true);
-      setPuzzleSolved(false);
-      setIsProcessing(false);
-      stopTimer();
+      // The server settles the AI's own clock; the player's runs out here
+      if (phase === "solving") {
+        giveUp();
+      }
     }
   });
 
   // Initialize chess instance for puzzle editor
   const [chess] = useState(new Chess());
-
-  useEffect(() => {
-    if (isOpen && gameId) {
-      fetchPuzzles();
-    }
-  }, [isOpen, gameId]);
   
-  // Reset timer to 15 seconds when processing starts
+  // Restart the clock for each puzzle; a resumed AI puzzle keeps its remaining time
   useEffect(() => {
-    if (isProcessing) {
-      resetTimer(15);
+    if (phase === "solving" && activePuzzle?.presentedAt) {
+      const elapsed = Math.floor((Date.now() - new Date(activePuzzle.presentedAt).getTime()) / 1000);
+      resetTimer(Math.max(1, SHOOTOUT_SOLVE_TIME - elapsed));
+    } else if (phase === "ai_solving") {
+      resetTimer(SHOOTOUT_SOLVE_TIME);
     } else {
       stopTimer();
     }
-  }, [isProcessing, resetTimer, stopTimer]);
+  }, [phase, activePuzzle, resetTimer, stopTimer]);
 
-  const fetchPuzzles = async () => {
-    if (!gameId) return;
-    
-    try {
-      const res = await fetch(`/api/games/${gameId}/puzzles`);
-      if (res.ok) {
-        const data = await res.json();
-        setPuzzles(data);
-        if (data.length > 0) {
-          setFen(data[0].fen);
-          setMateIn(data[0].mateIn);
-        }
-      }
-    } catch (error) {
-      console.error("Error fetching puzzles:", error);
+  // Only legal puzzle positions may be submitted
+  const puzzleCheck = validatePuzzlePosition(fen);
+  const editorBusy = isSubmitting || phase !== "setting";
+  // Show a new position in the editor
+  const loadPosition = (newFen: string) => {
+    const position = validatePosition(newFen);
+    if (!position.ok) {
+      setFenError(position.error);
+      return;
     }
+    
+    setFen(newFen.trim());
+    setFenError(null);
+    setSelectedSquare(null);
+    setLegalMoves([]);
   };
 
   const handleSquareClick = (square: string) => {
     // Handle square click for chess puzzle editor
     try {
+      // Pick up any changes made in setup mode
+      if (chess.fen() !== fen) {
+        chess.load(fen);
+      }
+      
       // Type assertion to convert string to Square type
       const chessSquare = square as Square;
       
@@ -131,129 +144,141 @@ const PuzzleShootoutModal: React.FC<PuzzleShootoutModalProps> = ({
   const resetPuzzle = () => {
     chess.reset();
     setFen(chess.fen());
+    setFenError(null);
+    setSelectedSquare(null);
+    setLegalMoves([]);
   };
 
-  const submitPuzzle = async () => {
-    if (!gameId) return;
+  const handleSubmit = async () => {
+    if (!puzzleCheck.ok) return;
     
     try {
-      setIsProcessing(true);
-      
-      // Create a new puzzle
-      const puzzleData = {
-        gameId,
-        fen,
-        solution: "", // Solution will be determined by the AI
-        mateIn
-      };
-      
-      const res = await apiRequest("POST", `/api/games/${gameId}/puzzles`, puzzleData);
-      if (res.ok) {
-        const puzzle = await res.json();
-        setPuzzles([...puzzles, puzzle]);
-        
-        // Solve the puzzle with AI
-        await solvePuzzle(puzzle.id);
-      }
+      // The server checks the puzzle has a forced mate before the AI tries it
+      await submitPuzzle(fen, mateIn);
     } catch (error) {
       console.error("Error submitting puzzle:", error);
       toast({
-        title: "Error",
-        description: "Failed to submit puzzle",
+        title: "Puzzle rejected",
+        description: getErrorMessage(error, "Failed to submit puzzle"),
         variant: "destructive"
       });
-      setIsProcessing(false);
     }
   };
 
-  const solvePuzzle = async (puzzleId: number) => {
+  // Check the player's move locally, then let the server answer for the defender
+  const playSolveUci = (uci: string): boolean => {
+    if (!solveFen || isSubmitting) return false;
     try {
-      // Start processing - timer will be activated via useEffect
-      const res = await apiRequest("POST", `/api/puzzles/${puzzleId}/solve`, {
-        timeLimit: 15000 // 15 seconds
-      });
-      
-      if (res.ok) {
-        const { puzzle, solved } = await res.json();
-        
-        // Update puzzles array
-        setPuzzles(puzzles.map(p => p.id === puzzleId ? puzzle : p));
-        
-        // Set result state
-        setPuzzleSolved(solved);
-        
-        // If AI didn't solve it, user wins
-        if (!solved) {
-          setUserWon(true);
-          toast({
-            title: "You Win!",
-            description: "AI couldn't solve your puzzle within 15 seconds!",
-            variant: "default"
-          });
-        } else {
-          // Move to next puzzle
-          setCurrentPuzzleIndex(currentPuzzleIndex + 1);
-          
-          // Check if this was the last puzzle (AI solved all 5)
-          if (currentPuzzleIndex + 1 >= 5) {
-            // User lost after 5 puzzles
-            setAiLost(true);
-            toast({
-              title: "Game Over",
-              description: "AI solved all your puzzles. Better luck next time!",
-              variant: "destructive"
-            });
-          } else {
-            // More puzzles to go
-            toast({
-              title: "AI Solved It",
-              description: "Try creating a more difficult puzzle!",
-              variant: "default"
-            });
-          }
-        }
-      }
-      
-      // End processing state
-      setIsProcessing(false);
+      new Chess(solveFen).move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci.slice(4) || undefined });
     } catch (error) {
-      console.error("Error solving puzzle:", error);
-      setIsProcessing(false);
-      toast({
-        title: "Error",
-        description: "Failed to process puzzle",
-        variant: "destructive"
-      });
+      return false;
     }
+    
+    playSolveMove(uci);
+    return true;
   };
 
+  const solveSide = solveFen?.split(' ')[1] === 'b' ? "black" : "white";
+  const roundNumber = standing ? standing.rounds.filter(round => round.player !== null && round.ai !== null).length + 1 : 1;
+  const dotCount = Math.max(SHOOTOUT_ROUNDS, standing?.rounds.length ?? 0);
+
+  // One dot per puzzle set: green scored, red saved, grey still to come
+  const scoreDots = (setter: PuzzleSetter) => (
+    <div className="flex gap-1">
+      {Array.from({ length: dotCount }).map((_, i) => {
+        const result = standing?.rounds[i]?.[setter] ?? null;
+        return (
+          <div
+            key={i}
+            className={`w-3 h-3 rounded-full ${
+              result === null ? "bg-gray-300" : result ? "bg-success" : "bg-danger"
+            }`}
+          />
+        );
+      })}
+    </div>
+  );
+
+  const clock = (
+    <div className={`flex items-center gap-1 px-2 py-1 rounded-md ${
+      isTimerLow ? 'bg-red-100 animate-pulse' : 'bg-gray-100'
+    }`}>
+      <Clock className={`h-4 w-4 ${isTimerLow ? 'text-red-500' : 'text-gray-500'}`} />
+      <span className={`text-sm font-medium ${isTimerLow ? 'text-red-500' : 'text-gray-500'}`}>
+        {timeRemaining}s
+      </span>
+    </div>
+  );
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="bg-white rounded-lg shadow-lg w-full max-w-lg p-6 mx-4 animate-slide-up">
+      <DialogContent className="bg-white rounded-lg shadow-lg w-full max-w-lg p-6 mx-4 animate-slide-up max-h-screen overflow-y-auto">
         <h2 className="font-sans font-bold text-2xl mb-2">Puzzle Shootout!</h2>
-        <p className="text-gray-600 mb-4">The game ended in a tie. Create chess puzzles to challenge the AI!</p>
+        <p className="text-gray-600 mb-4">The game ended in a tie. Settle it with mate puzzles, penalty-shootout style.</p>
         
-        <div className="bg-info/10 p-3 rounded-md mb-6 text-sm">
-          <p className="font-medium text-info">Create mate-in-X puzzles. If AI fails any puzzle, you win!</p>
+        <div className="bg-info/10 p-3 rounded-md mb-4 text-sm">
+          <p className="font-medium text-info">
+            Each round you set a puzzle for the AI, then solve one of its puzzles. A puzzle that isn't solved
+            in {SHOOTOUT_SOLVE_TIME} seconds scores for its setter. Best of {SHOOTOUT_ROUNDS} rounds, then sudden death.
+          </p>
         </div>
         
-        {userWon ? (
-          <div className="text-center py-8">
-            <CheckCircle className="mx-auto h-16 w-16 text-success mb-4" />
-            <h3 className="text-xl font-bold mb-2">You Win!</h3>
-            <p className="text-gray-600 mb-6">AI failed to solve your puzzle!</p>
-            <Button 
-              onClick={onClose}
-              className="bg-primary text-white hover:bg-primary/90"
-            >
-              Continue
+        {/* Scoreboard */}
+        <div className="bg-gray-50 p-3 rounded-md mb-4">
+          <div className="flex justify-between items-center mb-2">
+            <span className="font-medium">
+              {standing?.winner ? "Final score" : `Round ${roundNumber}`}
+            </span>
+            {standing?.suddenDeath && (
+              <Badge className="bg-danger/90 hover:bg-danger/80 text-white">Sudden death</Badge>
+            )}
+          </div>
+          <div className="flex justify-between items-center mb-1">
+            <span className="w-10 font-medium">You</span>
+            {scoreDots("player")}
+            <span className="font-sans font-bold text-xl w-6 text-right">{standing?.playerScore ?? 0}</span>
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="w-10 font-medium">AI</span>
+            {scoreDots("ai")}
+            <span className="font-sans font-bold text-xl w-6 text-right">{standing?.aiScore ?? 0}</span>
+          </div>
+        </div>
+        
+        {lastResult && phase !== "finished" && (
+          <div className={`flex items-center gap-2 p-2 rounded-md mb-4 text-sm ${
+            lastResult.setter === "player" ? "bg-success/10" : "bg-danger/10"
+          }`}>
+            {(lastResult.setter === "player") === lastResult.scored ? (
+              <CheckCircle className="h-4 w-4 text-success" />
+            ) : (
+              <XCircle className="h-4 w-4 text-danger" />
+            )}
+            <span>{lastResult.message}</span>
+          </div>
+        )}
+        
+        {error ? (
+          <div className="text-center py-6">
+            <p className="text-danger mb-4">{error}</p>
+            <Button variant="outline" onClick={retry}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Try again
             </Button>
           </div>
-        ) : aiLost ? (
-          <div className="text-center py-8">
-            <Trophy className="mx-auto h-16 w-16 text-amber-500 mb-4" />
-            <h3 className="text-xl font-bold mb-2">Challenge Complete</h3>
-            <p className="text-gray-600 mb-6">AI solved all 5 puzzles. Better luck next time!</p>
+        ) : phase === "finished" ? (
+          <div className="text-center py-6">
+            {standing?.winner === "player" ? (
+              <Trophy className="mx-auto h-16 w-16 text-amber-500 mb-4" />
+            ) : (
+              <XCircle className="mx-auto h-16 w-16 text-danger mb-4" />
+            )}
+            <h3 className="text-xl font-bold mb-2">
+              {standing?.winner === "player" ? "You win the shootout!" : "The AI wins the shootout"}
+            </h3>
+            <p className="text-gray-600 mb-6">
+              {standing?.playerScore} - {standing?.aiScore}{standing?.suddenDeath || (standing?.rounds.length ?? 0) > SHOOTOUT_ROUNDS ? " after sudden death" : ""}
+            </p>
             <Button 
               onClick={onClose}
               className="bg-primary text-white hover:bg-primary/90"
@@ -261,13 +286,100 @@ const PuzzleShootoutModal: React.FC<PuzzleShootoutModalProps> = ({
               Continue
             </Button>
           </div>
-        ) : (
+        ) : phase === "solving" && activePuzzle && solveFen ? (
+          <div className="border border-gray-200 rounded-md p-4 mb-4">
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="font-medium">
+                {solveSide === "white" ? "White" : "Black"} to play and mate in {activePuzzle.mateIn}
+              </h3>
+              {clock}
+            </div>
+            
+            <div className="flex justify-center mb-4">
+              <Chessboard
+                id="shootout-solver"
+                position={solveFen}
+                boardWidth={300}
+                boardOrientation={solveSide}
+                arePiecesDraggable={!isSubmitting}
+                isDraggablePiece={({ piece }) => piece[0] === solveSide[0]}
+                onPieceDrop={(source, target) => playSolveUci(source + target)}
+                onPromotionPieceSelect={(piece, source, target) =>
+                  !!piece && !!source && !!target && playSolveUci(source + target + piece[1].toLowerCase())
+                }
+                customBoardStyle={{
+                  borderRadius: "0.375rem",
+                }}
+                customSquareStyles={lastReply ? {
+                  [lastReply.slice(0, 2)]: { backgroundColor: 'rgba(249, 115, 22, 0.4)' },
+                  [lastReply.slice(2, 4)]: { backgroundColor: 'rgba(249, 115, 22, 0.6)' }
+                } : {}}
+              />
+            </div>
+            
+            <div className="flex justify-between items-center">
+              <p className="text-sm text-gray-500">
+                {isSubmitting ? "Checking your move..." : lastReply ? "The defender replied; your move." : "Drag a piece to make your move."}
+              </p>
+              <Button variant="outline" onClick={giveUp} disabled={isSubmitting}>
+                Give up
+              </Button>
+            </div>
+          </div>
+        ) : phase === "setting" || phase === "ai_solving" ? (
           <>
             {/* Puzzle Editor */}
             <div className="border border-gray-200 rounded-md p-4 mb-6">
-              <h3 className="font-medium mb-2">Puzzle #{currentPuzzleIndex + 1}</h3>
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="font-medium">Your puzzle for the AI</h3>
+                <div className="flex gap-1">
+                  <Button
+                    size="sm"
+                    variant={editorMode === "setup" ? "default" : "outline"}
+                    className="flex items-center gap-1"
+                    onClick={() => setEditorMode("setup")}
+                    disabled={editorBusy}
+                  >
+                    <Pencil className="h-4 w-4" />
+                    Place Pieces
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={editorMode === "play" ? "default" : "outline"}
+                    className="flex items-center gap-1"
+                    onClick={() => setEditorMode("play")}
+                    disabled={editorBusy || !validatePosition(fen).ok}
+                  >
+                    <Move className="h-4 w-4" />
+                    Play Moves
+                  </Button>
+                </div>
+              </div>
               
-              {/* Mini Chessboard */}
+              {editorMode === "setup" ? (
+                <div className="mb-4">
+                  <BoardEditor fen={fen} onChange={setFen} boardWidth={300} />
+                  
+                  {/* Load a position */}
+                  <div className="flex gap-2 mt-3">
+                    <Input
+                      className="flex-1 font-mono text-xs"
+                      placeholder="Paste a FEN"
+                      value={fenInput}
+                      onChange={(e) => setFenInput(e.target.value)}
+                    />
+                    <Button variant="outline" onClick={() => loadPosition(fenInput)} disabled={!fenInput.trim()}>
+                      Load
+                    </Button>
+                  </div>
+                  {fenError && <p className="text-sm text-danger mt-1">{fenError}</p>}
+                  {gameFen && (
+                    <Button variant="link" className="px-0" onClick={() => loadPosition(gameFen)}>
+                      Use the final position of this game
+                    </Button>
+                  )}
+                </div>
+              ) : (
               <div className="aspect-square w-full max-w-sm mx-auto mb-4">
                 <Chessboard
                   position={fen}
@@ -304,6 +416,11 @@ const PuzzleShootoutModal: React.FC<PuzzleShootoutModalProps> = ({
                   }}
                 />
               </div>
+              )}
+              
+              {!puzzleCheck.ok && (
+                <p className="text-sm text-danger mb-2">{puzzleCheck.error}</p>
+              )}
               
               <div className="flex items-center gap-2 mb-4">
                 <Label className="font-medium">Mate in:</Label>
@@ -311,7 +428,7 @@ const PuzzleShootoutModal: React.FC<PuzzleShootoutModalProps> = ({
                   className="border border-gray-300 rounded-md p-1"
                   value={mateIn}
                   onChange={(e) => setMateIn(parseInt(e.target.value))}
-                  disabled={isProcessing}
+                  disabled={editorBusy}
                 >
                   <option value={1}>1</option>
                   <option value={2}>2</option>
@@ -323,7 +440,7 @@ const PuzzleShootoutModal: React.FC<PuzzleShootoutModalProps> = ({
                 <Button
                   variant="outline"
                   onClick={resetPuzzle}
-                  disabled={isProcessing}
+                  disabled={editorBusy}
                   className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-100 transition"
                 >
                   <RefreshCw className="h-4 w-4 mr-2" />
@@ -331,76 +448,50 @@ const PuzzleShootoutModal: React.FC<PuzzleShootoutModalProps> = ({
                 </Button>
                 <Button
                   variant="default"
-                  onClick={submitPuzzle}
-                  disabled={isProcessing}
+                  onClick={handleSubmit}
+                  disabled={editorBusy || !puzzleCheck.ok}
                   className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition"
                 >
-                  Submit
+                  {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+                  {isSubmitting ? "Checking..." : "Submit"}
                 </Button>
               </div>
             </div>
             
             {/* AI Status */}
-            <div className="bg-gray-50 p-4 rounded-md mb-6">
+            <div className="bg-gray-50 p-4 rounded-md mb-4">
               <div className="flex items-center justify-between">
                 <div>
                   <p className="font-medium">AI Status</p>
                   <p className="text-sm text-gray-500">
-                    {isProcessing 
-                      ? "Processing puzzle..." 
-                      : puzzleSolved === null 
-                        ? "Waiting for puzzle" 
-                        : puzzleSolved 
-                          ? "Solved puzzle" 
-                          : "Failed to solve puzzle"}
+                    {isSubmitting
+                      ? "Checking your puzzle..."
+                      : phase === "ai_solving"
+                        ? "Solving your puzzle..."
+                        : "Waiting for your puzzle"}
                   </p>
                 </div>
                 <div className="flex items-center gap-2">
-                  {isProcessing && (
-                    <div className={`flex items-center gap-1 px-2 py-1 rounded-md ${
-                      isTimerLow ? 'bg-red-100 animate-pulse' : 'bg-gray-100'
-                    }`}>
-                      <Clock className={`h-4 w-4 ${isTimerLow ? 'text-red-500' : 'text-gray-500'}`} />
-                      <span className={`text-sm font-medium ${isTimerLow ? 'text-red-500' : 'text-gray-500'}`}>
-                        {timeRemaining}s
-                      </span>
-                    </div>
-                  )}
+                  {phase === "ai_solving" && clock}
                   
                   <div className="w-10 h-10 rounded-full bg-info/20 flex items-center justify-center">
-                    {isProcessing ? (
+                    {phase === "ai_solving" || isSubmitting ? (
                       <Loader2 className="animate-spin h-5 w-5 text-info" />
-                    ) : puzzleSolved === null ? (
-                      <div className="h-5 w-5 text-info" />
-                    ) : puzzleSolved ? (
-                      <CheckCircle className="h-5 w-5 text-success" />
                     ) : (
-                      <XCircle className="h-5 w-5 text-danger" />
+                      <div className="h-5 w-5 text-info" />
                     )}
                   </div>
                 </div>
               </div>
             </div>
-            
-            {/* Puzzles Progress */}
-            <div className="flex justify-between items-center mb-4">
-              <div className="flex gap-1">
-                {Array.from({ length: 5 }).map((_, i) => (
-                  <div 
-                    key={i}
-                    className={`w-3 h-3 rounded-full ${
-                      i < currentPuzzleIndex 
-                        ? "bg-success" 
-                        : i === currentPuzzleIndex 
-                          ? "bg-primary" 
-                          : "bg-gray-300"
-                    }`}
-                  />
-                ))}
-              </div>
-              <p className="text-sm text-gray-500">{currentPuzzleIndex + 1}/5 puzzles</p>
-            </div>
           </>
+        ) : (
+          <div className="text-center py-8">
+            <Loader2 className="mx-auto h-8 w-8 animate-spin text-info mb-4" />
+            <p className="text-gray-600">
+              {phase === "ai_setting" ? "The AI is setting a puzzle for you..." : "Loading the shootout..."}
+            </p>
+          </div>
         )}
       </DialogContent>
     </Dialog>
@@ -1,6 +1,6 @@
 import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { Trophy, XCircle } from "lucide-react";
+import { Trophy, XCircle, Download } from "lucide-react";
 
 interface WinModalProps {
   isOpen: boolean;
@@ -9,6 +9,10 @@ interface WinModalProps {
   playerScore: number;
   aiScore: number;
   onNewGame: () => void;
+  // Set for pass-and-play games, where neither side is "you"
+  playerLabel?: string;
+  opponentLabel?: string;
+  gameId?: number;
 }
 
 const WinModal: React.FC<WinModalProps> = ({
@@ -17,9 +21,14 @@ const WinModal: React.FC<WinModalProps> = ({
   winner,
   playerScore,
   aiScore,
-  onNewGame
+  onNewGame,
+  playerLabel,
+  opponentLabel,
+  gameId
 }) => {
   const isPlayerWin = winner === "player";
+  const winnerLabel = isPlayerWin ? playerLabel : opponentLabel;
+  const loserLabel = isPlayerWin ? opponentLabel : playerLabel;
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -33,24 +42,26 @@ const WinModal: React.FC<WinModalProps> = ({
         </div>
         
         <h2 className="font-sans font-bold text-2xl mb-2">
-          {isPlayerWin ? "You Won!" : "You Lost!"}
+          {playerLabel ? `${winnerLabel} Wins!` : isPlayerWin ? "You Won!" : "You Lost!"}
         </h2>
         <p className="text-gray-600 mb-6">
-          {isPlayerWin 
-            ? "You outscored the AI by capturing more valuable pieces!" 
-            : "The AI outscored you by capturing more valuable pieces!"}
+          {playerLabel
+            ? `${winnerLabel} outscored ${loserLabel} by capturing more valuable pieces!`
+            : isPlayerWin 
+              ? "You outscored the AI by capturing more valuable pieces!" 
+              : "The AI outscored you by capturing more valuable pieces!"}
         </p>
         
         <div className="bg-gray-50 p-4 rounded-md mb-6">
           <div className="grid grid-cols-2 gap-4">
             <div>
-              <p className="text-gray-500 text-sm">Your Score</p>
+              <p className="text-gray-500 text-sm">{playerLabel ? `${playerLabel} Score` : "Your Score"}</p>
               <p className={`font-sans font-bold text-2xl ${isPlayerWin ? 'text-success' : ''}`}>
                 {playerScore}
               </p>
             </div>
             <div>
-              <p className="text-gray-500 text-sm">AI Score</p>
+              <p className="text-gray-500 text-sm">{opponentLabel ?? "AI"} Score</p>
               <p className={`font-sans font-bold text-2xl ${!isPlayerWin ? 'text-danger' : ''}`}>
                 {aiScore}
               </p>
@@ -74,6 +85,15 @@ const WinModal: React.FC<WinModalProps> = ({
             New Game
           </Button>
         </div>
+        
+        {gameId && (
+          <Button asChild variant="link" className="mt-3 text-gray-600 flex items-center justify-center gap-1">
+            <a href={`/api/games/${gameId}/pgn`} download>
+              <Download className="h-4 w-4" />
+              Download PGN
+            </a>
+          </Button>
+        )}
       </DialogContent>
     </Dialog>
   );
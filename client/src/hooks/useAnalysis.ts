@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import type { Color } from "chess.js";
+import type { AnalysisUpdate } from "@shared/analysis";
+
+// A position to analyse, with the Hukum state of the game it comes from
+export interface AnalysisTarget {
+  fen: string;
+  moves: Record<Color, number>;      // Hukum moves each colour has made
+  scores: Record<Color, number>;
+  freeHits: Record<Color, boolean>;
+  lines?: number;
+  timeLimit?: number;                // milliseconds
+}
+
+interface UseAnalysisReturn {
+  update: AnalysisUpdate | null;
+  analysing: boolean;
+  error: string | null;
+}
+
+function analysisUrl(target: AnalysisTarget): string {
+  const params = new URLSearchParams({
+    fen: target.fen,
+    whiteMoves: String(target.moves.w),
+    blackMoves: String(target.moves.b),
+    whiteScore: String(target.scores.w),
+    blackScore: String(target.scores.b),
+    whiteFreeHit: String(target.freeHits.w),
+    blackFreeHit: String(target.freeHits.b)
+  });
+  if (target.lines !== undefined) params.set("lines", String(target.lines));
+  if (target.timeLimit !== undefined) params.set("timeLimit", String(target.timeLimit));
+  return `/api/ai/analyse?${params}`;
+}
+
+// Stream the server's analysis of a position, starting over whenever the
+// position changes. Pass null to stop analysing.
+export default function useAnalysis(target: AnalysisTarget | null): UseAnalysisReturn {
+  const [update, setUpdate] = useState<AnalysisUpdate | null>(null);
+  const [analysing, setAnalysing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only a change of position or settings restarts the stream
+  const url = target ? analysisUrl(target) : null;
+
+  useEffect(() => {
+    setUpdate(null);
+    setError(null);
+    if (!url) {
+      setAnalysing(false);
+      return;
+    }
+
+    setAnalysing(true);
+    const source = new EventSource(url);
+
+    // The stream is closed here once it ends, or EventSource would reconnect
+    // and start the analysis again
+    const finish = () => {
+      source.close();
+      setAnalysing(false);
+    };
+
+    source.addEventListener("update", (event) => {
+      setUpdate(JSON.parse((event as MessageEvent).data));
+    });
+    source.addEventListener("done", (event) => {
+      const final: AnalysisUpdate | null = JSON.parse((event as MessageEvent).data);
+      if (final) setUpdate(final);
+      finish();
+    });
+    source.addEventListener("failed", (event) => {
+      setError(JSON.parse((event as MessageEvent).data).message);
+      finish();
+    });
+    // Refused before the stream started, e.g. while the engine is busy
+    source.onerror = () => {
+      setError("Analysis is not available right now");
+      finish();
+    };
+
+    return () => source.close();
+  }, [url]);
+
+  return { update, analysing, error };
+}
@@ -0,0 +1,110 @@
+import { createContext, ReactNode, useContext } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import { apiRequest, getErrorMessage, getQueryFn, queryClient } from "../lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface AuthUser {
+  id: number;
+  username: string;
+}
+
+interface Credentials {
+  username: string;
+  password: string;
+}
+
+interface AuthContextType {
+  user: AuthUser | null;
+  isLoading: boolean;
+  offline: boolean; // the server can't be reached, so no one is logged in
+  loginMutation: UseMutationResult<AuthUser, Error, Credentials>;
+  registerMutation: UseMutationResult<AuthUser, Error, Credentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  // The logged-in user, or null when the session has none
+  const { data: user, isLoading, error } = useQuery<AuthUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" })
+  });
+  // fetch fails with a TypeError when there is no server to answer
+  const offline = error instanceof TypeError;
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return (await res.json()) as AuthUser;
+    },
+    onSuccess: (loggedIn) => {
+      queryClient.setQueryData(["/api/user"], loggedIn);
+    },
+    onError: (error) => {
+      toast({
+        title: "Login failed",
+        description: getErrorMessage(error, "Could not log in"),
+        variant: "destructive"
+      });
+    }
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest("POST", "/api/register", credentials);
+      return (await res.json()) as AuthUser;
+    },
+    onSuccess: (registered) => {
+      queryClient.setQueryData(["/api/user"], registered);
+    },
+    onError: (error) => {
+      toast({
+        title: "Registration failed",
+        description: getErrorMessage(error, "Could not create your account"),
+        variant: "destructive"
+      });
+    }
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/user"], null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Logout failed",
+        description: getErrorMessage(error, "Could not log out"),
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        offline,
+        loginMutation,
+        registerMutation,
+        logoutMutation
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export default function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
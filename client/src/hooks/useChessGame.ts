@@ -1,20 +1,49 @@
 import { useState, useEffect, useCallback } from "react";
-import { Chess, Square } from "chess.js";
+import { Chess, Square, PieceSymbol } from "chess.js";
 import useTimer from "./useTimer";
-import { createChessGame, calculateMoveScore, isCheckmate, getLegalMovesForSquare } from "../lib/chess";
-import { getAIMove, isFoulCapture } from "../lib/stockfish";
-import { apiRequest } from "../lib/queryClient";
+import { createChessGame, getLegalMovesForSquare } from "../lib/chess";
+import { getAIMove } from "../lib/stockfish";
+import { apiRequest, getErrorMessage } from "../lib/queryClient";
+import {
+  advanceHukumGame,
+  freeHitsByColor,
+  getHukumMoves,
+  getTurnDeadline,
+  isPlayerToMove,
+  missHukumMove,
+  moveTimeLimit,
+  movesLeft,
+  nextMoveNumbers,
+  replayHukumMove,
+  scoresByColor,
+  HukumRuleError,
+  MISSED_MOVE,
+  type HukumGameUpdate,
+  type HukumMoveResult,
+  type HukumScoredState,
+  type HukumTurn
+} from "@shared/hukum";
+import type { Difficulty } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 
+// "ai" plays against the engine; "hotseat" is two people sharing one device
+type LocalGameMode = "ai" | "hotseat";
+
 interface UseChessGameReturn {
   game: any;
   gameState: string;
+  mode: LocalGameMode;
   playerSide: "white" | "black";
   playerRole: "player1" | "player2";
+  playerLabel: string;
+  opponentLabel: string;
+  boardOrientation: "white" | "black";
   playerScore: number;
   aiScore: number;
   playerMoves: number;
   aiMoves: number;
+  remainingMoves: number;
+  freeHitTurn: boolean;
   currentTurn: "white" | "black";
   fen: string;
   moveHistory: any[];
@@ -23,36 +52,50 @@ interface UseChessGameReturn {
   legalMoves: Square[];
   status: string;
   startNewGame: (options: any) => void;
-  makeMove: (from: Square, to: Square) => boolean;
-  selectSquare: (square: Square) => void;
+  makeMove: (from: Square, to: Square, promotion?: PieceSymbol) => boolean;
+  selectSquare: (square: Square, promotion?: PieceSymbol) => void;
   handleCapture: (piece: string, square: Square) => void;
   resignGame: () => void;
   isTimerLow: boolean;
+  offline: boolean;
+}
+
+function sideName(side: "white" | "black"): string {
+  return side === "white" ? "White" : "Black";
 }
 
 export default function useChessGame(): UseChessGameReturn {
   // Game state
   const [game, setGame] = useState<any>(null);
   const [gameId, setGameId] = useState<number | null>(null);
+  // Played in the browser alone because the server couldn't be reached; the
+  // game isn't saved and its clock runs here
+  const [offline, setOffline] = useState<boolean>(false);
   const [chess, setChess] = useState<Chess>(createChessGame());
   const [gameState, setGameState] = useState<string>("not_started");
   
   // Player settings
   const [playerSide, setPlayerSide] = useState<"white" | "black">("white");
   const [playerRole, setPlayerRole] = useState<"player1" | "player2">("player1");
+  const [difficulty, setDifficulty] = useState<Difficulty>("grandmaster");
+  const [mode, setMode] = useState<LocalGameMode>("ai");
+  const [autoFlip, setAutoFlip] = useState<boolean>(false);
   
   // Game statistics
   const [playerScore, setPlayerScore] = useState<number>(0);
   const [aiScore, setAiScore] = useState<number>(0);
   const [playerMoves, setPlayerMoves] = useState<number>(0);
   const [aiMoves, setAiMoves] = useState<number>(0);
+  const [playerFreeHit, setPlayerFreeHit] = useState<boolean>(false);
+  const [aiFreeHit, setAiFreeHit] = useState<boolean>(false);
   
   // UI state
   const [selectedSquare, setSelectedSquare] = useState<Square | null>(null);
   const [legalMoves, setLegalMoves] = useState<Square[]>([]);
   const [moveHistory, setMoveHistory] = useState<any[]>([]);
   const [status, setStatus] = useState<string>("");
-  const [freeHitAvailable, setFreeHitAvailable] = useState<boolean>(false);
+  // A move is on its way to the server; nothing else moves until it's saved
+  const [saving, setSaving] = useState<boolean>(false);
   
   const { toast } = useToast();
   
@@ -62,39 +105,101 @@ export default function useChessGame(): UseChessGameReturn {
   // Compute if it's player's turn
   const isPlayerTurn = currentTurn === playerSide;
   
-  // Timer setup - 60s for 1st move, 30s for remaining moves
-  const initialTime = playerMoves === 0 || aiMoves === 0 ? 60 : 30;
+  // In hotseat mode both sides are played from this device, so whoever is
+  // to move may move. Their moves are stored with isPlayer set by side.
+  const isHotseat = mode === "hotseat";
+  const canMove = isPlayerTurn || isHotseat;
+  const moverMoves = isPlayerTurn ? playerMoves : aiMoves;
+  const opponentSide = playerSide === "white" ? "black" : "white";
+  const playerLabel = isHotseat ? sideName(playerSide) : "You";
+  const opponentLabel = isHotseat ? sideName(opponentSide) : "AI";
+  const boardOrientation = isHotseat && autoFlip ? currentTurn : playerSide;
+  
+  // Moves left for the side to move, and whether its next one is a Free Hit
+  const freeHitState = { playerMoves, aiMoves, playerFreeHit, aiFreeHit };
+  const remainingMoves = movesLeft(freeHitState, isPlayerTurn);
+  const freeHitTurn = (isPlayerTurn ? playerFreeHit : aiFreeHit) && remainingMoves === 1;
+  
+  // Timer setup - 60s for 1st move, 30s for remaining moves. Hotseat
+  // sides each get their own first-move allowance.
+  const initialTime = isHotseat
+    ? moveTimeLimit(moverMoves)
+    : playerMoves === 0 || aiMoves === 0 ? 60 : 30;
   const { timeRemaining, isTimerLow, resetTimer } = useTimer({
     initialTime,
     isActive: gameState === "in_progress",
     onTimeUp: handleTimeUp
   });
 
-  // Handle time up
-  function handleTimeUp() {
-    if (gameState !== "in_progress") return;
-    
-    // Apply missed move penalty
-    if (isPlayerTurn) {
-      setPlayerScore(prev => Math.max(0, prev - 1));
-      setPlayerMoves(prev => prev + 1);
-    } else {
-      setAiScore(prev => Math.max(0, prev - 1));
-      setAiMoves(prev => prev + 1);
+  // Count down to the server's deadline for the current turn. An overdue
+  // deadline still gets a second so the timer fires and we sync again.
+  const syncClock = useCallback((serverGame: any) => {
+    const deadline = getTurnDeadline(serverGame);
+    if (deadline !== null) {
+      resetTimer(Math.max(1, Math.ceil((deadline - Date.now()) / 1000)));
     }
+  }, [resetTimer]);
+
+  // Take the game from the server, which has the final say on the position,
+  // scores and result. moves replaces the move list when given.
+  const applyServerGame = useCallback((serverGame: any, moves?: any[]) => {
+    chess.load(serverGame.fen);
+    setGame(serverGame);
+    setPlayerScore(serverGame.playerScore ?? 0);
+    setAiScore(serverGame.aiScore ?? 0);
+    setPlayerMoves(serverGame.playerMoves ?? 0);
+    setAiMoves(serverGame.aiMoves ?? 0);
+    setPlayerFreeHit(serverGame.playerFreeHit);
+    setAiFreeHit(serverGame.aiFreeHit);
+    if (moves) setMoveHistory([...moves].reverse());
+    setSelectedSquare(null);
+    setLegalMoves([]);
     
-    // Check if game is over after this move
-    checkGameOver();
+    setGameState(serverGame.status);
+    if (serverGame.status !== "in_progress") return;
     
-    // Reset timer for next move
-    resetTimer(30);
+    // Not due yet by the server's clock, or the next turn has started
+    syncClock(serverGame);
+  }, [chess, syncClock]);
+  
+  // Fetch the game and its moves and take them as they are on the server
+  const fetchServerGame = useCallback(async (): Promise<{ serverGame: any; moves: any[] }> => {
+    const serverGame = await (await apiRequest("GET", `/api/games/${gameId}`)).json();
+    const moves = await (await apiRequest("GET", `/api/games/${gameId}/moves`)).json();
+    applyServerGame(serverGame, moves);
+    return { serverGame, moves };
+  }, [gameId, applyServerGame]);
+
+  // Handle time up. The server records the missed move and its penalty,
+  // so fetch the game rather than applying it here.
+  async function handleTimeUp() {
+    if (gameState !== "in_progress") return;
+    
+    if (offline) {
+      const turn = missHukumMove(hukumState());
+      const next = applyTurn(turn, MISSED_MOVE, null);
+      if (!next.status) {
+        setStatus(`${turn.isPlayer ? playerLabel : opponentLabel} ran out of time`);
+      }
+      return;
+    }
+    if (!gameId) return;
     
-    // Make AI move if it's AI's turn now
-    if (!isPlayerTurn) {
-      makeAIMove();
+    try {
+      const { moves } = await fetchServerGame();
+      
+      const lastMove = moves[moves.length - 1];
+      if (lastMove?.move === MISSED_MOVE) {
+        setStatus(`${lastMove.isPlayer ? playerLabel : opponentLabel} ran out of time`);
+      }
+    } catch (error) {
+      console.error("Error syncing game clock:", error);
     }
   }
   
+  // Current position; chess is updated in place as moves are made
+  const fen = chess.fen();
+  
   // Start a new game
   const startNewGame = useCallback(async (options: any) => {
     try {
@@ -105,43 +210,61 @@ export default function useChessGame(): UseChessGameReturn {
       // Set player options
       setPlayerSide(options.playerSide);
       setPlayerRole(options.playerRole);
+      setDifficulty(options.difficulty ?? "grandmaster");
+      setMode(options.mode ?? "ai");
+      setAutoFlip(!!options.autoFlip);
       
       // Reset game state
       setPlayerScore(0);
       setAiScore(0);
       setPlayerMoves(0);
       setAiMoves(0);
+      setPlayerFreeHit(false);
+      setAiFreeHit(false);
       setSelectedSquare(null);
       setLegalMoves([]);
       setMoveHistory([]);
       setStatus("Game started");
-      setFreeHitAvailable(false);
+      
+      setGame(null);
+      setGameId(null);
+      setOffline(false);
       
       // Set game state to in progress
       setGameState("in_progress");
       
       // Create a new game on the server
-      const response = await apiRequest("POST", "/api/games", {
-        playerSide: options.playerSide,
-        playerRole: options.playerRole,
-        fen: newChess.fen(),
-        status: "in_progress"
-      });
+      let gameData = null;
+      try {
+        const response = await apiRequest("POST", "/api/games", {
+          playerSide: options.playerSide,
+          playerRole: options.playerRole,
+          fen: newChess.fen(),
+          difficulty: options.difficulty ?? "grandmaster",
+          mode: options.mode ?? "ai"
+        });
+        gameData = await response.json();
+      } catch (error) {
+        // Without a server at all, the game is played here instead
+        if (!(error instanceof TypeError)) throw error;
+      }
+      
+      if (!gameData) {
+        setOffline(true);
+        resetTimer(moveTimeLimit(0));
+        toast({
+          title: "Playing offline",
+          description: "The server can't be reached, so this game won't be saved."
+        });
+        return;
+      }
       
-      const gameData = await response.json();
       setGame(gameData);
       setGameId(gameData.id);
       
-      // Reset timer
-      resetTimer(60); // First move gets 60 seconds
-      
-      // If AI goes first, make AI move
-      if (
-        (options.playerSide === "white" && options.playerRole === "player2") ||
-        (options.playerSide === "black" && options.playerRole === "player1")
-      ) {
-        makeAIMove();
-      }
+      // Start the timer from the server's clock; if the AI goes first,
+      // the effect below makes its move
+      syncClock(gameData);
     } catch (error) {
       console.error("Error starting new game:", error);
       toast({
@@ -150,94 +273,142 @@ export default function useChessGame(): UseChessGameReturn {
         variant: "destructive"
       });
     }
-  }, [resetTimer, toast]);
+  }, [syncClock, resetTimer, toast]);
+  
+  // The game as the Hukum rules read it
+  const hukumState = useCallback((): HukumScoredState => ({
+    fen: chess.fen(),
+    playerSide,
+    status: "in_progress",
+    playerMoves,
+    aiMoves,
+    playerScore,
+    aiScore,
+    playerFreeHit,
+    aiFreeHit
+  }), [chess, playerSide, playerMoves, aiMoves, playerScore, aiScore, playerFreeHit, aiFreeHit]);
+  
+  // Apply a played or missed turn through the shared Hukum rules and update
+  // scores, move counts, Free Hits and the result
+  const applyTurn = useCallback((turn: HukumTurn, uci: string, capturedPiece: PieceSymbol | null): HukumGameUpdate => {
+    const next = advanceHukumGame(hukumState(), turn);
+    
+    // The rules may hand the turn over so a Free Hit can be taken
+    chess.load(next.fen);
+    setPlayerMoves(next.playerMoves ?? 0);
+    setAiMoves(next.aiMoves ?? 0);
+    setPlayerScore(next.playerScore ?? 0);
+    setAiScore(next.aiScore ?? 0);
+    setPlayerFreeHit(next.playerFreeHit);
+    setAiFreeHit(next.aiFreeHit);
+    
+    // Add to local move history (add to beginning for newest first)
+    setMoveHistory(prev => [
+      {
+        id: Date.now(),
+        gameId,
+        move: uci,
+        isPlayer: turn.isPlayer,
+        capturedPiece,
+        points: turn.points,
+        moveNumber: turn.moveNumber,
+        freeHit: turn.freeHit
+      },
+      ...prev
+    ]);
+    
+    // A foul capture on a side's last move gives the other side a Free Hit
+    const awardedTo = next.playerFreeHit && !playerFreeHit ? playerLabel
+      : next.aiFreeHit && !aiFreeHit ? opponentLabel
+      : null;
+    if (awardedTo) {
+      toast({
+        title: "Free Hit!",
+        description: `Foul capture on the last move. ${awardedTo === "You" ? "You get" : `${awardedTo} gets`} one extra move.`
+      });
+    }
+    
+    if (next.status) {
+      const winnerLabel = next.status === "player_win" ? playerLabel : opponentLabel;
+      setGameState(next.status);
+      setStatus(
+        // The shootout is played on the server
+        next.status === "tie" ? (offline ? "Game ended in a tie!" : "Game ended in a tie! Puzzle shootout time!")
+          : chess.isCheckmate() ? `${winnerLabel} won by checkmate!`
+          : `${winnerLabel} won by points!`
+      );
+    } else {
+      // Local countdown until the server's clock arrives; offline it's the only clock
+      const nextIsPlayer = isPlayerToMove({ fen: next.fen, playerSide });
+      resetTimer(moveTimeLimit((nextIsPlayer ? next.playerMoves : next.aiMoves) ?? 0));
+    }
+    
+    return next;
+  }, [chess, gameId, offline, playerSide, playerFreeHit, aiFreeHit, playerLabel, opponentLabel, hukumState, resetTimer, toast]);
   
-  // Make an AI move
-  const makeAIMove = useCallback(async () => {
-    if (gameState !== "in_progress" || !gameId) return;
+  // Play a move through the shared Hukum rules (the same ones the server
+  // replays it with). Throws HukumRuleError when the move isn't allowed.
+  const playTurn = useCallback((uci: string, isPlayer: boolean): { result: HukumMoveResult; next: HukumGameUpdate } => {
+    const result = replayHukumMove(hukumState(), uci, isPlayer);
+    return { result, next: applyTurn(result, result.uci, result.capturedPiece) };
+  }, [hukumState, applyTurn]);
+  
+  // Make an AI move. Aborting the signal cancels the search, e.g. when the game ends first.
+  const makeAIMove = useCallback(async (signal?: AbortSignal) => {
+    if (mode !== "ai" || gameState !== "in_progress" || (!gameId && !offline)) return;
+    
+    // The in-browser engine, for when the server can't be reached at all
+    const localMove = () => getAIMove(chess.fen(), {
+      moveNumbers: nextMoveNumbers({ playerSide, playerMoves, aiMoves }),
+      difficulty,
+      scores: scoresByColor({ playerSide, playerScore, aiScore }),
+      freeHits: freeHitsByColor({ playerSide, playerFreeHit, aiFreeHit }),
+      engine: "local",
+      onProgress: ({ depth }) => setStatus(`AI is thinking... (depth ${depth})`),
+      signal
+    });
     
     try {
       // Set status to indicate AI is thinking
       setStatus("AI is thinking...");
       
-      // Get AI move from Stockfish
-      const move = await getAIMove(chess.fen(), 3, 1000);
+      // The server picks and records the AI's move at the game's difficulty
+      let move: string;
+      let savedGame = null;
+      if (offline) {
+        move = await localMove();
+      } else {
+        try {
+          const saved = await (await apiRequest("POST", `/api/games/${gameId}/ai-move`, undefined, signal)).json();
+          move = saved.move.move;
+          savedGame = saved.game;
+        } catch (error) {
+          if (!(error instanceof TypeError)) throw error;
+          move = await localMove();
+        }
+      }
       
       if (!move || move.length < 4) {
         throw new Error("Invalid AI move received");
       }
       
-      // Parse the move
-      const from = move.substring(0, 2) as Square;
-      const to = move.substring(2, 4) as Square;
-      const promotion = move.length > 4 ? move.substring(4, 5) : undefined;
+      // Make the move on the board
+      const { result, next } = playTurn(move, false);
       
-      // Make the move on the chess board
-      const moveObj = chess.move({
-        from,
-        to,
-        promotion
-      });
+      // The next turn's clock started when the server recorded the move
+      if (savedGame) applyServerGame(savedGame);
       
-      if (!moveObj) {
-        throw new Error("Invalid AI move: " + move);
-      }
-      
-      // Calculate score for the move
-      const points = calculateMoveScore(moveObj);
-      
-      // Update AI score and moves
-      setAiScore(prev => prev + points);
-      setAiMoves(prev => prev + 1);
-      
-      // Add move to history
-      const moveData = {
-        gameId,
-        move: `${from}${to}${promotion || ''}`,
-        isPlayer: false,
-        capturedPiece: moveObj.captured,
-        points,
-        moveNumber: aiMoves + 1,
-        resultingFen: chess.fen()
-      };
-      
-      // Save move to server
-      await apiRequest("POST", `/api/games/${gameId}/moves`, moveData);
-      
-      // Add to local move history (add to beginning for newest first)
-      setMoveHistory(prev => [
-        {
-          id: Date.now(),
-          ...moveData
-        },
-        ...prev
-      ]);
-      
-      // Check if this was a "foul capture" that enables Free Hit
-      if (aiMoves === 5 && moveObj.captured) {
-        const foulCapture = await isFoulCapture(chess, `${from}${to}`);
-        setFreeHitAvailable(foulCapture);
-        
-        if (foulCapture) {
-          toast({
-            title: "Free Hit Available!",
-            description: "AI made a foul capture. You get one free move!",
-            variant: "default"
-          });
-        }
-      }
-      
-      // Check if game is over
-      const gameOver = checkGameOver();
-      
-      if (!gameOver) {
-        // Reset timer for player's move
-        resetTimer(playerMoves === 0 ? 60 : 30);
-        
+      if (!next.status) {
         // Update status message
-        setStatus(moveObj.captured ? `AI captured your ${moveObj.captured}` : "Your turn");
+        const playerNext = isPlayerToMove({ fen: next.fen, playerSide });
+        setStatus(
+          result.capturedPiece ? `AI captured your ${result.capturedPiece}`
+            : playerNext ? "Your turn" : "AI is thinking..."
+        );
       }
     } catch (error) {
+      // The search was cancelled, nothing to recover
+      if (error instanceof DOMException && error.name === "AbortError") return;
       console.error("Error making AI move:", error);
       toast({
         title: "Error",
@@ -249,105 +420,108 @@ export default function useChessGame(): UseChessGameReturn {
       resetTimer(playerMoves === 0 ? 60 : 30);
       setStatus("Your turn (AI move failed)");
     }
-  }, [chess, aiMoves, gameId, gameState, playerMoves, resetTimer, toast]);
+  }, [chess, aiMoves, gameId, offline, gameState, mode, playerSide, playerMoves, playerScore, aiScore, playerFreeHit, aiFreeHit, difficulty, playTurn, resetTimer, applyServerGame, toast]);
   
   // Make a player move
-  const makeMove = useCallback((from: Square, to: Square): boolean => {
-    if (gameState !== "in_progress" || !isPlayerTurn || !gameId) {
+  const makeMove = useCallback((from: Square, to: Square, promotion: PieceSymbol = 'q'): boolean => {
+    if (gameState !== "in_progress" || !canMove || (!gameId && !offline)) {
       setStatus(gameState !== "in_progress" ? "Game not in progress" : "Not your turn");
       return false;
     }
+    if (saving) {
+      setStatus("Saving the last move...");
+      return false;
+    }
     
     try {
-      // Check if move is legal
-      const move = chess.move({
-        from,
-        to,
-        promotion: 'q' // Auto-promote to queen for simplicity
-      });
-      
-      if (!move) {
+      // Castling and early en passant are legal in chess but not in Hukum
+      const candidate = getHukumMoves(chess, moverMoves + 1, from)
+        .find(m => m.to === to && (!m.promotion || m.promotion === promotion));
+      if (!candidate) {
         setStatus("Invalid move");
         return false;
       }
       
-      // Calculate score for the move
-      const points = calculateMoveScore(move);
-      
-      // Update player score and moves
-      setPlayerScore(prev => prev + points);
-      setPlayerMoves(prev => prev + 1);
-      
-      // Add move to history
-      const moveData = {
-        gameId,
-        move: `${from}${to}${move.promotion || ''}`,
-        isPlayer: true,
-        capturedPiece: move.captured,
-        points,
-        moveNumber: playerMoves + 1,
-        resultingFen: chess.fen()
-      };
-      
-      // Save move to server
-      apiRequest("POST", `/api/games/${gameId}/moves`, moveData)
-        .catch(error => console.error("Error saving move:", error));
-      
-      // Add to local move history
-      setMoveHistory(prev => [
-        {
-          id: Date.now(),
-          ...moveData
-        },
-        ...prev
-      ]);
+      const { result, next } = playTurn(`${from}${to}${candidate.promotion ?? ''}`, isPlayerTurn);
+      
+      // Save the move and take the game from the server's answer. If the
+      // server refuses it (e.g. the clock had already run out), go back to
+      // the server's game. If the server has gone away, carry on offline.
+      if (!offline) {
+        setSaving(true);
+        apiRequest("POST", `/api/games/${gameId}/moves`, { move: result.uci, isPlayer: isPlayerTurn })
+          .then(res => res.json())
+          .then(saved => applyServerGame(saved.game))
+          .catch(async error => {
+            console.error("Error saving move:", error);
+            if (error instanceof TypeError) {
+              setOffline(true);
+              toast({
+                title: "Playing offline",
+                description: "The server can't be reached, so the rest of this game won't be saved."
+              });
+              return;
+            }
+            toast({
+              title: "Move not saved",
+              description: getErrorMessage(error, "The server didn't accept your move"),
+              variant: "destructive"
+            });
+            try {
+              await fetchServerGame();
+              setStatus("Your move was undone");
+            } catch (syncError) {
+              console.error("Error syncing game:", syncError);
+            }
+          })
+          .finally(() => setSaving(false));
+      }
       
       // Reset selected square and legal moves
       setSelectedSquare(null);
       setLegalMoves([]);
       
-      // Check if game is over
-      const gameOver = checkGameOver();
-      
-      if (!gameOver) {
-        // Reset timer for AI's move
-        resetTimer(aiMoves === 0 ? 60 : 30);
+      if (!next.status) {
+        const captured = result.capturedPiece;
+        const playerNext = isPlayerToMove({ fen: next.fen, playerSide });
         
-        // Update status message
-        setStatus(move.captured ? `You captured ${move.captured}` : "AI thinking...");
-        
-        // Make AI move after a short delay
-        setTimeout(() => {
-          makeAIMove();
-        }, 1000);
-      } else {
-        // Update status message for game over
-        setStatus(move.captured ? `You captured ${move.captured}` : "You moved");
+        if (isHotseat) {
+          // Hand the device to the other side
+          const nextLabel = playerNext ? playerLabel : opponentLabel;
+          setStatus(captured ? `Captured ${captured}. ${nextLabel} to move` : `${nextLabel} to move`);
+        } else {
+          setStatus(captured ? `You captured ${captured}` : playerNext ? "Your turn" : "AI thinking...");
+        }
       }
       
       return true;
     } catch (error) {
-      console.error("Error making move:", error);
-      setStatus("Error making move");
+      if (error instanceof HukumRuleError) {
+        setStatus(error.message);
+      } else {
+        console.error("Error making move:", error);
+        setStatus("Error making move");
+      }
       return false;
     }
-  }, [chess, gameState, isPlayerTurn, gameId, playerMoves, aiMoves, resetTimer, makeAIMove]);
+  }, [chess, gameState, canMove, saving, isPlayerTurn, isHotseat, gameId, offline, playerSide, moverMoves, playerLabel, opponentLabel, playTurn, applyServerGame, fetchServerGame, toast]);
   
   // Select a square on the board
-  const selectSquare = useCallback((square: Square) => {
-    if (gameState !== "in_progress" || !isPlayerTurn) {
+  const selectSquare = useCallback((square: Square, promotion?: PieceSymbol) => {
+    if (gameState !== "in_progress" || !canMove) {
       setStatus(gameState !== "in_progress" ? "Game not in progress" : "Not your turn");
       return;
     }
     
     try {
       const piece = chess.get(square);
-      const playerColor = playerSide === "white" ? 'w' : 'b';
+      const moverSide = isHotseat ? currentTurn : playerSide;
+      const playerColor = moverSide === "white" ? 'w' : 'b';
       
       // Case 1: Player clicks on their own piece
       if (piece && piece.color === playerColor) {
         // Show legal moves for this piece
-        const moves = getLegalMovesForSquare(chess, square);
+        const moves = getLegalMovesForSquare(chess, square, moverMoves + 1);
         setSelectedSquare(square);
         setLegalMoves(moves);
         
@@ -357,13 +531,13 @@ export default function useChessGame(): UseChessGameReturn {
       // Case 2: Player clicks on a legal destination square after selecting a piece
       else if (selectedSquare && legalMoves.includes(square)) {
         // Execute the move
-        makeMove(selectedSquare, square);
+        makeMove(selectedSquare, square, promotion);
       }
       // Case 3: Player clicks on opponent's piece and has a piece selected
       else if (piece && piece.color !== playerColor && selectedSquare) {
         // Check if this is a legal capture
         if (legalMoves.includes(square)) {
-          makeMove(selectedSquare, square);
+          makeMove(selectedSquare, square, promotion);
         } else {
           // Not a legal capture, show message
           setStatus(`Can't capture that piece. Select one of your pieces first.`);
@@ -378,20 +552,20 @@ export default function useChessGame(): UseChessGameReturn {
         
         // Provide clear guidance
         if (piece && piece.color !== playerColor) {
-          setStatus(`That's an opponent's piece. Select one of your ${playerSide} pieces first.`);
+          setStatus(`That's an opponent's piece. Select one of your ${moverSide} pieces first.`);
         } else {
-          setStatus(`Select one of your ${playerSide} pieces to move.`);
+          setStatus(`Select one of your ${moverSide} pieces to move.`);
         }
       }
     } catch (error) {
       console.error("Error in selectSquare:", error);
       setStatus("An error occurred when selecting a square");
     }
-  }, [chess, gameState, isPlayerTurn, playerSide, selectedSquare, legalMoves, makeMove]);
+  }, [chess, gameState, canMove, isHotseat, currentTurn, playerSide, moverMoves, selectedSquare, legalMoves, makeMove]);
   
   // Handle capture button click
   const handleCapture = useCallback((piece: string, square: Square) => {
-    if (gameState !== "in_progress" || !isPlayerTurn) {
+    if (gameState !== "in_progress" || !canMove) {
       setStatus(gameState !== "in_progress" ? "Game not in progress" : "Not your turn");
       return;
     }
@@ -416,105 +590,55 @@ export default function useChessGame(): UseChessGameReturn {
     } else {
       setStatus("Select one of your pieces first before capturing");
     }
-  }, [gameState, isPlayerTurn, selectedSquare, legalMoves, makeMove]);
+  }, [gameState, canMove, selectedSquare, legalMoves, makeMove]);
   
-  // Check if the game is over
-  const checkGameOver = useCallback((): boolean => {
-    // Check for checkmate (immediate win condition)
-    if (isCheckmate(chess)) {
-      const winner = chess.turn() === 'w' ? "ai_win" : "player_win";
-      setGameState(winner);
-      setStatus(winner === "player_win" ? "You won by checkmate!" : "AI won by checkmate!");
-      
-      // Update game status on server
-      if (gameId) {
-        apiRequest("PATCH", `/api/games/${gameId}`, { 
-          status: winner,
-          playerScore,
-          aiScore
-        }).catch(error => console.error("Error updating game status:", error));
-      }
-      
-      return true;
-    }
+  // Let the AI move whenever it is its turn, including a Free Hit it is
+  // owed, once the player's move is saved
+  useEffect(() => {
+    if (mode !== "ai" || gameState !== "in_progress" || (!gameId && !offline) || isPlayerTurn || saving) return;
     
-    // Check if standard move limits are reached (6 moves each for both players)
-    if (playerMoves >= 6 && aiMoves >= 6) {
-      // Determine winner by score
-      if (playerScore > aiScore) {
-        setGameState("player_win");
-        setStatus("You won by points!");
-      } else if (aiScore > playerScore) {
-        setGameState("ai_win");
-        setStatus("AI won by points!");
-      } else {
-        setGameState("tie");
-        setStatus("Game ended in a tie! Puzzle shootout time!");
-      }
-      
-      // Update game status on server
-      if (gameId) {
-        apiRequest("PATCH", `/api/games/${gameId}`, { 
-          status: gameState,
-          playerScore,
-          aiScore
-        }).catch(error => console.error("Error updating game status:", error));
-      }
-      
-      return true;
-    }
-    
-    // Check for Free Hit rule - player gets a 7th move if:
-    // 1. Player is player1
-    // 2. AI's 6th move was a foul capture
-    // 3. Player has already made 6 moves
-    if (playerMoves >= 6 && freeHitAvailable && playerRole === "player1") {
-      // Player still has a free hit move (don't end game)
-      return false;
-    }
-    
-    // Handle the case where player1 has made 6 moves (or 7 with free hit) but player2/AI still has moves left
-    if (playerMoves >= 6 && !freeHitAvailable && aiMoves < 6) {
-      // AI still has moves left
-      makeAIMove();
-      return false;
-    }
-    
-    // Handle the case where AI (as player1) has made 6 moves but player2 still has moves left
-    if (aiMoves >= 6 && playerMoves < 6) {
-      // Player still has moves left
-      return false;
-    }
-    
-    return false;
-  }, [chess, playerMoves, aiMoves, playerScore, aiScore, freeHitAvailable, playerRole, gameId, makeAIMove]);
+    const controller = new AbortController();
+    const timeout = setTimeout(() => makeAIMove(controller.signal), 1000);
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [mode, gameState, gameId, offline, fen, isPlayerTurn, saving]);
   
   // Resign the game
   const resignGame = useCallback(() => {
     if (gameState !== "in_progress") return;
     
-    setGameState("ai_win");
-    setStatus("You resigned. AI wins.");
+    // In hotseat mode the side to move is the one resigning
+    const resigningPlayer = !isHotseat || isPlayerTurn;
+    const winner = resigningPlayer ? "ai_win" : "player_win";
+    setGameState(winner);
+    setStatus(resigningPlayer
+      ? `${playerLabel} resigned. ${opponentLabel} wins.`
+      : `${opponentLabel} resigned. ${playerLabel} wins.`);
     
-    // Update game status on server
-    if (gameId) {
-      apiRequest("PATCH", `/api/games/${gameId}`, { status: "ai_win" })
-        .catch(error => console.error("Error updating game status:", error));
+    // The server works out the same result from who is resigning
+    if (gameId && !offline) {
+      apiRequest("POST", `/api/games/${gameId}/resign`)
+        .catch(error => console.error("Error resigning game:", error));
     }
-  }, [gameState, gameId]);
+  }, [gameState, gameId, offline, isHotseat, isPlayerTurn, playerLabel, opponentLabel]);
 
-  // Effect to update FEN when chess object changes
-  const fen = chess.fen();
-  
   return {
     game,
     gameState,
+    mode,
     playerSide,
     playerRole,
+    playerLabel,
+    opponentLabel,
+    boardOrientation,
     playerScore,
     aiScore,
     playerMoves,
     aiMoves,
+    remainingMoves,
+    freeHitTurn,
     currentTurn,
     fen,
     moveHistory,
@@ -527,6 +651,7 @@ export default function useChessGame(): UseChessGameReturn {
     selectSquare,
     handleCapture,
     resignGame,
-    isTimerLow
+    isTimerLow,
+    offline
   };
 }
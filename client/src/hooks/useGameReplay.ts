@@ -0,0 +1,145 @@
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { replayHukumGame, type HukumReplayPly } from "@shared/hukum";
+import type { Game, MoveHistory } from "@shared/schema";
+
+// Autoplay speeds, in milliseconds per ply
+export const REPLAY_SPEEDS = [500, 1000, 2000, 3000];
+
+interface UseGameReplayReturn {
+  game: Game | undefined;
+  plies: HukumReplayPly[];
+  ply: number;
+  current: HukumReplayPly | null;
+  isLoading: boolean;
+  error: string | null;
+  playing: boolean;
+  speed: number;
+  goTo: (ply: number) => void;
+  first: () => void;
+  prev: () => void;
+  next: () => void;
+  last: () => void;
+  togglePlay: () => void;
+  setSpeed: (speed: number) => void;
+}
+
+export default function useGameReplay(gameId: number): UseGameReplayReturn {
+  const gameQuery = useQuery<Game>({ queryKey: [`/api/games/${gameId}`] });
+  const movesQuery = useQuery<MoveHistory[]>({ queryKey: [`/api/games/${gameId}/moves`] });
+
+  const [ply, setPly] = useState<number>(0);
+  const [playing, setPlaying] = useState<boolean>(false);
+  const [speed, setSpeed] = useState<number>(1000);
+
+  // Rebuild every position once both the game and its moves have loaded
+  const { plies, replayError } = useMemo(() => {
+    if (!gameQuery.data || !movesQuery.data) {
+      return { plies: [] as HukumReplayPly[], replayError: null };
+    }
+    try {
+      return { plies: replayHukumGame(gameQuery.data, movesQuery.data), replayError: null };
+    } catch (error) {
+      console.error("Error replaying game:", error);
+      return { plies: [] as HukumReplayPly[], replayError: "This game's moves could not be replayed" };
+    }
+  }, [gameQuery.data, movesQuery.data]);
+
+  const lastPly = Math.max(0, plies.length - 1);
+
+  const goTo = useCallback((target: number) => {
+    setPly(Math.min(Math.max(0, target), lastPly));
+  }, [lastPly]);
+
+  const first = useCallback(() => {
+    setPlaying(false);
+    goTo(0);
+  }, [goTo]);
+
+  const prev = useCallback(() => {
+    setPlaying(false);
+    setPly(current => Math.max(0, current - 1));
+  }, []);
+
+  const next = useCallback(() => {
+    setPly(current => Math.min(lastPly, current + 1));
+  }, [lastPly]);
+
+  const last = useCallback(() => {
+    setPlaying(false);
+    goTo(lastPly);
+  }, [goTo, lastPly]);
+
+  // Restart from the beginning when play is pressed at the end
+  const togglePlay = useCallback(() => {
+    if (!playing && ply >= lastPly) {
+      setPly(0);
+    }
+    setPlaying(!playing);
+  }, [playing, ply, lastPly]);
+
+  // Step forward while autoplaying, stopping at the last position
+  useEffect(() => {
+    if (!playing) return;
+    if (ply >= lastPly) {
+      setPlaying(false);
+      return;
+    }
+
+    const timeout = setTimeout(() => setPly(ply + 1), speed);
+    return () => clearTimeout(timeout);
+  }, [playing, ply, lastPly, speed]);
+
+  // Keyboard navigation: arrows step, Home/End jump, space plays/pauses
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return;
+
+      switch (event.key) {
+        case "ArrowLeft":
+          prev();
+          break;
+        case "ArrowRight":
+          setPlaying(false);
+          next();
+          break;
+        case "Home":
+          first();
+          break;
+        case "End":
+          last();
+          break;
+        case " ":
+          togglePlay();
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [first, prev, next, last, togglePlay]);
+
+  const loadError = gameQuery.error ?? movesQuery.error;
+
+  return {
+    game: gameQuery.data,
+    plies,
+    ply,
+    current: plies[ply] ?? null,
+    isLoading: gameQuery.isLoading || movesQuery.isLoading,
+    error: loadError ? "Game not found or you do not have access to it" : replayError,
+    playing,
+    speed,
+    goTo,
+    first,
+    prev,
+    next,
+    last,
+    togglePlay,
+    setSpeed
+  };
+}
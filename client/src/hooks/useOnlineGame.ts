@@ -0,0 +1,261 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { Chess, Square, PieceSymbol } from "chess.js";
+import { getLegalMovesForSquare } from "../lib/chess";
+import { getHukumMoves, movesLeft, HUKUM_MOVE_LIMIT } from "@shared/hukum";
+import {
+  ROOM_SOCKET_PATH,
+  type ClientMessage,
+  type RoomState,
+  type ServerMessage
+} from "@shared/rooms";
+import type { MoveHistory } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import useAuth from "./useAuth";
+
+interface CreateRoomOptions {
+  playerSide: "white" | "black";
+  playerRole: "player1" | "player2";
+  fen?: string;
+}
+
+interface UseOnlineGameReturn {
+  room: RoomState | null;
+  connected: boolean;
+  gameState: string;
+  playerSide: "white" | "black";
+  opponentName: string;
+  playerScore: number;
+  opponentScore: number;
+  playerMoves: number;
+  opponentMoves: number;
+  remainingMoves: number;
+  freeHitTurn: boolean;
+  result: "win" | "loss" | "tie" | null;
+  currentTurn: "white" | "black";
+  fen: string;
+  moveHistory: MoveHistory[];
+  timeRemaining: number;
+  selectedSquare: Square | null;
+  legalMoves: Square[];
+  status: string;
+  createRoom: (options: CreateRoomOptions) => void;
+  joinRoom: (code: string) => void;
+  makeMove: (from: Square, to: Square, promotion?: PieceSymbol) => boolean;
+  selectSquare: (square: Square, promotion?: PieceSymbol) => void;
+  resignGame: () => void;
+  isTimerLow: boolean;
+}
+
+function socketUrl(): string {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${window.location.host}${ROOM_SOCKET_PATH}`;
+}
+
+// Online match against another logged-in player. The server owns the game;
+// this hook only mirrors the room it pushes and sends moves back. Scores and
+// moves are given from this player's point of view: the room owner plays the
+// game's player* columns and the opponent plays the ai* columns.
+export default function useOnlineGame(): UseOnlineGameReturn {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const socketRef = useRef<WebSocket | null>(null);
+  const gameIdRef = useRef<number | null>(null);
+  const [connected, setConnected] = useState<boolean>(false);
+  const [room, setRoom] = useState<RoomState | null>(null);
+  const [moveHistory, setMoveHistory] = useState<MoveHistory[]>([]);
+  const [now, setNow] = useState<number>(Date.now());
+
+  // UI state
+  const [selectedSquare, setSelectedSquare] = useState<Square | null>(null);
+  const [legalMoves, setLegalMoves] = useState<Square[]>([]);
+  const [status, setStatus] = useState<string>("");
+
+  // Open the room socket for the lifetime of the page
+  useEffect(() => {
+    const socket = new WebSocket(socketUrl());
+    socketRef.current = socket;
+
+    socket.onopen = () => setConnected(true);
+    socket.onclose = () => setConnected(false);
+    socket.onmessage = (event) => {
+      const message: ServerMessage = JSON.parse(event.data);
+
+      if (message.type === "error") {
+        toast({
+          title: "Error",
+          description: message.message,
+          variant: "destructive"
+        });
+        return;
+      }
+
+      // A different room means a fresh move list
+      if (gameIdRef.current !== message.room.game.id) {
+        gameIdRef.current = message.room.game.id;
+        setMoveHistory([]);
+      }
+      setRoom(message.room);
+
+      if (message.type === "move") {
+        setMoveHistory(prev => [message.move, ...prev]);
+      }
+    };
+
+    return () => {
+      socket.close();
+      socketRef.current = null;
+    };
+  }, [toast]);
+
+  const send = useCallback((message: ClientMessage) => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      setStatus("Not connected to the server");
+      return;
+    }
+    socket.send(JSON.stringify(message));
+  }, []);
+
+  const game = room?.game;
+  const isOwner = !!game && game.ownerId === user?.id;
+  const chess = useMemo(() => new Chess(game?.fen), [game?.fen]);
+
+  // The owner plays the side stored on the game; the opponent plays the other
+  const ownerSide = (game?.playerSide ?? "white") as "white" | "black";
+  const playerSide = isOwner || !game ? ownerSide : ownerSide === "white" ? "black" : "white";
+  const currentTurn = chess.turn() === 'w' ? "white" : "black";
+  const gameState = game?.status ?? "not_started";
+  const isPlayerTurn = gameState === "in_progress" && !!room?.opponent && currentTurn === playerSide;
+
+  const playerScore = (isOwner ? game?.playerScore : game?.aiScore) ?? 0;
+  const opponentScore = (isOwner ? game?.aiScore : game?.playerScore) ?? 0;
+  const playerMoves = (isOwner ? game?.playerMoves : game?.aiMoves) ?? 0;
+  const opponentMoves = (isOwner ? game?.aiMoves : game?.playerMoves) ?? 0;
+
+  // Moves left for the side to move, and whether its next one is a Free Hit
+  const ownerToMove = currentTurn === ownerSide;
+  const remainingMoves = game ? movesLeft(game, ownerToMove) : HUKUM_MOVE_LIMIT;
+  const freeHitTurn = !!game && (ownerToMove ? game.playerFreeHit : game.aiFreeHit) && remainingMoves === 1;
+  const opponent = isOwner ? room?.opponent : room?.owner;
+  const opponentName = opponent?.username ?? "Opponent";
+
+  // Game statuses are stored from the owner's side
+  const result = gameState === "tie" ? "tie"
+    : gameState === "player_win" ? (isOwner ? "win" : "loss")
+    : gameState === "ai_win" ? (isOwner ? "loss" : "win")
+    : null;
+
+  // Tick the clock while a deadline is running
+  const deadline = room?.deadline ?? null;
+  useEffect(() => {
+    if (deadline === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  const timeRemaining = deadline === null ? 0 : Math.max(0, Math.ceil((deadline - now) / 1000));
+  const isTimerLow = deadline !== null && timeRemaining <= 10 && timeRemaining > 0;
+
+  // Clear the selection whenever the position changes
+  const fen = chess.fen();
+  useEffect(() => {
+    setSelectedSquare(null);
+    setLegalMoves([]);
+
+    if (!room) return;
+    if (result) {
+      setStatus(result === "win" ? "You won!" : result === "loss" ? `${opponentName} won` : "Game ended in a tie");
+    } else if (!room.opponent) {
+      setStatus(`Waiting for an opponent. Share room code ${room.code}`);
+    } else {
+      setStatus(isPlayerTurn ? "Your turn" : `${opponentName}'s turn`);
+    }
+  }, [fen, gameState, room?.code, room?.opponent?.id]);
+
+  const createRoom = useCallback((options: CreateRoomOptions) => {
+    send({ type: "create", ...options });
+  }, [send]);
+
+  const joinRoom = useCallback((code: string) => {
+    send({ type: "join", code });
+  }, [send]);
+
+  const makeMove = useCallback((from: Square, to: Square, promotion: PieceSymbol = 'q'): boolean => {
+    if (!isPlayerTurn) {
+      setStatus(gameState !== "in_progress" ? "Game not in progress" : "Not your turn");
+      return false;
+    }
+
+    // Check locally first so obviously illegal drops snap back; the server
+    // still validates every move
+    const move = getHukumMoves(chess, playerMoves + 1, from)
+      .find(m => m.to === to && (!m.promotion || m.promotion === promotion));
+    if (!move) {
+      setStatus("Invalid move");
+      return false;
+    }
+
+    send({ type: "move", move: `${from}${to}${move.promotion ?? ''}` });
+    setSelectedSquare(null);
+    setLegalMoves([]);
+    return true;
+  }, [chess, isPlayerTurn, gameState, playerMoves, send]);
+
+  // Select a square on the board
+  const selectSquare = useCallback((square: Square, promotion?: PieceSymbol) => {
+    if (!isPlayerTurn) {
+      setStatus(gameState !== "in_progress" ? "Game not in progress" : "Not your turn");
+      return;
+    }
+
+    const piece = chess.get(square);
+    const playerColor = playerSide === "white" ? 'w' : 'b';
+
+    if (piece && piece.color === playerColor) {
+      const moves = getLegalMovesForSquare(chess, square, playerMoves + 1);
+      setSelectedSquare(square);
+      setLegalMoves(moves);
+      setStatus(`Selected ${piece.type.toUpperCase()} at ${square}. ${moves.length} possible moves.`);
+    } else if (selectedSquare && legalMoves.includes(square)) {
+      makeMove(selectedSquare, square, promotion);
+    } else {
+      setSelectedSquare(null);
+      setLegalMoves([]);
+      setStatus(`Select one of your ${playerSide} pieces to move.`);
+    }
+  }, [chess, isPlayerTurn, gameState, playerSide, playerMoves, selectedSquare, legalMoves, makeMove]);
+
+  const resignGame = useCallback(() => {
+    if (gameState !== "in_progress") return;
+    send({ type: "resign" });
+  }, [gameState, send]);
+
+  return {
+    room,
+    connected,
+    gameState,
+    playerSide,
+    opponentName,
+    playerScore,
+    opponentScore,
+    playerMoves,
+    opponentMoves,
+    remainingMoves,
+    freeHitTurn,
+    result,
+    currentTurn,
+    fen,
+    moveHistory: isOwner ? moveHistory : moveHistory.map(m => ({ ...m, isPlayer: !m.isPlayer })),
+    timeRemaining,
+    selectedSquare,
+    legalMoves,
+    status,
+    createRoom,
+    joinRoom,
+    makeMove,
+    selectSquare,
+    resignGame,
+    isTimerLow
+  };
+}
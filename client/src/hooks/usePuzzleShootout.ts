@@ -0,0 +1,249 @@
+import { useState, useEffect, useCallback } from "react";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Puzzle, PuzzleSetter } from "@shared/schema";
+import type { ShootoutStanding } from "@shared/shootout";
+
+// What the shootout is waiting on
+export type ShootoutPhase =
+  | "loading"
+  | "setting"      // the player is building a puzzle for the AI
+  | "ai_solving"   // the AI is on the player's puzzle
+  | "ai_setting"   // the AI is building a puzzle for the player
+  | "solving"      // the player is on the AI's puzzle
+  | "finished";
+
+// How the last settled puzzle went
+export interface ShootoutResult {
+  setter: PuzzleSetter;
+  scored: boolean;
+  message: string;
+}
+
+interface PuzzleAttemptResponse {
+  attempt:
+    | { status: "solved"; fen: string }
+    | { status: "continue"; fen: string; reply: string | null }
+    | { status: "failed"; fen: string; reason: string }
+    | { status: "unverified"; fen: string; reason: string };
+  puzzle: Puzzle;
+  standing: ShootoutStanding;
+}
+
+interface UsePuzzleShootoutReturn {
+  phase: ShootoutPhase;
+  standing: ShootoutStanding | null;
+  puzzles: Puzzle[];
+  activePuzzle: Puzzle | null;
+  solveFen: string | null;
+  lastReply: string | null;
+  lastResult: ShootoutResult | null;
+  error: string | null;
+  isSubmitting: boolean;
+  submitPuzzle: (fen: string, mateIn: number) => Promise<void>;
+  playSolveMove: (uci: string) => Promise<void>;
+  giveUp: () => Promise<void>;
+  retry: () => void;
+}
+
+export default function usePuzzleShootout(gameId: number | undefined, isOpen: boolean): UsePuzzleShootoutReturn {
+  const [standing, setStanding] = useState<ShootoutStanding | null>(null);
+  const [puzzles, setPuzzles] = useState<Puzzle[]>([]);
+  const [aiSolving, setAiSolving] = useState<boolean>(false);
+  const [aiSetting, setAiSetting] = useState<boolean>(false);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [activePuzzle, setActivePuzzle] = useState<Puzzle | null>(null);
+  const [solveMoves, setSolveMoves] = useState<string[]>([]);
+  const [solveFen, setSolveFen] = useState<string | null>(null);
+  const [lastReply, setLastReply] = useState<string | null>(null);
+  const [lastResult, setLastResult] = useState<ShootoutResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  // Keep a settled or new puzzle in the list
+  const storePuzzle = useCallback((puzzle: Puzzle) => {
+    setPuzzles(current => current.some(p => p.id === puzzle.id)
+      ? current.map(p => p.id === puzzle.id ? puzzle : p)
+      : [...current, puzzle]);
+  }, []);
+
+  const startSolving = useCallback((puzzle: Puzzle) => {
+    setActivePuzzle(puzzle);
+    setSolveFen(puzzle.fen);
+    setSolveMoves([]);
+    setLastReply(null);
+  }, []);
+
+  // The AI takes on the player's puzzle; the server holds it to the shootout clock
+  const solveWithAI = useCallback(async (puzzleId: number) => {
+    setAiSolving(true);
+    try {
+      const res = await apiRequest("POST", `/api/puzzles/${puzzleId}/solve`);
+      const { puzzle, solved, standing: nextStanding } = await res.json();
+      storePuzzle(puzzle);
+      setStanding(nextStanding);
+      setLastResult(solved
+        ? { setter: "player", scored: false, message: "The AI solved your puzzle" }
+        : { setter: "player", scored: true, message: "The AI couldn't solve your puzzle in time!" });
+    } catch (error) {
+      console.error("Error solving puzzle:", error);
+      setError(getErrorMessage(error, "The AI couldn't try your puzzle"));
+    } finally {
+      setAiSolving(false);
+    }
+  }, [storePuzzle]);
+
+  const fetchShootout = useCallback(async () => {
+    if (!gameId) return;
+
+    try {
+      const res = await apiRequest("GET", `/api/games/${gameId}/shootout`);
+      const data: { standing: ShootoutStanding; puzzles: Puzzle[] } = await res.json();
+      setStanding(data.standing);
+      setPuzzles(data.puzzles);
+      setError(null);
+
+      // Pick up a puzzle that was left unfinished
+      const pending = data.puzzles.find(puzzle => puzzle.id === data.standing.pending);
+      if (pending?.setter === "player") {
+        solveWithAI(pending.id);
+      } else if (pending) {
+        startSolving(pending);
+      }
+    } catch (error) {
+      console.error("Error fetching shootout:", error);
+      setError(getErrorMessage(error, "Failed to load the shootout"));
+    }
+  }, [gameId, solveWithAI, startSolving]);
+
+  useEffect(() => {
+    if (isOpen && gameId) {
+      fetchShootout();
+    }
+  }, [isOpen, gameId, fetchShootout]);
+
+  // The AI sets its puzzle as soon as it's its turn
+  const setAiPuzzle = useCallback(async () => {
+    if (!gameId) return;
+
+    setAiSetting(true);
+    try {
+      const res = await apiRequest("POST", `/api/games/${gameId}/puzzles/generate`, {});
+      const puzzle: Puzzle = await res.json();
+      storePuzzle(puzzle);
+      setStanding(current => current && { ...current, next: null, pending: puzzle.id });
+      startSolving(puzzle);
+    } catch (error) {
+      console.error("Error generating puzzle:", error);
+      setError(getErrorMessage(error, "The AI couldn't set a puzzle"));
+    } finally {
+      setAiSetting(false);
+    }
+  }, [gameId, storePuzzle, startSolving]);
+
+  useEffect(() => {
+    if (isOpen && standing?.next === "ai" && !aiSetting && !aiSolving && !error) {
+      setAiPuzzle();
+    }
+  }, [isOpen, standing, aiSetting, aiSolving, error, setAiPuzzle]);
+
+  // Send the player's puzzle; the server checks it has a forced mate first.
+  // Throws when the puzzle is rejected.
+  const submitPuzzle = useCallback(async (fen: string, mateIn: number) => {
+    if (!gameId) return;
+
+    setIsSubmitting(true);
+    try {
+      const res = await apiRequest("POST", `/api/games/${gameId}/puzzles`, { gameId, fen, solution: "", mateIn });
+      const puzzle: Puzzle = await res.json();
+      storePuzzle(puzzle);
+      setStanding(current => current && { ...current, next: null, pending: puzzle.id });
+      solveWithAI(puzzle.id);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [gameId, storePuzzle, solveWithAI]);
+
+  const settleAttempt = useCallback((data: PuzzleAttemptResponse) => {
+    storePuzzle(data.puzzle);
+    setStanding(data.standing);
+
+    const { attempt } = data;
+    if (attempt.status === "continue") {
+      setSolveFen(attempt.fen);
+      setLastReply(attempt.reply);
+      return;
+    }
+
+    setSolveFen(attempt.fen);
+    setActivePuzzle(null);
+    setLastResult(attempt.status === "solved"
+      ? { setter: "ai", scored: false, message: "You solved the AI's puzzle!" }
+      : { setter: "ai", scored: true, message: attempt.reason });
+  }, [storePuzzle]);
+
+  // Play one of the player's moves on the AI puzzle; the server answers for the defender
+  const playSolveMove = useCallback(async (uci: string) => {
+    if (!activePuzzle || isSubmitting) return;
+
+    const moves = [...solveMoves, uci];
+    setIsSubmitting(true);
+    try {
+      const res = await apiRequest("POST", `/api/puzzles/${activePuzzle.id}/attempt`, { moves });
+      const data: PuzzleAttemptResponse = await res.json();
+      // The server ran out of time checking the move; it isn't played
+      if (data.attempt.status === "unverified") {
+        toast({ title: "Move not checked", description: data.attempt.reason });
+        return;
+      }
+      setSolveMoves(moves);
+      settleAttempt(data);
+    } catch (error) {
+      console.error("Error checking move:", error);
+      setError(getErrorMessage(error, "Failed to check your move"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [activePuzzle, isSubmitting, solveMoves, settleAttempt, toast]);
+
+  // Out of time (or giving up) on the AI puzzle
+  const giveUp = useCallback(async () => {
+    if (!activePuzzle) return;
+
+    try {
+      const res = await apiRequest("POST", `/api/puzzles/${activePuzzle.id}/attempt`, { moves: solveMoves, gaveUp: true });
+      settleAttempt(await res.json());
+    } catch (error) {
+      console.error("Error ending attempt:", error);
+      setError(getErrorMessage(error, "Failed to end your attempt"));
+    }
+  }, [activePuzzle, solveMoves, settleAttempt]);
+
+  const retry = useCallback(() => {
+    setError(null);
+    fetchShootout();
+  }, [fetchShootout]);
+
+  let phase: ShootoutPhase = "loading";
+  if (standing?.winner) phase = "finished";
+  else if (aiSolving) phase = "ai_solving";
+  else if (aiSetting) phase = "ai_setting";
+  else if (activePuzzle) phase = "solving";
+  else if (standing?.next === "player") phase = "setting";
+
+  return {
+    phase,
+    standing,
+    puzzles,
+    activePuzzle,
+    solveFen,
+    lastReply,
+    lastResult,
+    error,
+    isSubmitting,
+    submitPuzzle,
+    playSolveMove,
+    giveUp,
+    retry
+  };
+}
@@ -0,0 +1,162 @@
+import { useState, useEffect, useCallback } from "react";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { PuzzleSetter } from "@shared/schema";
+
+// A puzzle from the bank; the server keeps the solution until it's played
+export interface BankPuzzle {
+  id: number;
+  fen: string;
+  mateIn: number;
+  rating: number;
+  ratingDeviation: number;
+  source: PuzzleSetter;
+}
+
+export interface TrainerFilters {
+  mateIn?: number;
+  source?: PuzzleSetter;
+}
+
+// How a finished puzzle went
+export interface TrainerResult {
+  solved: boolean;
+  reason: string | null;
+  solution: string[];
+  rated: boolean;
+  ratingChange: number;
+}
+
+interface TrainResponse {
+  attempt:
+    | { status: "solved"; fen: string }
+    | { status: "continue"; fen: string; reply: string | null }
+    | { status: "failed"; fen: string; reason: string }
+    | { status: "unverified"; fen: string; reason: string };
+  puzzle: BankPuzzle;
+  solution: string[] | null;
+  rated: boolean;
+  ratingChange: number;
+  rating: number;
+}
+
+interface UsePuzzleTrainerReturn {
+  puzzle: BankPuzzle | null;
+  fen: string | null;
+  lastReply: string | null;
+  result: TrainerResult | null;
+  rating: number | null;
+  filters: TrainerFilters;
+  isLoading: boolean;
+  isChecking: boolean;
+  error: string | null;
+  setFilters: (filters: TrainerFilters) => void;
+  loadNext: () => Promise<void>;
+  playMove: (uci: string) => Promise<void>;
+  giveUp: () => Promise<void>;
+}
+
+export default function usePuzzleTrainer(): UsePuzzleTrainerReturn {
+  const [puzzle, setPuzzle] = useState<BankPuzzle | null>(null);
+  const [fen, setFen] = useState<string | null>(null);
+  const [moves, setMoves] = useState<string[]>([]);
+  const [lastReply, setLastReply] = useState<string | null>(null);
+  const [result, setResult] = useState<TrainerResult | null>(null);
+  const [rating, setRating] = useState<number | null>(null);
+  const [filters, setFilters] = useState<TrainerFilters>({});
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isChecking, setIsChecking] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadNext = useCallback(async () => {
+    const params = new URLSearchParams();
+    if (filters.mateIn) params.set("mateIn", String(filters.mateIn));
+    if (filters.source) params.set("source", filters.source);
+
+    setIsLoading(true);
+    try {
+      const res = await apiRequest("GET", `/api/puzzles/next?${params}`);
+      const data: { puzzle: BankPuzzle | null; rating: number } = await res.json();
+      setPuzzle(data.puzzle);
+      setRating(data.rating);
+      setFen(data.puzzle?.fen ?? null);
+      setMoves([]);
+      setLastReply(null);
+      setResult(null);
+      setError(null);
+    } catch (error) {
+      console.error("Error loading puzzle:", error);
+      setError(getErrorMessage(error, "Failed to load a puzzle"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters]);
+
+  // A new puzzle whenever the filters change
+  useEffect(() => {
+    loadNext();
+  }, [loadNext]);
+
+  const send = useCallback(async (nextMoves: string[], gaveUp: boolean = false) => {
+    if (!puzzle) return;
+
+    setIsChecking(true);
+    try {
+      const res = await apiRequest("POST", `/api/puzzles/${puzzle.id}/train`, { moves: nextMoves, gaveUp });
+      const data: TrainResponse = await res.json();
+      // The server ran out of time checking the move; it isn't played
+      if (data.attempt.status === "unverified") {
+        toast({ title: "Move not checked", description: data.attempt.reason });
+        return;
+      }
+      setMoves(nextMoves);
+      setFen(data.attempt.fen);
+      setPuzzle(data.puzzle);
+      setRating(data.rating);
+
+      if (data.attempt.status === "continue") {
+        setLastReply(data.attempt.reply);
+      } else {
+        setResult({
+          solved: data.attempt.status === "solved",
+          reason: data.attempt.status === "failed" ? data.attempt.reason : null,
+          solution: data.solution ?? [],
+          rated: data.rated,
+          ratingChange: data.ratingChange
+        });
+      }
+    } catch (error) {
+      console.error("Error checking move:", error);
+      setError(getErrorMessage(error, "Failed to check your move"));
+    } finally {
+      setIsChecking(false);
+    }
+  }, [puzzle, toast]);
+
+  const playMove = useCallback(async (uci: string) => {
+    if (result || isChecking) return;
+    await send([...moves, uci]);
+  }, [result, isChecking, moves, send]);
+
+  const giveUp = useCallback(async () => {
+    if (result || isChecking) return;
+    await send(moves, true);
+  }, [result, isChecking, moves, send]);
+
+  return {
+    puzzle,
+    fen,
+    lastReply,
+    result,
+    rating,
+    filters,
+    isLoading,
+    isChecking,
+    error,
+    setFilters,
+    loadNext,
+    playMove,
+    giveUp
+  };
+}
@@ -1,4 +1,5 @@
 import { Chess, Square, PieceSymbol, Color } from "chess.js";
+import { getHukumMoves, calculateMoveScore } from "@shared/hukum";
 
 export interface Move {
   from: Square;
@@ -9,15 +10,18 @@ export interface Move {
   piece: PieceSymbol;
 }
 
-// Piece values for scoring
-export const PIECE_VALUES = {
-  p: 1, // pawn
-  n: 3, // knight
-  b: 3, // bishop
-  r: 5, // rook
-  q: 9, // queen
-  k: 0  // king has no capture value
-};
+// What a promotion choice would score and whether it gives check
+export interface PromotionPreview {
+  piece: PieceSymbol;
+  points: number;
+  check: boolean;
+  checkmate: boolean;
+}
+
+export const PROMOTION_PIECES: PieceSymbol[] = ['q', 'r', 'b', 'n'];
+
+// Scoring is shared with the server so both sides agree on points
+export { PIECE_VALUES, calculateMoveScore, canCastle, isEnPassantValid } from "@shared/hukum";
 
 // Create a new chess game with optional FEN
 export function createChessGame(fen?: string): Chess {
@@ -33,24 +37,6 @@ export function createChessGame(fen?: string): Chess {
   }
 }
 
-// Calculate score for a move
-export function calculateMoveScore(move: Move): number {
-  // Base score is 0
-  let score = 0;
-  
-  // Add points for captured pieces
-  if (move.captured) {
-    score += PIECE_VALUES[move.captured];
-  }
-  
-  // Add bonus for promotion (new piece value - pawn value)
-  if (move.promotion) {
-    score += PIECE_VALUES[move.promotion] - PIECE_VALUES.p;
-  }
-  
-  return score;
-}
-
 // Check if a move results in checkmate
 export function isCheckmate(chess: Chess): boolean {
   return chess.isCheckmate();
@@ -61,10 +47,10 @@ export function isDraw(chess: Chess): boolean {
   return chess.isDraw();
 }
 
-// Get all legal moves for a given square
-export function getLegalMovesForSquare(chess: Chess, square: Square): Square[] {
+// Get all legal moves for a given square (Hukum rules: no castling, en passant on moves 2-6)
+export function getLegalMovesForSquare(chess: Chess, square: Square, moveNumber: number): Square[] {
   try {
-    const moves = chess.moves({ square, verbose: true });
+    const moves = getHukumMoves(chess, moveNumber, square);
     return moves.map(move => move.to as Square);
   } catch (error) {
     console.error("Error getting legal moves:", error);
@@ -72,35 +58,82 @@ export function getLegalMovesForSquare(chess: Chess, square: Square): Square[] {
   }
 }
 
+// Check if moving from one square to another would promote a pawn
+export function isPromotionMove(fen: string, from: Square, to: Square): boolean {
+  const piece = createChessGame(fen).get(from);
+  return piece?.type === 'p' && (to[1] === '8' || to[1] === '1');
+}
+
+// Preview each promotion choice: an underpromotion can give check (or mate)
+// where a queen wouldn't. Empty when the promotion isn't legal.
+export function getPromotionPreviews(fen: string, from: Square, to: Square): PromotionPreview[] {
+  return PROMOTION_PIECES.flatMap(piece => {
+    const chess = createChessGame(fen);
+    try {
+      const move = chess.move({ from, to, promotion: piece });
+      return [{
+        piece,
+        points: calculateMoveScore(move),
+        check: chess.isCheck(),
+        checkmate: chess.isCheckmate()
+      }];
+    } catch {
+      return [];
+    }
+  });
+}
+
 // Convert move to algebraic notation (e.g., "e2e4")
 export function moveToAlgebraic(from: Square, to: Square, promotion?: PieceSymbol): string {
   return `${from}${to}${promotion || ''}`;
 }
 
-// Create a FEN position string from board position
-export function createFenFromPosition(position: Record<Square, string>): string {
+// Create a FEN position string from board position, e.g. { e1: "wK" }.
+// Castling and en passant are left out: Hukum has no castling and an edited
+// position has no last move.
+export function createFenFromPosition(position: Partial<Record<Square, string>>, turn: Color = 'w'): string {
   const chess = new Chess();
   chess.clear();
   
   Object.entries(position).forEach(([square, piece]) => {
+    if (!piece) return;
     chess.put({ type: piece.charAt(1).toLowerCase() as PieceSymbol, color: piece.charAt(0) === 'w' ? 'w' : 'b' }, square as Square);
   });
   
-  return chess.fen();
+  // chess.js can't set the side to move on a board without kings, so swap it in the FEN
+  const parts = chess.fen().split(' ');
+  parts[1] = turn;
+  return parts.join(' ');
+}
+
+// Board position from a FEN's piece placement, in the same form. Reads
+// positions chess.js won't load, such as one still missing a king while
+// it's being edited. Returns null when the placement is malformed.
+export function getPositionFromFen(fen: string): Partial<Record<Square, string>> | null {
+  const ranks = fen.trim().split(/\s+/)[0].split('/');
+  if (ranks.length !== 8) return null;
+  
+  const position: Partial<Record<Square, string>> = {};
+  for (let rank = 0; rank < 8; rank++) {
+    let file = 0;
+    for (const char of ranks[rank]) {
+      if (/[1-8]/.test(char)) {
+        file += Number(char);
+      } else if (/[pnbrqkPNBRQK]/.test(char) && file < 8) {
+        const square = `${String.fromCharCode(97 + file)}${8 - rank}` as Square;
+        position[square] = (char === char.toUpperCase() ? 'w' : 'b') + char.toUpperCase();
+        file++;
+      } else {
+        return null;
+      }
+    }
+    if (file !== 8) return null;
+  }
+  
+  return position;
 }
 
 // Get piece at a specific square
 export function getPieceAtSquare(chess: Chess, square: Square): { type: PieceSymbol; color: Color } | null {
   return chess.get(square);
 }
-
-// Check if a player can castle (not allowed in this variant)
-export function canCastle(chess: Chess, color: Color): boolean {
-  // Castling is not allowed in Hukum Chess
-  return false;
-}
-
-// Check if en passant is valid (only allowed from moves 2-6)
-export function isEnPassantValid(moveNumber: number): boolean {
-  return moveNumber >= 2 && moveNumber <= 6;
-}
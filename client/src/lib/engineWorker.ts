@@ -0,0 +1,18 @@
+// Web Worker running the built-in engine, so the browser can pick AI moves
+// without the server and without freezing the page
+import { getBuiltInMove } from "@shared/engine";
+import type { LocalEngineMessage, LocalEngineRequest } from "./localEngine";
+
+function reply(message: LocalEngineMessage) {
+  self.postMessage(message);
+}
+
+self.onmessage = (event: MessageEvent<LocalEngineRequest>) => {
+  const { fen, depth, timeLimit, options } = event.data;
+  try {
+    const move = getBuiltInMove(fen, depth, timeLimit, options, progress => reply({ type: "progress", progress }));
+    reply({ type: "done", move });
+  } catch (error) {
+    reply({ type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+};
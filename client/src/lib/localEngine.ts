@@ -0,0 +1,69 @@
+import type { EngineMoveOptions } from "@shared/engine";
+import type { SearchProgress } from "@shared/search";
+
+// Messages to and from the engine worker
+export interface LocalEngineRequest {
+  fen: string;
+  depth?: number;      // left to the difficulty profile when unset
+  timeLimit?: number;
+  options: EngineMoveOptions;
+}
+
+export type LocalEngineMessage =
+  | { type: "progress"; progress: SearchProgress }
+  | { type: "done"; move: string }
+  | { type: "error"; message: string };
+
+export interface LocalSearchOptions {
+  onProgress?: (progress: SearchProgress) => void;
+  signal?: AbortSignal;
+}
+
+// Pick a move with the built-in engine in a Web Worker. Each search gets its
+// own worker; cancelling through the signal terminates it, since a running
+// search can't be interrupted any other way.
+export function getLocalAIMove(
+  fen: string,
+  depth: number | undefined,
+  timeLimit: number | undefined,
+  options: EngineMoveOptions = {},
+  { onProgress, signal }: LocalSearchOptions = {}
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("The search was cancelled", "AbortError"));
+      return;
+    }
+
+    const worker = new Worker(new URL("./engineWorker.ts", import.meta.url), { type: "module" });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(new DOMException("The search was cancelled", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<LocalEngineMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.(message.progress);
+      } else if (message.type === "done") {
+        finish();
+        resolve(message.move);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || "The engine worker failed"));
+    };
+
+    const request: LocalEngineRequest = { fen, depth, timeLimit, options };
+    worker.postMessage(request);
+  });
+}
@@ -11,18 +11,33 @@ export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  signal?: AbortSignal,
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
     headers: data ? { "Content-Type": "application/json" } : {},
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
+    signal,
   });
 
   await throwIfResNotOk(res);
   return res;
 }
 
+// Pull the server's `message` out of an error thrown by apiRequest
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (!(error instanceof Error)) return fallback;
+
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    const parsed = JSON.parse(body);
+    return typeof parsed.message === "string" ? parsed.message : fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
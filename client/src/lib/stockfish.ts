@@ -1,86 +1,68 @@
-import { Chess, Move, Square, PieceSymbol, Color } from "chess.js";
+import { Chess, Square, Color } from "chess.js";
 import { apiRequest } from "./queryClient";
 import { PIECE_VALUES } from "./chess";
+import { getLocalAIMove } from "./localEngine";
+import type { MoveNumbers } from "@shared/hukum";
+import type { Difficulty } from "@shared/schema";
+import type { SearchProgress } from "@shared/search";
 
 /**
- * Simple implementation of AI for Hukum Chess
- * Uses a simpler approach to avoid complex Stockfish integration issues
+ * AI for Hukum Chess
+ * Moves come from the server's engine, or from the same engine running in a
+ * Web Worker when the server can't be reached
  */
 
+// server searches on the server, local in this browser
+export type AIEngine = "server" | "local";
+
+export interface AIMoveOptions {
+  moveNumbers?: MoveNumbers;
+  difficulty?: Difficulty;            // its engine profile sets the depth and time limit
+  depth?: number;                     // plies, only used without a difficulty
+  timeLimit?: number;                 // milliseconds, only used without a difficulty
+  scores?: Record<Color, number>;     // Hukum points so far
+  freeHits?: Record<Color, boolean>;  // Free Hits owed
+  engine?: AIEngine;                  // search only there; by default the server, falling back to the browser
+  onProgress?: (progress: SearchProgress) => void;  // depth reports from the browser engine
+  signal?: AbortSignal;               // cancels the search
+}
+
+// Search limits when no difficulty is given
+const DEFAULT_DEPTH = 10;
+const DEFAULT_TIME_LIMIT = 2000;
+
 // Get an AI move for the given position
-export async function getAIMove(fen: string, depth: number = 10, timeLimit: number = 2000): Promise<string> {
+export async function getAIMove(fen: string, options: AIMoveOptions = {}): Promise<string> {
+  const { engine, onProgress, signal, depth, timeLimit, ...engineOptions } = options;
+  const limits = engineOptions.difficulty ? {} : { depth: depth ?? DEFAULT_DEPTH, timeLimit: timeLimit ?? DEFAULT_TIME_LIMIT };
   try {
     // Try server-side AI first
-    try {
-      const response = await apiRequest("POST", "/api/ai/move", {
-        fen,
-        depth,
-        timeLimit
-      });
-      
-      const data = await response.json();
-      if (data && data.move) {
-        return data.move;
+    if (engine !== "local") {
+      try {
+        const response = await apiRequest("POST", "/api/ai/move", {
+          fen,
+          ...limits,
+          ...engineOptions
+        }, signal);
+        
+        const data = await response.json();
+        if (data && data.move) {
+          return data.move;
+        }
+      } catch (err) {
+        // Otherwise the in-browser engine below takes over
+        if (engine === "server" || signal?.aborted) throw err;
       }
-    } catch (err) {
-      console.log("Server-side AI not available, using fallback");
-    }
-    
-    // If server fails, use local fallback
-    const chess = new Chess(fen);
-    const moves = chess.moves({ verbose: true });
-    
-    if (moves.length === 0) {
-      throw new Error("No legal moves available");
-    }
-    
-    // For Hukum Chess: prioritize captures by value
-    const captureMoves = moves.filter(move => move.captured);
-    if (captureMoves.length > 0) {
-      // Sort by value of captured piece (highest first)
-      captureMoves.sort((a, b) => {
-        const aValue = a.captured ? PIECE_VALUES[a.captured] : 0;
-        const bValue = b.captured ? PIECE_VALUES[b.captured] : 0;
-        return bValue - aValue;
-      });
       
-      // Pick the highest value capture
-      const bestCapture = captureMoves[0];
-      return bestCapture.from + bestCapture.to + (bestCapture.promotion || '');
-    }
-    
-    // If no captures, make a tactical move (basic strategy)
-    // In a real implementation, we'd use minimax here, but for simplicity:
-    
-    // 1. Check for moves that put opponent in check
-    const checkMoves = moves.filter(move => {
-      const tempChess = new Chess(fen);
-      tempChess.move({ from: move.from as Square, to: move.to as Square, promotion: move.promotion });
-      return tempChess.isCheck();
-    });
-    
-    if (checkMoves.length > 0) {
-      const checkMove = checkMoves[Math.floor(Math.random() * checkMoves.length)];
-      return checkMove.from + checkMove.to + (checkMove.promotion || '');
-    }
-    
-    // 2. Default: make a random move, slightly favoring development
-    const centralMoves = moves.filter(move => {
-      const targetRank = parseInt(move.to.charAt(1));
-      const targetFile = move.to.charAt(0);
-      return (targetRank === 4 || targetRank === 5) && 
-             (targetFile === 'd' || targetFile === 'e');
-    });
-    
-    if (centralMoves.length > 0 && Math.random() > 0.3) { // 70% chance of central move
-      const centralMove = centralMoves[Math.floor(Math.random() * centralMoves.length)];
-      return centralMove.from + centralMove.to + (centralMove.promotion || '');
+      if (engine === "server") {
+        throw new Error("The server returned no move");
+      }
     }
     
-    // Random move as last resort
-    const randomMove = moves[Math.floor(Math.random() * moves.length)];
-    return randomMove.from + randomMove.to + (randomMove.promotion || '');
+    // The same engine the server runs, in a Web Worker
+    return await getLocalAIMove(fen, limits.depth, limits.timeLimit, engineOptions, { onProgress, signal });
   } catch (error) {
+    if (signal?.aborted) throw error;
     console.error("Error getting AI move:", error);
     throw new Error("Failed to get AI move");
   }
@@ -177,105 +159,23 @@ export function evaluatePosition(fen: string, depth: number = 10): number {
   }
 }
 
-// Check if a move is a "foul capture" (for Free Hit rule in Hukum Chess)
-export function isFoulCapture(chess: Chess, move: string): boolean {
-  try {
-    // Make a copy of the chess object to try the move
-    const chessCopy = new Chess(chess.fen());
-    
-    // Parse the move
-    const from = move.substring(0, 2) as Square;
-    const to = move.substring(2, 4) as Square;
-    const promotion = move.length > 4 ? move.substring(4, 5) as PieceSymbol : undefined;
-    
-    // Get the piece that would be moved
-    const piece = chessCopy.get(from);
-    if (!piece) return false;
-    
-    // Make the move
-    const moveObj = chessCopy.move({ from, to, promotion });
-    if (!moveObj) return false;
-    
-    // Check if it was a capture
-    if (!moveObj.captured) return false;
-    
-    // For Hukum Chess: A foul capture is defined as:
-    // 1. Capturing a higher value piece with a lower value piece (e.g., pawn takes queen)
-    // 2. Capturing a piece that leaves the capturer immediately capturable
-    // 3. Capturing a piece when the evaluation significantly worsens
-    
-    // Condition 1: Check piece value exchange
-    const movingPieceValue = PIECE_VALUES[piece.type];
-    const capturedPieceValue = PIECE_VALUES[moveObj.captured];
-    
-    if (movingPieceValue < capturedPieceValue) {
-      // Good capture (lower value piece takes higher value piece)
-      return false;
-    }
-    
-    // Condition 2: Check if the capturing piece is now in danger
-    const isCapturerInDanger = chessCopy.isAttacked(to, chessCopy.turn());
-    if (isCapturerInDanger && movingPieceValue >= capturedPieceValue) {
-      // Foul capture: captured equal/lower value and now in danger
-      return true;
-    }
-    
-    // Condition 3: Evaluate position change
-    const evaluationBefore = evaluatePosition(chess.fen());
-    const evaluationAfter = evaluatePosition(chessCopy.fen());
-    
-    // If the evaluation drastically worsens for the player who made the move,
-    // it's considered a foul capture
-    const evaluationDiff = piece.color === 'w' 
-      ? evaluationBefore - evaluationAfter
-      : evaluationAfter - evaluationBefore;
-    
-    // Consider it foul if evaluation diff is > 1.5 pawns
-    return evaluationDiff > 1.5;
-  } catch (error) {
-    console.error("Error checking for foul capture:", error);
-    return false;
-  }
-}
-
-// Solve a mate-in-X puzzle (simplified)
+// Solve a mate-in-X puzzle: the server searches for a forced mate
 export async function solvePuzzle(
   fen: string,
-  solution: string,
   mateIn: number,
   timeLimit: number = 15000
 ): Promise<boolean> {
   try {
-    // Try to use the server-side solver first
-    try {
-      const response = await apiRequest("POST", "/api/puzzles/solve", {
-        fen,
-        solution,
-        mateIn,
-        timeLimit
-      });
-      
-      const data = await response.json();
-      return data.solved;
-    } catch (err) {
-      console.log("Server-side puzzle solver not available, using fallback");
-    }
-    
-    // For this version, we'll do a simple solution check:
-    // - Just check if the AI finds the exact same move as the solution
-    // - In a real implementation, this would verify the entire mate sequence
-    
-    const chess = new Chess(fen);
-    const bestMove = await getAIMove(fen, 10 + mateIn, timeLimit);
-    
-    // Convert solution and bestMove to standard format if needed
-    const cleanSolution = solution.length <= 5 ? solution : solution.split(' ')[0];
-    const cleanBestMove = bestMove.length <= 5 ? bestMove : bestMove.split(' ')[0];
+    const response = await apiRequest("POST", "/api/puzzles/solve", {
+      fen,
+      mateIn,
+      timeLimit
+    });
     
-    // Basic solution check - the moves match
-    return cleanSolution === cleanBestMove;
+    const data = await response.json();
+    return data.solved;
   } catch (error) {
     console.error("Error solving puzzle:", error);
     return false;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { Redirect } from "wouter";
+import { Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import useAuth from "../hooks/useAuth";
+
+const AuthPage = () => {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const [activeTab, setActiveTab] = useState<string>("login");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  // Already logged in - straight to the game
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  const isLogin = activeTab === "login";
+  const mutation = isLogin ? loginMutation : registerMutation;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    mutation.mutate({ username, password });
+  };
+
+  const form = (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <Label htmlFor="username" className="block text-sm font-medium text-gray-600 mb-1">
+          Username
+        </Label>
+        <Input
+          id="username"
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+        />
+      </div>
+      <div>
+        <Label htmlFor="password" className="block text-sm font-medium text-gray-600 mb-1">
+          Password
+        </Label>
+        <Input
+          id="password"
+          type="password"
+          autoComplete={isLogin ? "current-password" : "new-password"}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+      </div>
+      <Button
+        type="submit"
+        className="w-full py-3 bg-primary text-white hover:bg-primary/90"
+        disabled={mutation.isPending || !username || !password}
+      >
+        {mutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        {isLogin ? "Log In" : "Create Account"}
+      </Button>
+    </form>
+  );
+
+  return (
+    <div className="flex flex-col h-screen">
+      <header className="bg-secondary text-white p-3 shadow-md">
+        <div className="container mx-auto">
+          <h1 className="text-2xl font-bold font-sans">Hukum Chess</h1>
+        </div>
+      </header>
+
+      <main className="flex-1 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md shadow-md">
+          <CardHeader>
+            <CardTitle className="text-xl">Welcome</CardTitle>
+            <CardDescription>
+              Log in to keep your games, or create an account to start playing.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Tabs value={activeTab} onValueChange={setActiveTab}>
+              <TabsList className="grid grid-cols-2 mb-4">
+                <TabsTrigger value="login">Log In</TabsTrigger>
+                <TabsTrigger value="register">Register</TabsTrigger>
+              </TabsList>
+              <TabsContent value="login">{form}</TabsContent>
+              <TabsContent value="register">{form}</TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default AuthPage;
@@ -1,26 +1,35 @@
 import { useState, useEffect } from "react";
+import { Link } from "wouter";
 import ChessBoard from "../components/ChessBoard";
 import GameInfoPanel from "../components/GameInfoPanel";
 import NewGameModal from "../components/modals/NewGameModal";
 import WinModal from "../components/modals/WinModal";
 import PuzzleShootoutModal from "../components/modals/PuzzleShootoutModal";
 import useChessGame from "../hooks/useChessGame";
+import useAuth from "../hooks/useAuth";
 import { Button } from "@/components/ui/button";
 
 const Home = () => {
   const [showNewGameModal, setShowNewGameModal] = useState(false);
   const [showWinModal, setShowWinModal] = useState(false);
   const [showPuzzleModal, setShowPuzzleModal] = useState(false);
+  const { user, logoutMutation } = useAuth();
   
   const { 
     game,
     gameState,
+    mode,
     playerSide,
     playerRole,
+    playerLabel,
+    opponentLabel,
+    boardOrientation,
     playerScore,
     aiScore,
     playerMoves,
     aiMoves,
+    remainingMoves,
+    freeHitTurn,
     currentTurn,
     fen,
     moveHistory,
@@ -33,17 +42,18 @@ const Home = () => {
     selectSquare,
     handleCapture,
     resignGame,
-    isTimerLow
+    isTimerLow,
+    offline
   } = useChessGame();
 
   // Open win modal when game is over
   useEffect(() => {
     if (gameState === "player_win" || gameState === "ai_win") {
       setShowWinModal(true);
-    } else if (gameState === "tie") {
+    } else if (gameState === "tie" && !offline) {
       setShowPuzzleModal(true);
     }
-  }, [gameState]);
+  }, [gameState, offline]);
 
   // Close modals when game starts
   useEffect(() => {
@@ -60,13 +70,57 @@ const Home = () => {
       <header className="bg-secondary text-white p-3 shadow-md">
         <div className="container mx-auto flex justify-between items-center">
           <h1 className="text-2xl font-bold font-sans">Hukum Chess</h1>
-          <Button 
-            onClick={() => setShowNewGameModal(true)}
-            variant="default" 
-            className="px-4 py-1 bg-primary rounded-md font-medium hover:bg-primary/90 transition"
-          >
-            Settings
-          </Button>
+          <div className="flex items-center gap-3">
+            {user ? <span className="text-sm">{user.username}</span> : <span className="text-sm">Offline</span>}
+            {game && gameState !== "in_progress" && (
+              <Link href={`/games/${game.id}/replay`}>
+                <Button
+                  variant="outline"
+                  className="px-4 py-1 text-secondary rounded-md font-medium"
+                >
+                  Replay
+                </Button>
+              </Link>
+            )}
+            {/* Without a server only local games can be played */}
+            {user && (
+              <>
+                <Link href="/puzzles">
+                  <Button
+                    variant="outline"
+                    className="px-4 py-1 text-secondary rounded-md font-medium"
+                  >
+                    Puzzles
+                  </Button>
+                </Link>
+                <Link href="/online">
+                  <Button
+                    variant="outline"
+                    className="px-4 py-1 text-secondary rounded-md font-medium"
+                  >
+                    Play Online
+                  </Button>
+                </Link>
+              </>
+            )}
+            <Button 
+              onClick={() => setShowNewGameModal(true)}
+              variant="default" 
+              className="px-4 py-1 bg-primary rounded-md font-medium hover:bg-primary/90 transition"
+            >
+              Settings
+            </Button>
+            {user && (
+              <Button
+                onClick={() => logoutMutation.mutate()}
+                variant="outline"
+                className="px-4 py-1 text-secondary rounded-md font-medium"
+                disabled={logoutMutation.isPending}
+              >
+                Log Out
+              </Button>
+            )}
+          </div>
         </div>
       </header>
 
@@ -83,6 +137,9 @@ const Home = () => {
           isTimerLow={isTimerLow}
           onNewGame={() => setShowNewGameModal(true)}
           onResign={resignGame}
+          playerLabel={playerLabel}
+          opponentLabel={opponentLabel}
+          gameId={game?.id}
         />
         
         {/* Chess Board */}
@@ -92,11 +149,15 @@ const Home = () => {
           currentTurn={currentTurn}
           selectedSquare={selectedSquare}
           legalMoves={legalMoves}
-          remainingMoves={playerSide === currentTurn ? 6 - playerMoves : 6 - aiMoves}
+          remainingMoves={remainingMoves}
+          freeHit={freeHitTurn}
           onSquareClick={selectSquare}
           onPieceDrop={makeMove}
           onCapture={handleCapture}
           status={status}
+          opponentLabel={opponentLabel}
+          hotseat={mode === "hotseat"}
+          orientation={boardOrientation}
         />
       </main>
 
@@ -116,12 +177,16 @@ const Home = () => {
         playerScore={playerScore}
         aiScore={aiScore}
         onNewGame={() => setShowNewGameModal(true)}
+        playerLabel={mode === "hotseat" ? playerLabel : undefined}
+        opponentLabel={mode === "hotseat" ? opponentLabel : undefined}
+        gameId={game?.id}
       />
       
       <PuzzleShootoutModal 
         isOpen={showPuzzleModal} 
         onClose={() => setShowPuzzleModal(false)}
         gameId={game?.id}
+        gameFen={fen}
       />
     </div>
   );
@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { Users, LogIn, Copy } from "lucide-react";
+import ChessBoard from "../components/ChessBoard";
+import GameInfoPanel from "../components/GameInfoPanel";
+import useOnlineGame from "../hooks/useOnlineGame";
+import useAuth from "../hooks/useAuth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+const OnlinePage = () => {
+  const { user } = useAuth();
+  const [playerSide, setPlayerSide] = useState<"white" | "black">("white");
+  const [playerRole, setPlayerRole] = useState<"player1" | "player2">("player1");
+  const [joinCode, setJoinCode] = useState("");
+
+  const {
+    room,
+    connected,
+    playerSide: side,
+    opponentName,
+    playerScore,
+    opponentScore,
+    playerMoves,
+    opponentMoves,
+    remainingMoves,
+    freeHitTurn,
+    currentTurn,
+    fen,
+    moveHistory,
+    timeRemaining,
+    selectedSquare,
+    legalMoves,
+    status,
+    createRoom,
+    joinRoom,
+    makeMove,
+    selectSquare,
+    resignGame,
+    isTimerLow
+  } = useOnlineGame();
+
+  const lobby = (
+    <main className="flex-1 container mx-auto p-4 flex flex-col md:flex-row gap-6 items-start justify-center">
+      {/* Create a room */}
+      <Card className="w-full max-w-md shadow-md">
+        <CardHeader>
+          <CardTitle className="text-xl flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Create a Room
+          </CardTitle>
+          <CardDescription>
+            Pick your side and role, then share the room code with your opponent.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <Label className="block text-sm font-medium text-gray-600 mb-2">Your Side</Label>
+            <div className="grid grid-cols-2 gap-3">
+              <Button
+                type="button"
+                variant={playerSide === "white" ? "default" : "outline"}
+                onClick={() => setPlayerSide("white")}
+              >
+                White
+              </Button>
+              <Button
+                type="button"
+                variant={playerSide === "black" ? "default" : "outline"}
+                onClick={() => setPlayerSide("black")}
+              >
+                Black
+              </Button>
+            </div>
+          </div>
+          <div>
+            <Label className="block text-sm font-medium text-gray-600 mb-2">Your Role</Label>
+            <div className="grid grid-cols-2 gap-3">
+              <Button
+                type="button"
+                variant={playerRole === "player1" ? "default" : "outline"}
+                onClick={() => setPlayerRole("player1")}
+              >
+                Player 1
+              </Button>
+              <Button
+                type="button"
+                variant={playerRole === "player2" ? "default" : "outline"}
+                onClick={() => setPlayerRole("player2")}
+              >
+                Player 2
+              </Button>
+            </div>
+          </div>
+          <Button
+            className="w-full py-3 bg-primary text-white hover:bg-primary/90"
+            disabled={!connected}
+            onClick={() => createRoom({ playerSide, playerRole })}
+          >
+            Create Room
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Join a room */}
+      <Card className="w-full max-w-md shadow-md">
+        <CardHeader>
+          <CardTitle className="text-xl flex items-center gap-2">
+            <LogIn className="h-5 w-5" />
+            Join a Room
+          </CardTitle>
+          <CardDescription>
+            Enter the code your opponent shared with you.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              joinRoom(joinCode);
+            }}
+          >
+            <Input
+              placeholder="Room code"
+              className="uppercase tracking-widest"
+              value={joinCode}
+              onChange={(e) => setJoinCode(e.target.value)}
+            />
+            <Button
+              type="submit"
+              className="w-full py-3 bg-primary text-white hover:bg-primary/90"
+              disabled={!connected || !joinCode.trim()}
+            >
+              Join Room
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </main>
+  );
+
+  return (
+    <div className="flex flex-col h-screen">
+      {/* Header */}
+      <header className="bg-secondary text-white p-3 shadow-md">
+        <div className="container mx-auto flex justify-between items-center">
+          <h1 className="text-2xl font-bold font-sans">Hukum Chess Online</h1>
+          <div className="flex items-center gap-3">
+            {room && (
+              <Badge
+                className="bg-primary/90 hover:bg-primary/80 text-white cursor-pointer flex items-center gap-1"
+                onClick={() => navigator.clipboard?.writeText(room.code)}
+              >
+                Room {room.code}
+                <Copy className="h-3 w-3" />
+              </Badge>
+            )}
+            {!connected && <Badge variant="destructive">Disconnected</Badge>}
+            {user && <span className="text-sm">{user.username}</span>}
+            <Link href="/">
+              <Button variant="outline" className="px-4 py-1 text-secondary rounded-md font-medium">
+                Play the AI
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      {room ? (
+        <main className="flex-1 container mx-auto p-4 flex flex-col md:flex-row gap-6 overflow-hidden">
+          <GameInfoPanel
+            playerScore={playerScore}
+            aiScore={opponentScore}
+            playerMoves={playerMoves}
+            aiMoves={opponentMoves}
+            moveHistory={moveHistory}
+            timeRemaining={timeRemaining}
+            isTimerLow={isTimerLow}
+            onNewGame={() => window.location.reload()}
+            onResign={resignGame}
+            opponentLabel={opponentName}
+            gameId={room.game.id}
+          />
+
+          <ChessBoard
+            fen={fen}
+            playerSide={side}
+            currentTurn={currentTurn}
+            selectedSquare={selectedSquare}
+            legalMoves={legalMoves}
+            remainingMoves={remainingMoves}
+            freeHit={freeHitTurn}
+            onSquareClick={selectSquare}
+            onPieceDrop={makeMove}
+            onCapture={(_piece, square) => selectedSquare && makeMove(selectedSquare, square)}
+            status={status}
+            opponentLabel={opponentName}
+          />
+        </main>
+      ) : lobby}
+    </div>
+  );
+};
+
+export default OnlinePage;
@@ -0,0 +1,244 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { Chessboard } from "react-chessboard";
+import { Chess } from "chess.js";
+import { CheckCircle, XCircle, Loader2, SkipForward, Flag } from "lucide-react";
+import usePuzzleTrainer from "../hooks/usePuzzleTrainer";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+// Write a UCI line out in SAN, numbered from the puzzle position
+function solutionText(fen: string, line: string[]): string {
+  const chess = new Chess(fen);
+  const parts: string[] = [];
+  for (const uci of line) {
+    const number = chess.moveNumber();
+    const white = chess.turn() === 'w';
+    try {
+      const move = chess.move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci.slice(4) || undefined });
+      parts.push(white ? `${number}. ${move.san}` : parts.length === 0 ? `${number}... ${move.san}` : move.san);
+    } catch (error) {
+      break;
+    }
+  }
+  return parts.join(" ");
+}
+
+const PuzzleTrainerPage = () => {
+  const {
+    puzzle,
+    fen,
+    lastReply,
+    result,
+    rating,
+    filters,
+    isLoading,
+    isChecking,
+    error,
+    setFilters,
+    loadNext,
+    playMove,
+    giveUp
+  } = usePuzzleTrainer();
+
+  const [boardWidth, setBoardWidth] = useState<number>(560);
+
+  // Resize board based on container size
+  useEffect(() => {
+    const handleResize = () => {
+      const container = document.getElementById('trainer-board-container');
+      if (container) {
+        setBoardWidth(Math.min(container.clientWidth, 560));
+      }
+    };
+
+    handleResize();
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, [isLoading]);
+
+  const side = puzzle?.fen.split(' ')[1] === 'b' ? "black" : "white";
+
+  // Check the move locally before asking the server
+  const tryMove = (uci: string): boolean => {
+    if (!fen || result || isChecking) return false;
+    try {
+      new Chess(fen).move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci.slice(4) || undefined });
+    } catch (error) {
+      return false;
+    }
+
+    playMove(uci);
+    return true;
+  };
+
+  return (
+    <div className="flex flex-col h-screen">
+      {/* Header */}
+      <header className="bg-secondary text-white p-3 shadow-md">
+        <div className="container mx-auto flex justify-between items-center">
+          <h1 className="text-2xl font-bold font-sans">Hukum Chess Puzzles</h1>
+          <Link href="/">
+            <Button variant="outline" className="px-4 py-1 text-secondary rounded-md font-medium">
+              Back to Play
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="flex-1 container mx-auto p-4 flex flex-col md:flex-row gap-6 overflow-hidden">
+        {/* Rating, filters and result */}
+        <div className="w-full md:w-1/4 order-2 md:order-1">
+          <Card className="shadow-md">
+            <CardHeader className="pb-2">
+              <div className="flex justify-between items-center">
+                <CardTitle className="text-lg font-semibold">Puzzle Trainer</CardTitle>
+                {rating !== null && <Badge className="bg-info/90 hover:bg-info/80 text-white">{rating}</Badge>}
+              </div>
+              <CardDescription>
+                Solve puzzles from Puzzle Shootouts. Your first try at each puzzle is rated.
+              </CardDescription>
+            </CardHeader>
+
+            <CardContent className="pb-3 space-y-4">
+              <div className="grid grid-cols-2 gap-2">
+                <Select
+                  value={filters.mateIn ? String(filters.mateIn) : "any"}
+                  onValueChange={(value) => setFilters({ ...filters, mateIn: value === "any" ? undefined : Number(value) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any mate</SelectItem>
+                    <SelectItem value="1">Mate in 1</SelectItem>
+                    <SelectItem value="2">Mate in 2</SelectItem>
+                    <SelectItem value="3">Mate in 3</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={filters.source ?? "any"}
+                  onValueChange={(value) => setFilters({ ...filters, source: value === "any" ? undefined : value as "player" | "ai" })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any setter</SelectItem>
+                    <SelectItem value="player">Members</SelectItem>
+                    <SelectItem value="ai">AI</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {puzzle && (
+                <div className="bg-gray-50 p-3 rounded-md">
+                  <div className="flex justify-between items-center">
+                    <span className="font-medium">
+                      {side === "white" ? "White" : "Black"} to mate in {puzzle.mateIn}
+                    </span>
+                    <span className="text-sm text-gray-500">Rated {puzzle.rating}</span>
+                  </div>
+                  <p className="text-sm text-gray-500 mt-1">
+                    Set by {puzzle.source === "ai" ? "the AI" : "a member"}
+                  </p>
+                </div>
+              )}
+
+              {result && puzzle && (
+                <div className={`p-3 rounded-md ${result.solved ? "bg-success/10" : "bg-danger/10"}`}>
+                  <div className="flex items-center gap-2 font-medium">
+                    {result.solved ? (
+                      <CheckCircle className="h-5 w-5 text-success" />
+                    ) : (
+                      <XCircle className="h-5 w-5 text-danger" />
+                    )}
+                    {result.solved ? "Solved!" : result.reason}
+                  </div>
+                  <p className="text-sm mt-1">
+                    {result.rated
+                      ? `Rating ${result.ratingChange >= 0 ? "+" : ""}${result.ratingChange}`
+                      : "Not rated"}
+                  </p>
+                  {result.solution.length > 0 && (
+                    <p className="text-sm text-gray-600 mt-1">
+                      Solution: {solutionText(puzzle.fen, result.solution)}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  className="flex-1 flex items-center gap-1"
+                  onClick={giveUp}
+                  disabled={!puzzle || !!result || isChecking}
+                >
+                  <Flag className="h-4 w-4" />
+                  Give up
+                </Button>
+                <Button
+                  className="flex-1 flex items-center gap-1 bg-primary text-white hover:bg-primary/90"
+                  onClick={loadNext}
+                  disabled={isLoading || isChecking}
+                >
+                  <SkipForward className="h-4 w-4" />
+                  {result ? "Next puzzle" : "Skip"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Board */}
+        <div className="w-full md:w-3/4 order-1 md:order-2 flex flex-col items-center">
+          {isLoading ? (
+            <div className="flex-1 flex items-center justify-center">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : error || !puzzle || !fen ? (
+            <div className="flex-1 flex items-center justify-center text-gray-500">
+              {error ?? "No puzzles match these filters yet. Play a Puzzle Shootout to add some!"}
+            </div>
+          ) : (
+            <>
+              <div id="trainer-board-container" className="w-full max-w-xl">
+                <Chessboard
+                  id="puzzle-trainer"
+                  position={fen}
+                  boardWidth={boardWidth}
+                  boardOrientation={side}
+                  arePiecesDraggable={!result && !isChecking}
+                  isDraggablePiece={({ piece }) => piece[0] === side[0]}
+                  onPieceDrop={(source, target) => tryMove(source + target)}
+                  onPromotionPieceSelect={(piece, source, target) =>
+                    !!piece && !!source && !!target && tryMove(source + target + piece[1].toLowerCase())
+                  }
+                  customSquareStyles={lastReply ? {
+                    [lastReply.slice(0, 2)]: { backgroundColor: 'rgba(249, 115, 22, 0.4)' },
+                    [lastReply.slice(2, 4)]: { backgroundColor: 'rgba(249, 115, 22, 0.6)' }
+                  } : {}}
+                />
+              </div>
+
+              <p className="mt-3 text-sm text-gray-500">
+                {isChecking
+                  ? "Checking your move..."
+                  : result
+                    ? "Puzzle over. On to the next one!"
+                    : lastReply
+                      ? "The defender replied; your move."
+                      : "Find the forced mate. The defender always puts up the best resistance."}
+              </p>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default PuzzleTrainerPage;
@@ -0,0 +1,296 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useParams } from "wouter";
+import { Chessboard } from "react-chessboard";
+import { ChevronsLeft, ChevronLeft, ChevronRight, ChevronsRight, Play, Pause, Loader2 } from "lucide-react";
+import useGameReplay, { REPLAY_SPEEDS } from "../hooks/useGameReplay";
+import useAnalysis, { type AnalysisTarget } from "../hooks/useAnalysis";
+import EvaluationBar from "@/components/EvaluationBar";
+import { formatScore, lineToSan } from "@shared/analysis";
+import { freeHitsByColor, scoresByColor, sideColor, MISSED_MOVE } from "@shared/hukum";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const ReplayPage = () => {
+  const params = useParams<{ id: string }>();
+  const gameId = parseInt(params.id);
+  const {
+    game,
+    plies,
+    ply,
+    current,
+    isLoading,
+    error,
+    playing,
+    speed,
+    goTo,
+    first,
+    prev,
+    next,
+    last,
+    togglePlay,
+    setSpeed
+  } = useGameReplay(gameId);
+
+  const [boardWidth, setBoardWidth] = useState<number>(560);
+  const activeMoveRef = useRef<HTMLButtonElement>(null);
+
+  // Resize board based on container size
+  useEffect(() => {
+    const handleResize = () => {
+      const container = document.getElementById('replay-board-container');
+      if (container) {
+        setBoardWidth(Math.min(container.clientWidth, 560));
+      }
+    };
+
+    handleResize();
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, [isLoading]);
+
+  // Keep the current move in view while stepping through
+  useEffect(() => {
+    activeMoveRef.current?.scrollIntoView({ block: "nearest" });
+  }, [ply]);
+
+  const playerSide = (game?.playerSide ?? "white") as "white" | "black";
+  const opponentSide = playerSide === "white" ? "black" : "white";
+  const sideName = (side: "white" | "black") => side === "white" ? "White" : "Black";
+
+  // Only games against the AI have a "you"; otherwise name the colours
+  const playerLabel = game?.mode === "ai" ? "You" : sideName(playerSide);
+  const opponentLabel = game?.mode === "ai" ? "AI" : sideName(opponentSide);
+
+  const resultLabel = !game || game.status === "in_progress" ? null
+    : game.status === "tie" ? "Tie"
+    : game.mode === "ai" ? (game.status === "player_win" ? "You won" : "You lost")
+    : `${game.status === "player_win" ? playerLabel : opponentLabel} won`;
+
+  // Analyse the position on show, but not while the replay is playing
+  const playerColor = game ? sideColor(game, true) : "w";
+  const aiColor = game ? sideColor(game, false) : "b";
+  const analysisTarget: AnalysisTarget | null = game && current && !playing ? {
+    fen: current.fen,
+    moves: { [playerColor]: current.playerMoves, [aiColor]: current.aiMoves } as AnalysisTarget["moves"],
+    scores: scoresByColor({ playerSide: game.playerSide, ...current }),
+    freeHits: freeHitsByColor({ playerSide: game.playerSide, ...current })
+  } : null;
+  const analysis = useAnalysis(analysisTarget);
+  const topScore = analysis.update?.lines[0]?.score ?? null;
+  const hukumForecast = analysis.update?.hukum;
+
+  // Highlight the move that led to the current position
+  const lastMove = current?.move && current.move.move !== MISSED_MOVE ? current.move.move : null;
+  const squareStyles: Record<string, React.CSSProperties> = lastMove ? {
+    [lastMove.slice(0, 2)]: { backgroundColor: 'rgba(249, 115, 22, 0.4)' },
+    [lastMove.slice(2, 4)]: { backgroundColor: 'rgba(249, 115, 22, 0.6)' }
+  } : {};
+
+  let content;
+  if (isLoading) {
+    content = (
+      <div className="flex-1 flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  } else if (error || !current) {
+    content = (
+      <div className="flex-1 flex items-center justify-center text-gray-500">
+        {error ?? "Nothing to replay"}
+      </div>
+    );
+  } else {
+    content = (
+      <main className="flex-1 container mx-auto p-4 flex flex-col md:flex-row gap-6 overflow-hidden">
+        {/* Scores and moves */}
+        <div className="w-full md:w-1/4 order-2 md:order-1">
+          <Card className="shadow-md">
+            <CardHeader className="pb-2">
+              <div className="flex justify-between items-center">
+                <CardTitle className="text-lg font-semibold">Game #{gameId}</CardTitle>
+                {resultLabel && <Badge className="bg-info/90 hover:bg-info/80 text-white">{resultLabel}</Badge>}
+              </div>
+              <CardDescription>
+                Position {ply} of {plies.length - 1}
+              </CardDescription>
+            </CardHeader>
+
+            <CardContent className="pb-3">
+              {/* Running totals at this ply */}
+              <div className="bg-gray-50 p-3 rounded-md mb-4">
+                <div className="flex justify-between items-center mb-2">
+                  <span className="font-medium">{playerLabel}</span>
+                  <span className="text-sm text-gray-500">{current.playerMoves} moves</span>
+                  <span className="font-sans font-bold text-xl">{current.playerScore}</span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="font-medium">{opponentLabel}</span>
+                  <span className="text-sm text-gray-500">{current.aiMoves} moves</span>
+                  <span className="font-sans font-bold text-xl">{current.aiScore}</span>
+                </div>
+              </div>
+
+              <h3 className="font-medium text-gray-600 mb-1">Moves</h3>
+              <div className="max-h-80 overflow-y-auto bg-gray-50 p-2 rounded text-sm">
+                <button
+                  ref={ply === 0 ? activeMoveRef : undefined}
+                  className={`w-full text-left px-2 py-1 rounded ${ply === 0 ? "bg-primary/20" : "hover:bg-gray-100"}`}
+                  onClick={() => goTo(0)}
+                >
+                  Start
+                </button>
+                {plies.slice(1).map((entry, index) => {
+                  const move = entry.move!;
+                  const entryPly = index + 1;
+                  return (
+                    <button
+                      key={move.id}
+                      ref={ply === entryPly ? activeMoveRef : undefined}
+                      className={`w-full flex justify-between items-center px-2 py-1 rounded ${
+                        ply === entryPly ? "bg-primary/20" : "hover:bg-gray-100"
+                      }`}
+                      onClick={() => goTo(entryPly)}
+                    >
+                      <span className="flex items-center gap-2">
+                        <span className="text-gray-400 w-5 text-right">{entryPly}.</span>
+                        <span className="font-medium">{move.isPlayer ? playerLabel : opponentLabel}</span>
+                        {move.move === MISSED_MOVE ? (
+                          <span className="italic text-gray-500">missed move</span>
+                        ) : (
+                          <span>{entry.san}</span>
+                        )}
+                        {move.freeHit && (
+                          <Badge variant="outline" className="border-amber-500 text-amber-600">Free Hit</Badge>
+                        )}
+                      </span>
+                      <span className="text-gray-500">{entry.playerScore} - {entry.aiScore}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Engine lines and the Hukum forecast for this position */}
+          <Card className="shadow-md mt-4">
+            <CardHeader className="pb-2">
+              <div className="flex justify-between items-center">
+                <CardTitle className="text-lg font-semibold">Analysis</CardTitle>
+                {analysis.analysing && <Loader2 className="h-4 w-4 animate-spin text-primary" />}
+              </div>
+              {analysis.update && (
+                <CardDescription>
+                  Depth {analysis.update.depth} · {Math.round(analysis.update.nps / 1000)}k nodes/s
+                  {analysis.update.engine === "uci" ? " · external engine" : ""}
+                </CardDescription>
+              )}
+            </CardHeader>
+
+            <CardContent className="pb-3 text-sm">
+              {analysis.error && <p className="text-danger mb-2">{analysis.error}</p>}
+              {hukumForecast && (
+                <div className="bg-gray-50 p-3 rounded-md mb-3">
+                  <div className="flex justify-between items-center">
+                    <span className="font-medium">Hukum forecast</span>
+                    <span className="font-sans font-bold">
+                      {hukumForecast.scores[playerColor]} - {hukumForecast.scores[aiColor]}
+                    </span>
+                  </div>
+                  <p className="text-gray-500 truncate">
+                    {lineToSan(current.fen, hukumForecast.pv).join(" ") || "No moves left"}
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    {hukumForecast.checkmate ? "Ends in checkmate" : hukumForecast.toEnd ? "To the end of the game" : `Depth ${hukumForecast.depth}`}
+                  </p>
+                </div>
+              )}
+              {analysis.update?.lines.map((line, index) => (
+                <div key={index} className="flex gap-2 py-1 border-b last:border-b-0">
+                  <span className="font-mono font-semibold w-14 shrink-0">{formatScore(line.score)}</span>
+                  <span className="text-gray-600 truncate">{lineToSan(current.fen, line.pv).join(" ")}</span>
+                </div>
+              ))}
+              {!analysis.update && !analysis.error && (
+                <p className="text-gray-500">{playing ? "Pause to analyse" : "Analysing..."}</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Board and controls */}
+        <div className="w-full md:w-3/4 order-1 md:order-2 flex flex-col items-center">
+          <div className="w-full max-w-xl flex gap-2">
+            <EvaluationBar score={topScore} orientation={playerSide} height={boardWidth} />
+            <div id="replay-board-container" className="flex-1">
+              <Chessboard
+                id="hukum-replay"
+                position={current.fen}
+                boardWidth={boardWidth}
+                boardOrientation={playerSide}
+                arePiecesDraggable={false}
+                customSquareStyles={squareStyles}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2 mt-4">
+            <Button variant="outline" size="icon" onClick={first} disabled={ply === 0} title="First (Home)">
+              <ChevronsLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={prev} disabled={ply === 0} title="Previous (←)">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button className="bg-primary text-white hover:bg-primary/90" size="icon" onClick={togglePlay} title="Play/Pause (Space)">
+              {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+            </Button>
+            <Button variant="outline" size="icon" onClick={next} disabled={ply === plies.length - 1} title="Next (→)">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={last} disabled={ply === plies.length - 1} title="Last (End)">
+              <ChevronsRight className="h-4 w-4" />
+            </Button>
+
+            <Select value={String(speed)} onValueChange={(value) => setSpeed(Number(value))}>
+              <SelectTrigger className="w-28 ml-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REPLAY_SPEEDS.map(ms => (
+                  <SelectItem key={ms} value={String(ms)}>
+                    {ms / 1000}s / move
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <p className="mt-3 text-sm text-gray-500">
+            Use the arrow keys to step through the game, Home/End to jump and Space to play.
+          </p>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-screen">
+      {/* Header */}
+      <header className="bg-secondary text-white p-3 shadow-md">
+        <div className="container mx-auto flex justify-between items-center">
+          <h1 className="text-2xl font-bold font-sans">Hukum Chess Replay</h1>
+          <Link href="/">
+            <Button variant="outline" className="px-4 py-1 text-secondary rounded-md font-medium">
+              Back to Play
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      {content}
+    </div>
+  );
+};
+
+export default ReplayPage;
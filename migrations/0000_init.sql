@@ -0,0 +1,39 @@
+CREATE TABLE "games" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"player_side" text NOT NULL,
+	"player_role" text NOT NULL,
+	"player_score" integer DEFAULT 0,
+	"ai_score" integer DEFAULT 0,
+	"player_moves" integer DEFAULT 0,
+	"ai_moves" integer DEFAULT 0,
+	"fen" text NOT NULL,
+	"status" text NOT NULL,
+	"difficulty" text DEFAULT 'grandmaster' NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "move_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"game_id" integer NOT NULL,
+	"move" text NOT NULL,
+	"is_player" boolean NOT NULL,
+	"captured_piece" text,
+	"points" integer DEFAULT 0,
+	"move_number" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "puzzles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"game_id" integer NOT NULL,
+	"fen" text NOT NULL,
+	"solution" text NOT NULL,
+	"mate_in" integer NOT NULL,
+	"ai_solved" boolean
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
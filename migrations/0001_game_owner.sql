@@ -0,0 +1,2 @@
+-- Games from before accounts keep a NULL owner: they stay, but no one can open them
+ALTER TABLE "games" ADD COLUMN "owner_id" integer;
\ No newline at end of file
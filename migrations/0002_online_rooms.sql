@@ -0,0 +1,4 @@
+ALTER TABLE "games" ADD COLUMN "mode" text DEFAULT 'ai' NOT NULL;--> statement-breakpoint
+ALTER TABLE "games" ADD COLUMN "opponent_id" integer;--> statement-breakpoint
+ALTER TABLE "games" ADD COLUMN "room_code" text;--> statement-breakpoint
+ALTER TABLE "games" ADD CONSTRAINT "games_room_code_unique" UNIQUE("room_code");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "games" ADD COLUMN "turn_started_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "games" ADD COLUMN "player_free_hit" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "games" ADD COLUMN "ai_free_hit" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "move_history" ADD COLUMN "free_hit" boolean DEFAULT false NOT NULL;
\ No newline at end of file
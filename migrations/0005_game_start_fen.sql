@@ -0,0 +1 @@
+ALTER TABLE "games" ADD COLUMN "start_fen" text;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "puzzles" ADD COLUMN "setter" text DEFAULT 'player' NOT NULL;--> statement-breakpoint
+ALTER TABLE "puzzles" ADD COLUMN "player_solved" boolean;--> statement-breakpoint
+ALTER TABLE "puzzles" ADD COLUMN "presented_at" timestamp;
\ No newline at end of file
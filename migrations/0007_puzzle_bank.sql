@@ -0,0 +1,14 @@
+CREATE TABLE "puzzle_plays" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"puzzle_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"solved" boolean NOT NULL,
+	"rated" boolean NOT NULL,
+	"rating_change" real DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "puzzles" ADD COLUMN "rating" real DEFAULT 1500 NOT NULL;--> statement-breakpoint
+ALTER TABLE "puzzles" ADD COLUMN "rating_deviation" real DEFAULT 350 NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "puzzle_rating" real DEFAULT 1500 NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "puzzle_rating_deviation" real DEFAULT 350 NOT NULL;
\ No newline at end of file
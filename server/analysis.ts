@@ -0,0 +1,141 @@
+// Live analysis for the evaluation bar and post-game review, run in an
+// engine pool worker. The Hukum search gets the first part of the time,
+// then the configured UCI engine, or the built-in classic search when there
+// is none or it fails, follows the best few lines for the rest.
+
+import { Chess, type Color } from 'chess.js';
+import {
+  analysisContext,
+  fromWhite,
+  pawnsToScore,
+  scoreHukumLine,
+  type AnalysisLine,
+  type AnalysisUpdate,
+  type HukumAnalysis
+} from '@shared/analysis';
+import { analyseClassic } from '@shared/engine';
+import { getHukumMoves, HUKUM_MOVE_LIMIT } from '@shared/hukum';
+import { findBestHukumMove } from '@shared/hukumSearch';
+import { toUci } from '@shared/search';
+import type { AnalysisRequest } from '@shared/schema';
+import { getUciEngine, type UciInfo } from './uci';
+
+// Share of the time limit given to the Hukum search. It usually reaches the
+// end of the game well before then, leaving the rest to the lines.
+const HUKUM_TIME_SHARE = 0.3;
+
+// Every Hukum move left on both sides, Free Hits included
+const HUKUM_ANALYSIS_DEPTH = (HUKUM_MOVE_LIMIT + 1) * 2;
+
+interface AnalysisState {
+  engine: AnalysisUpdate['engine'];
+  depth: number;
+  lines: AnalysisLine[];
+  hukum: HukumAnalysis | null;
+  hukumNodes: number;
+  lineNodes: number;
+}
+
+// Analyse a position, passing every update to onUpdate as the searches
+// deepen. Resolves to the last update, or null when there is nothing to
+// analyse.
+export async function analysePosition(
+  request: AnalysisRequest,
+  onUpdate: (update: AnalysisUpdate) => void
+): Promise<AnalysisUpdate | null> {
+  const chess = new Chess(request.fen);
+  const turn = chess.turn();
+  const context = analysisContext(request, chess);
+  const started = Date.now();
+  const state: AnalysisState = { engine: 'built-in', depth: 0, lines: [], hukum: null, hukumNodes: 0, lineNodes: 0 };
+
+  let last: AnalysisUpdate | null = null;
+  const publish = () => {
+    const elapsed = Date.now() - started;
+    const nodes = state.hukumNodes + state.lineNodes;
+    last = {
+      engine: state.engine,
+      depth: state.depth,
+      lines: state.lines,
+      hukum: state.hukum,
+      nodes,
+      nps: elapsed > 0 ? Math.round(nodes / elapsed * 1000) : 0,
+      elapsed
+    };
+    onUpdate(last);
+  };
+
+  const hukumTime = Math.round(request.timeLimit * HUKUM_TIME_SHARE);
+  const hukum = findBestHukumMove(request.fen, context, { depth: HUKUM_ANALYSIS_DEPTH, timeLimit: hukumTime, noise: 0 }, progress => {
+    state.hukum = { ...scoreHukumLine(request.fen, context.scores, progress.pv ?? []), pv: progress.pv ?? [], depth: progress.depth, toEnd: false };
+    state.hukumNodes = progress.nodes;
+    publish();
+  });
+  if (hukum && state.hukum) {
+    state.hukum.toEnd = hukum.toEnd;
+    state.hukumNodes = hukum.nodes;
+  }
+
+  const legalMoves = getHukumMoves(chess, context.moveNumbers[turn]).map(toUci);
+  if (legalMoves.length === 0) {
+    return last;
+  }
+
+  const remaining = () => Math.max(0, request.timeLimit - (Date.now() - started));
+  const external = await analyseExternal(request.fen, turn, legalMoves, request.lines, remaining(), (lines, info) => {
+    state.engine = 'uci';
+    state.depth = info.depth ?? state.depth;
+    state.lines = lines;
+    state.lineNodes = info.nodes ?? state.lineNodes;
+    publish();
+  });
+
+  if (!external) {
+    state.engine = 'built-in';
+    analyseClassic(request.fen, request.lines, remaining(), context.moveNumbers, analysis => {
+      state.depth = analysis.depth;
+      state.lines = analysis.lines.map(({ pv, score }) => ({ pv, score: fromWhite(pawnsToScore(score), turn) }));
+      state.lineNodes = analysis.nodes;
+      publish();
+    });
+  }
+
+  return last;
+}
+
+// Follow the best lines with the UCI engine, limited to the Hukum-legal
+// moves. onLines hears about every full set of lines the engine reports.
+// false when no engine is configured or it fails.
+async function analyseExternal(
+  fen: string,
+  turn: Color,
+  legalMoves: string[],
+  lineCount: number,
+  timeLimit: number,
+  onLines: (lines: AnalysisLine[], info: UciInfo) => void
+): Promise<boolean> {
+  const engine = getUciEngine();
+  if (!engine) {
+    return false;
+  }
+
+  // Engines report lines one at a time, best first, for each depth
+  const expected = Math.min(lineCount, legalMoves.length);
+  const lines: AnalysisLine[] = [];
+  try {
+    await engine.search(fen, {
+      movetime: timeLimit,
+      searchMoves: legalMoves,
+      multiPv: lineCount,
+      onInfo: info => {
+        const index = (info.multipv ?? 1) - 1;
+        if (!info.score || !info.pv || index >= expected) return;
+        lines[index] = { pv: info.pv, score: fromWhite(info.score, turn) };
+        if (index === expected - 1) onLines([...lines], info);
+      }
+    });
+    return lines.length > 0;
+  } catch (error) {
+    return false;
+  }
+}
@@ -0,0 +1,35 @@
+import { Pool as NeonPool, neonConfig } from "@neondatabase/serverless";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import { drizzle as drizzlePg } from "drizzle-orm/node-postgres";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import pg from "pg";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Any drizzle Postgres database built over our schema. DatabaseStorage only
+// depends on this, so tests can hand it a local Postgres or an in-process stand-in.
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export type Pool = NeonPool | pg.Pool;
+
+// Neon's serverless driver connects over a WebSocket that only Neon's own
+// proxy serves, so every other Postgres is reached with node-postgres
+export function isNeonUrl(connectionString: string): boolean {
+  return new URL(connectionString).hostname.endsWith(".neon.tech");
+}
+
+// Open a connection pool to the database at the given URL
+export function createPool(connectionString: string): Pool {
+  return isNeonUrl(connectionString)
+    ? new NeonPool({ connectionString })
+    : new pg.Pool({ connectionString });
+}
+
+// Wrap a connection pool with the drizzle driver that matches it
+export function createDatabase(pool: Pool): Database {
+  return pool instanceof NeonPool
+    ? drizzleNeon({ client: pool, schema })
+    : drizzlePg({ client: pool, schema });
+}
@@ -0,0 +1,245 @@
+// Engine work runs in a pool of worker threads so a long search never
+// blocks the event loop. Tasks queue up while every worker is busy; past the
+// queue limit they are turned away with EngineBusyError. A task can be
+// cancelled through an AbortSignal: a queued task is dropped, and a worker in
+// the middle of a search is replaced, since a synchronous search can't be
+// interrupted any other way. Long tasks such as an analysis can report
+// progress on the way.
+
+import { Worker } from "worker_threads";
+import { availableParallelism } from "os";
+import { extname } from "path";
+import { fileURLToPath } from "url";
+import type { AnalysisUpdate } from "@shared/analysis";
+import type { AnalysisRequest } from "@shared/schema";
+import type { GeneratedPuzzle, MateSearchResult, PuzzleAttempt, PuzzleValidation } from "./puzzles";
+import type { EngineMoveOptions } from "./stockfish";
+
+export type EngineTask =
+  | { kind: "move"; fen: string; depth: number; timeLimit: number; options: EngineMoveOptions }
+  | { kind: "evaluate"; fen: string; depth: number }
+  | { kind: "solve"; fen: string; mateIn: number; timeLimit: number }
+  | { kind: "generatePuzzle"; mateIn: number; positions: string[]; timeLimit: number }
+  | { kind: "validatePuzzle"; fen: string; mateIn: number }
+  | { kind: "checkAttempt"; fen: string; mateIn: number; moves: string[] }
+  | { kind: "analyse"; request: AnalysisRequest };
+
+// What each kind of task resolves to
+export interface EngineResults {
+  move: string;
+  evaluate: number;
+  solve: MateSearchResult;
+  generatePuzzle: GeneratedPuzzle | null;
+  validatePuzzle: PuzzleValidation;
+  checkAttempt: PuzzleAttempt;
+  analyse: AnalysisUpdate | null;
+}
+
+// What the kinds of task that report progress report
+export interface EngineProgress {
+  analyse: AnalysisUpdate;
+}
+
+export type ProgressHandler<K extends EngineTask["kind"]> =
+  (progress: K extends keyof EngineProgress ? EngineProgress[K] : never) => void;
+
+// Messages between the pool and its workers
+export interface EngineRequest {
+  id: number;
+  task: EngineTask;
+}
+
+export type EngineResponse =
+  | { id: number; result: EngineResults[EngineTask["kind"]] }
+  | { id: number; error: string }
+  | { id: number; progress: EngineProgress[keyof EngineProgress] };
+
+// The queue is full; retryAfter is a suggested wait in seconds
+export class EngineBusyError extends Error {
+  constructor(public retryAfter: number) {
+    super("The engine is busy, please try again shortly");
+    this.name = "EngineBusyError";
+  }
+}
+
+export class EngineCancelledError extends Error {
+  constructor() {
+    super("Engine task was cancelled");
+    this.name = "EngineCancelledError";
+  }
+}
+
+// A task waiting for or running on a worker. The callbacks are methods so a
+// job for one kind of task can wait in the queue alongside every other kind;
+// a worker answers each job with its own kind's result and progress.
+interface Job<K extends EngineTask["kind"] = EngineTask["kind"]> {
+  id: number;
+  task: EngineTask & { kind: K };
+  resolve(result: EngineResults[K]): void;
+  reject(error: Error): void;
+  onProgress?(progress: Parameters<ProgressHandler<K>>[0]): void;
+  cleanup(): void;
+}
+
+const DEFAULT_QUEUE_LIMIT = 16;
+
+// Suggested wait before retrying when the queue is full, in seconds
+const RETRY_AFTER_SECONDS = 5;
+
+// Next to this file: engineWorker.ts when run through tsx, engineWorker.js in the bundled build
+const WORKER_URL = new URL(`./engineWorker${extname(fileURLToPath(import.meta.url))}`, import.meta.url);
+
+// Under tsx the worker is TypeScript too, and tsx's loader doesn't carry over
+// to worker threads, so register it in the worker before loading the entry
+function typeScriptBootstrap(url: URL): string {
+  return `import("tsx/esm/api").then(({ register }) => { register(); return import(${JSON.stringify(url.href)}); });`;
+}
+
+export class EnginePool {
+  private idle: Worker[] = [];
+  private running = new Map<Worker, Job>();
+  private queue: Job[] = [];
+  private nextId = 1;
+
+  constructor(readonly size: number, readonly queueLimit: number, private workerUrl: URL = WORKER_URL) {}
+
+  // Run a task on the next free worker. Rejects with EngineBusyError when the
+  // queue is full and with EngineCancelledError when the signal aborts first.
+  // onProgress hears whatever progress the task reports before it finishes.
+  run<K extends EngineTask["kind"]>(
+    task: Extract<EngineTask, { kind: K }>,
+    signal?: AbortSignal,
+    onProgress?: ProgressHandler<K>
+  ): Promise<EngineResults[K]> {
+    if (signal?.aborted) {
+      return Promise.reject(new EngineCancelledError());
+    }
+    if (this.queue.length >= this.queueLimit) {
+      return Promise.reject(new EngineBusyError(RETRY_AFTER_SECONDS));
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => this.cancel(job);
+      const job: Job<K> = {
+        id: this.nextId++,
+        task,
+        resolve,
+        reject,
+        onProgress,
+        cleanup: () => signal?.removeEventListener("abort", onAbort)
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.queue.push(job);
+      this.dispatch();
+    });
+  }
+
+  // Hand queued jobs to free workers, starting new ones up to the pool size
+  private dispatch() {
+    while (this.queue.length > 0 && (this.idle.length > 0 || this.running.size < this.size)) {
+      const worker = this.idle.pop() ?? this.spawn();
+      const job = this.queue.shift()!;
+      this.running.set(worker, job);
+      worker.ref();
+      const request: EngineRequest = { id: job.id, task: job.task };
+      worker.postMessage(request);
+    }
+  }
+
+  private spawn(): Worker {
+    const worker = this.workerUrl.pathname.endsWith(".ts")
+      ? new Worker(typeScriptBootstrap(this.workerUrl), { eval: true })
+      : new Worker(this.workerUrl);
+
+    worker.on("message", (response: EngineResponse) => {
+      const job = this.running.get(worker);
+      if (!job || job.id !== response.id) return;
+      if ("progress" in response) {
+        job.onProgress?.(response.progress);
+        return;
+      }
+
+      // Idle workers shouldn't keep the process alive
+      this.running.delete(worker);
+      this.idle.push(worker);
+      worker.unref();
+      job.cleanup();
+      if ("error" in response) {
+        job.reject(new Error(response.error));
+      } else {
+        job.resolve(response.result);
+      }
+      this.dispatch();
+    });
+
+    worker.on("error", (error) => {
+      const job = this.running.get(worker);
+      this.running.delete(worker);
+      if (job) {
+        job.cleanup();
+        job.reject(error);
+      }
+    });
+
+    // A worker that dies takes its job with it; the next dispatch starts a new one
+    worker.on("exit", () => {
+      const job = this.running.get(worker);
+      this.running.delete(worker);
+      this.idle = this.idle.filter(other => other !== worker);
+      if (job) {
+        job.cleanup();
+        job.reject(new Error("Engine worker stopped unexpectedly"));
+      }
+      this.dispatch();
+    });
+
+    return worker;
+  }
+
+  private cancel(job: Job) {
+    job.cleanup();
+
+    const queued = this.queue.indexOf(job);
+    if (queued >= 0) {
+      this.queue.splice(queued, 1);
+      job.reject(new EngineCancelledError());
+      return;
+    }
+
+    for (const [worker, running] of Array.from(this.running)) {
+      if (running === job) {
+        this.running.delete(worker);
+        worker.terminate();
+        job.reject(new EngineCancelledError());
+        this.dispatch();
+        return;
+      }
+    }
+  }
+}
+
+function readLimit(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const value = env[name];
+  if (value === undefined || value === "") {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`${name} must be a positive whole number, got "${value}"`);
+  }
+  return parsed;
+}
+
+// Workers in the pool: ENGINE_POOL_SIZE, or one per spare CPU core
+export function enginePoolSize(env: NodeJS.ProcessEnv = process.env): number {
+  return readLimit(env, "ENGINE_POOL_SIZE", Math.max(1, availableParallelism() - 1));
+}
+
+// Size the pool with enginePoolSize and the queue from ENGINE_QUEUE_LIMIT
+export function createEnginePool(env: NodeJS.ProcessEnv = process.env): EnginePool {
+  return new EnginePool(enginePoolSize(env), readLimit(env, "ENGINE_QUEUE_LIMIT", DEFAULT_QUEUE_LIMIT));
+}
+
+export const enginePool = createEnginePool();
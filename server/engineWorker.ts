@@ -0,0 +1,45 @@
+// Worker thread entry for the engine pool: runs one engine task at a time
+// off the main event loop and posts any progress, then the result, back.
+
+import { parentPort } from 'worker_threads';
+import { analysePosition } from './analysis';
+import { checkPuzzleAttempt, generatePuzzle, validatePuzzle } from './puzzles';
+import { getStockfishMove, evaluatePosition, solvePuzzle } from './stockfish';
+import type { EngineProgress, EngineRequest, EngineResponse, EngineResults, EngineTask } from './enginePool';
+
+async function runTask(
+  task: EngineTask,
+  onProgress: (progress: EngineProgress[keyof EngineProgress]) => void
+): Promise<EngineResults[EngineTask['kind']]> {
+  switch (task.kind) {
+    case 'move':
+      return getStockfishMove(task.fen, task.depth, task.timeLimit, task.options);
+    case 'evaluate':
+      return evaluatePosition(task.fen, task.depth);
+    case 'solve':
+      return solvePuzzle(task.fen, task.mateIn, task.timeLimit);
+    case 'generatePuzzle':
+      return generatePuzzle(task.mateIn, task.positions, task.timeLimit);
+    case 'validatePuzzle':
+      return validatePuzzle(task.fen, task.mateIn);
+    case 'checkAttempt':
+      return checkPuzzleAttempt(task.fen, task.mateIn, task.moves);
+    case 'analyse':
+      return analysePosition(task.request, onProgress);
+  }
+}
+
+parentPort?.on('message', async ({ id, task }: EngineRequest) => {
+  const onProgress = (progress: EngineProgress[keyof EngineProgress]) => {
+    const message: EngineResponse = { id, progress };
+    parentPort?.postMessage(message);
+  };
+
+  let response: EngineResponse;
+  try {
+    response = { id, result: await runTask(task, onProgress) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort?.postMessage(response);
+});
@@ -0,0 +1,32 @@
+#!/usr/bin/env node
+// A stand-in UCI engine for tests. It plays the first move it is allowed
+// to, or e2e4. Started with "silent", or with FAKE_UCI_ENGINE=silent when
+// run as UCI_ENGINE_PATH, it never answers anything.
+
+import { createInterface } from "readline";
+
+const silent = process.argv[2] === "silent" || process.env.FAKE_UCI_ENGINE === "silent";
+
+createInterface({ input: process.stdin }).on("line", line => {
+  if (silent) return;
+
+  const [command, ...args] = line.trim().split(/\s+/);
+  switch (command) {
+    case "uci":
+      console.log("id name Fake Engine");
+      console.log("uciok");
+      break;
+    case "isready":
+      console.log("readyok");
+      break;
+    case "go": {
+      const searchMoves = args.indexOf("searchmoves");
+      const move = searchMoves >= 0 ? args[searchMoves + 1] : "e2e4";
+      console.log(`info depth 1 score cp 25 nodes 20 nps 1000 pv ${move}`);
+      console.log(`bestmove ${move}`);
+      break;
+    }
+    case "quit":
+      process.exit(0);
+  }
+});
@@ -0,0 +1,242 @@
+// Server-side game flow shared by the HTTP routes and online rooms.
+// The server owns each game's move clock: when the side to move runs out of
+// time a missed move is recorded and penalised, whether or not anyone is
+// connected. In AI games it also picks the AI's moves.
+
+import type { Difficulty, Game, MoveHistory } from "@shared/schema";
+import {
+  replayHukumMove,
+  advanceHukumGame,
+  freeHitsByColor,
+  getTurnDeadline,
+  isPlayerToMove,
+  missHukumMove,
+  nextMoveNumbers,
+  scoresByColor,
+  HukumRuleError,
+  MISSED_MOVE
+} from "@shared/hukum";
+import { ENGINE_PROFILES } from "@shared/engine";
+import { enginePool } from "./enginePool";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+export interface PlayedMove {
+  move: MoveHistory;
+  game: Game;
+}
+
+type MissedMoveListener = (played: PlayedMove) => void;
+
+const missedMoveListeners: MissedMoveListener[] = [];
+
+// Pending clock timers by game id
+const clocks = new Map<number, NodeJS.Timeout>();
+
+// Changes to a game are applied one at a time so an expiring clock can't
+// race a submitted move
+const gameLocks = new Map<number, Promise<unknown>>();
+
+function withGameLock<T>(gameId: number, task: () => Promise<T>): Promise<T> {
+  const previous = gameLocks.get(gameId) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  gameLocks.set(gameId, next);
+
+  const release = () => {
+    if (gameLocks.get(gameId) === next) {
+      gameLocks.delete(gameId);
+    }
+  };
+  next.then(release, release);
+  return next;
+}
+
+async function loadGame(gameId: number): Promise<Game> {
+  const game = await storage.getGame(gameId);
+  if (!game) {
+    throw new Error(`Game ${gameId} not found`);
+  }
+  return game;
+}
+
+// Record a missed move for every deadline that has already passed. Each
+// following turn starts at the previous deadline, so a game left alone
+// while the server was down catches up the same way it would have played out.
+async function applyMissedMoves(game: Game): Promise<Game> {
+  let current = game;
+
+  for (;;) {
+    const deadline = getTurnDeadline(current);
+    if (deadline === null || deadline > Date.now()) {
+      return current;
+    }
+
+    const missed = missHukumMove(current);
+    const move = await storage.createMoveHistory({
+      gameId: current.id,
+      move: MISSED_MOVE,
+      isPlayer: missed.isPlayer,
+      capturedPiece: null,
+      points: missed.points,
+      moveNumber: missed.moveNumber,
+      freeHit: missed.freeHit
+    });
+
+    const updates = {
+      ...advanceHukumGame(current, missed),
+      turnStartedAt: new Date(deadline)
+    };
+    current = (await storage.updateGame(current.id, updates)) ?? { ...current, ...updates };
+
+    const played = { move, game: current };
+    missedMoveListeners.forEach(listener => listener(played));
+  }
+}
+
+// Call listener whenever the server records a missed move
+export function onMissedMove(listener: MissedMoveListener) {
+  missedMoveListeners.push(listener);
+}
+
+// (Re)arm the clock timer for a game's current turn
+export function scheduleClock(game: Game) {
+  const existing = clocks.get(game.id);
+  if (existing) {
+    clearTimeout(existing);
+    clocks.delete(game.id);
+  }
+
+  const deadline = getTurnDeadline(game);
+  if (deadline === null) return;
+
+  const timer = setTimeout(() => {
+    clocks.delete(game.id);
+    settleClock(game.id).catch(error => log(`clock for game ${game.id} failed: ${error}`, "clocks"));
+  }, Math.max(0, deadline - Date.now()));
+  timer.unref();
+  clocks.set(game.id, timer);
+}
+
+// Apply any missed moves that are due and return the up-to-date game
+export function settleClock(gameId: number): Promise<Game> {
+  return withGameLock(gameId, async () => {
+    const game = await applyMissedMoves(await loadGame(gameId));
+    scheduleClock(game);
+    return game;
+  });
+}
+
+// Start timers for every game still in progress, e.g. after a restart
+export async function resumeClocks() {
+  const games = await storage.getGamesInProgress();
+  games.forEach(scheduleClock);
+  if (games.length > 0) {
+    log(`resumed clocks for ${games.length} game(s)`, "clocks");
+  }
+}
+
+// Replay a move against the stored position, record it and update scores,
+// counters, Free Hits and (once decided) the result. Overdue missed moves are
+// applied first. Throws HukumRuleError when the move breaks the rules.
+export function playMove(gameId: number, uci: string, isPlayer: boolean): Promise<PlayedMove> {
+  return withGameLock(gameId, async () => {
+    const game = await applyMissedMoves(await loadGame(gameId));
+
+    let result;
+    try {
+      result = replayHukumMove(game, uci, isPlayer);
+    } catch (error) {
+      scheduleClock(game);
+      throw error;
+    }
+
+    const move = await storage.createMoveHistory({
+      gameId: game.id,
+      move: result.uci,
+      isPlayer,
+      capturedPiece: result.capturedPiece,
+      points: result.points,
+      moveNumber: result.moveNumber,
+      freeHit: result.freeHit
+    });
+
+    const updates = {
+      ...advanceHukumGame(game, result),
+      turnStartedAt: new Date()
+    };
+    const updatedGame = (await storage.updateGame(game.id, updates)) ?? { ...game, ...updates };
+
+    scheduleClock(updatedGame);
+    return { move, game: updatedGame };
+  });
+}
+
+// Pick the AI's move in an AI game with the engine at the game's difficulty
+// and play it. The search runs in the engine pool; aborting the signal drops
+// it. Throws HukumRuleError when the game is over or it isn't the AI's turn.
+export async function playAiMove(gameId: number, signal?: AbortSignal): Promise<PlayedMove> {
+  const game = await settleClock(gameId);
+  if (game.status !== "in_progress") {
+    throw new HukumRuleError("game_over", "Game is not in progress");
+  }
+  if (isPlayerToMove(game)) {
+    throw new HukumRuleError("out_of_turn", "It is not the AI's turn to move");
+  }
+
+  const difficulty = game.difficulty as Difficulty;
+  const profile = ENGINE_PROFILES[difficulty];
+  const move = await enginePool.run({
+    kind: "move",
+    fen: game.fen,
+    depth: profile.depth,
+    timeLimit: profile.timeLimit,
+    options: {
+      moveNumbers: nextMoveNumbers(game),
+      difficulty,
+      scores: scoresByColor(game),
+      freeHits: freeHitsByColor(game)
+    }
+  }, signal);
+
+  // Replayed like any other move, so a clock that ran out meanwhile still wins
+  return playMove(gameId, move, false);
+}
+
+// Seat a user as the opponent in an online game if the seat is still free.
+// Returns the game as it then stands; its opponentId says who has the seat.
+export function takeOpponentSeat(gameId: number, userId: number): Promise<Game> {
+  return withGameLock(gameId, async () => {
+    const game = await loadGame(gameId);
+    if (game.opponentId || userId === game.ownerId) {
+      return game;
+    }
+
+    // The clock starts once both players are present
+    const updates = { opponentId: userId, turnStartedAt: new Date() };
+    const updatedGame = (await storage.updateGame(game.id, updates)) ?? { ...game, ...updates };
+
+    scheduleClock(updatedGame);
+    return updatedGame;
+  });
+}
+
+// Resign a game on behalf of a user and record the result. In AI and online
+// games the user's own side resigns; in hotseat games, where one user plays
+// both sides, the side to move does. Overdue missed moves are applied first.
+// Throws HukumRuleError when the game is already over.
+export function resignGame(gameId: number, userId: number): Promise<Game> {
+  return withGameLock(gameId, async () => {
+    const game = await applyMissedMoves(await loadGame(gameId));
+    if (game.status !== "in_progress") {
+      scheduleClock(game);
+      throw new HukumRuleError("game_over", "Game is already over");
+    }
+
+    const playerResigns = game.mode === "hotseat" ? isPlayerToMove(game) : userId === game.ownerId;
+    const status = playerResigns ? "ai_win" : "player_win";
+    const updatedGame = (await storage.updateGame(game.id, { status })) ?? { ...game, status };
+
+    scheduleClock(updatedGame);
+    return updatedGame;
+  });
+}
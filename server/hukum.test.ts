@@ -0,0 +1,154 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  advanceHukumGame,
+  getHukumOutcome,
+  HukumRuleError,
+  isEnPassantValid,
+  missHukumMove,
+  movesLeft,
+  replayHukumMove,
+  HUKUM_MOVE_LIMIT,
+  type HukumScoredState
+} from "@shared/hukum";
+
+const START_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+
+// A game in progress with the player as white, nothing played yet
+function gameState(overrides: Partial<HukumScoredState> = {}): HukumScoredState {
+  return {
+    fen: START_FEN,
+    playerSide: "white",
+    status: "in_progress",
+    playerMoves: 0,
+    aiMoves: 0,
+    playerScore: 0,
+    aiScore: 0,
+    playerFreeHit: false,
+    aiFreeHit: false,
+    ...overrides
+  };
+}
+
+function ruleViolation(violation: HukumRuleError["violation"]) {
+  return (error: unknown) => error instanceof HukumRuleError && error.violation === violation;
+}
+
+test("replayHukumMove scores captures and promotions", () => {
+  const capture = replayHukumMove(gameState({ fen: "4k3/8/8/3q4/4P3/8/8/4K3 w - - 0 1", playerMoves: 2 }), "e4d5", true);
+  assert.equal(capture.points, 9);
+  assert.equal(capture.capturedPiece, "q");
+  assert.equal(capture.moveNumber, 3);
+  assert.equal(capture.fen, "4k3/8/8/3P4/8/8/8/4K3 b - - 0 1");
+
+  // A promotion scores the new piece less the pawn
+  const promotion = replayHukumMove(gameState({ fen: "4k3/P7/8/8/8/8/8/4K3 w - - 0 1" }), "a7a8q", true);
+  assert.equal(promotion.points, 8);
+});
+
+test("replayHukumMove refuses moves the rules don't allow", () => {
+  assert.throws(() => replayHukumMove(gameState({ status: "tie" }), "e2e4", true), ruleViolation("game_over"));
+  assert.throws(() => replayHukumMove(gameState(), "e7e5", false), ruleViolation("out_of_turn"));
+  assert.throws(() => replayHukumMove(gameState(), "e2", true), ruleViolation("illegal_move"));
+  assert.throws(() => replayHukumMove(gameState(), "e2e5", true), ruleViolation("illegal_move"));
+  assert.throws(() => replayHukumMove(gameState({ playerMoves: HUKUM_MOVE_LIMIT }), "e2e4", true), ruleViolation("move_limit"));
+
+  // Castling is legal chess but not Hukum
+  const castle = gameState({ fen: "4k3/8/8/8/8/8/8/4K2R w K - 0 1" });
+  assert.throws(() => replayHukumMove(castle, "e1g1", true), ruleViolation("illegal_move"));
+});
+
+test("en passant is only allowed on moves 2 to 6", () => {
+  assert.deepEqual([1, 2, 6, 7].map(isEnPassantValid), [false, true, true, false]);
+
+  // Black has just played d7d5 beside the white pawn on e5
+  const fen = "4k3/8/8/3pP3/8/8/8/4K3 w - d6 0 2";
+  assert.throws(() => replayHukumMove(gameState({ fen }), "e5d6", true), ruleViolation("illegal_move"));
+  assert.equal(replayHukumMove(gameState({ fen, playerMoves: 1 }), "e5d6", true).points, 1);
+  assert.equal(replayHukumMove(gameState({ fen, playerMoves: 5 }), "e5d6", true).points, 1);
+
+  // A Free Hit is move 7
+  const freeHit = gameState({ fen, playerMoves: HUKUM_MOVE_LIMIT, playerFreeHit: true });
+  assert.throws(() => replayHukumMove(freeHit, "e5d6", true), ruleViolation("illegal_move"));
+});
+
+test("a missed move costs a point, never going below zero", () => {
+  const missed = missHukumMove(gameState({ playerScore: 3, playerMoves: 2 }));
+  assert.equal(missed.isPlayer, true);
+  assert.equal(missed.points, -1);
+  assert.equal(missed.moveNumber, 3);
+  assert.equal(missed.fen.split(" ")[1], "b");
+
+  assert.equal(missHukumMove(gameState()).points, 0);
+
+  const next = advanceHukumGame(gameState({ playerScore: 3, playerMoves: 2 }), missed);
+  assert.equal(next.playerScore, 2);
+  assert.equal(next.playerMoves, 3);
+});
+
+test("a side in check that misses a move stays to move", () => {
+  const fen = "4k3/8/8/8/8/8/8/4K2r w - - 0 1";
+  assert.equal(missHukumMove(gameState({ fen })).fen, fen);
+});
+
+// White's knight takes a knight the d6 pawn can take back
+const FOUL_CAPTURE_FEN = "4k3/8/3p4/4n3/8/5N2/8/4K3 w - - 0 1";
+
+test("a foul capture on the 6th move gives the other side a Free Hit", () => {
+  const state = gameState({ fen: FOUL_CAPTURE_FEN, playerMoves: 5, aiMoves: 5 });
+  const turn = replayHukumMove(state, "f3e5", true);
+  assert.equal(turn.foulCapture, true);
+
+  const next = advanceHukumGame(state, turn);
+  assert.equal(next.aiFreeHit, true);
+  assert.equal(next.playerFreeHit, false);
+  assert.equal(next.status, undefined);
+  assert.equal(movesLeft(next, false), 2);
+
+  // Earlier in the game the same capture is just a capture
+  const early = gameState({ fen: FOUL_CAPTURE_FEN, playerMoves: 4, aiMoves: 4 });
+  assert.equal(advanceHukumGame(early, replayHukumMove(early, "f3e5", true)).aiFreeHit, false);
+});
+
+test("the turn is handed over so an owed Free Hit can be taken, then the game ends", () => {
+  // White has played all six; black is owed a Free Hit and plays its 6th
+  const state = gameState({
+    fen: "4k3/8/3p4/4N3/8/8/8/4K3 b - - 0 6",
+    playerMoves: 6,
+    aiMoves: 5,
+    playerScore: 3,
+    aiFreeHit: true
+  });
+  const sixth = advanceHukumGame(state, replayHukumMove(state, "d6e5", false));
+  assert.equal(sixth.aiScore, 3);
+  assert.equal(sixth.fen.split(" ")[1], "b");
+  assert.equal(sixth.status, undefined);
+
+  const afterSixth = { ...state, ...sixth, status: "in_progress" };
+  const freeHit = replayHukumMove(afterSixth, "e8d7", false);
+  assert.equal(freeHit.freeHit, true);
+  const end = advanceHukumGame(afterSixth, freeHit);
+  assert.equal(end.aiFreeHit, false);
+  assert.equal(end.status, "tie");
+});
+
+test("checkmate wins outright whatever the score", () => {
+  assert.equal(getHukumOutcome({
+    fen: "R5k1/5ppp/8/8/8/8/8/6K1 b - - 1 1",
+    playerSide: "white",
+    playerScore: 0,
+    aiScore: 20,
+    playerMoves: 3,
+    aiMoves: 3,
+    playerFreeHit: false,
+    aiFreeHit: false
+  }), "player_win");
+});
+
+test("once both sides have used their moves the higher score wins", () => {
+  const finished = { ...gameState({ playerMoves: 6, aiMoves: 6 }) };
+  assert.equal(getHukumOutcome({ ...finished, playerScore: 4, aiScore: 1 }), "player_win");
+  assert.equal(getHukumOutcome({ ...finished, playerScore: 1, aiScore: 4 }), "ai_win");
+  assert.equal(getHukumOutcome({ ...finished, playerScore: 2, aiScore: 2 }), "tie");
+  assert.equal(getHukumOutcome(gameState({ playerMoves: 5, aiMoves: 5 })), null);
+});
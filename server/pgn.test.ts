@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MISSED_MOVE, replayHukumGame } from "@shared/hukum";
+import { buildHukumPgn, parsePgn, PgnError } from "@shared/pgn";
+import type { MoveHistory } from "@shared/schema";
+
+const START_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+const PLAYERS = { player: "alice", opponent: "AI" };
+
+const game = {
+  id: 1,
+  playerSide: "white",
+  playerRole: "player1",
+  playerScore: 0,
+  aiScore: 0,
+  status: "in_progress",
+  startFen: START_FEN,
+  createdAt: new Date("2026-01-02T00:00:00Z")
+};
+
+// Moves as the server records them; the player is white
+function history(moves: [string, boolean][]): MoveHistory[] {
+  return moves.map(([move, isPlayer], index) => ({
+    id: index + 1,
+    gameId: game.id,
+    move,
+    isPlayer,
+    capturedPiece: null,
+    points: 0,
+    moveNumber: 0,
+    freeHit: false
+  }));
+}
+
+function finalFen(moves: MoveHistory[]): string {
+  const plies = replayHukumGame(game, moves);
+  return plies[plies.length - 1].fen;
+}
+
+test("an exported game reads back to the same position", () => {
+  const moves = history([["e2e4", true], ["e7e5", false], [MISSED_MOVE, true], ["d7d5", false], ["e4d5", true]]);
+  const parsed = parsePgn(buildHukumPgn(game, moves, PLAYERS));
+
+  assert.equal(parsed.headers.White, "alice");
+  assert.equal(parsed.headers.Variant, "Hukum");
+  assert.deepEqual(parsed.positions.map(position => position.san), [null, "e4", "e5", "--", "d5", "exd5"]);
+  assert.equal(parsed.positions[parsed.positions.length - 1].fen, finalFen(moves));
+});
+
+test("a move missed in check is a comment and the game still reads back", () => {
+  // Black misses a move in check after Qh5+ and stays to move
+  const moves = history([
+    ["e2e4", true],
+    ["f7f6", false],
+    ["d1h5", true],
+    [MISSED_MOVE, false],
+    ["g7g6", false],
+    ["h5g6", true]
+  ]);
+  const pgn = buildHukumPgn(game, moves, PLAYERS);
+
+  assert.match(pgn, /2\. Qh5\+ \{Missed move in check\} 2\.\.\. g6 3\. Qxg6\+/);
+  const parsed = parsePgn(pgn);
+  assert.deepEqual(parsed.positions.map(position => position.moveLabel), ["Start", "1. e4", "1... f6", "2. Qh5+", "2... g6", "3. Qxg6+"]);
+  assert.equal(parsed.positions[parsed.positions.length - 1].fen, finalFen(moves));
+});
+
+test("comments, variations and annotations are left out of the main line", () => {
+  const parsed = parsePgn('[Event "Casual"]\n\n1. e4! {best by test} e5 (1... c5 2. Nf3) 2. Nf3?! $1 ; a comment to the end of the line\nNc6 1-0 3. d4');
+  assert.equal(parsed.headers.Event, "Casual");
+  assert.deepEqual(parsed.positions.map(position => position.san), [null, "e4", "e5", "Nf3", "Nc6"]);
+});
+
+test("a game can start from its FEN tag", () => {
+  const parsed = parsePgn('[FEN "4k3/8/8/3q4/4P3/8/8/4K3 w - - 0 1"]\n\n1. exd5 *');
+  assert.equal(parsed.positions[1].fen, "4k3/8/8/3P4/8/8/8/4K3 b - - 0 1");
+});
+
+test("unreadable games are refused with a reason", () => {
+  assert.throws(() => parsePgn(""), PgnError);
+  assert.throws(() => parsePgn("1. e4 {unfinished"), /missing its closing \}/);
+  assert.throws(() => parsePgn("1. e4 e5)"), /closed without being opened/);
+  assert.throws(() => parsePgn('[FEN "garbage"]\n\n*'), /FEN tag is not a valid position/);
+  assert.throws(() => parsePgn("1. e4 e5 2. Ke3"), /2\. Ke3 is not a legal move/);
+  assert.throws(() => parsePgn("1. e4 f6 2. Qh5+ --"), /2\.\.\. --: a side in check can't pass/);
+});
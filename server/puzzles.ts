@@ -0,0 +1,342 @@
+// Forced-mate search for Puzzle Shootout puzzles
+// Puzzles are plain chess positions, so the search uses the standard chess.js rules
+
+import { Chess, Move } from 'chess.js';
+import { validatePuzzlePosition } from '@shared/position';
+import { SearchTimeout, startClock, toUci, visit, type SearchClock } from '@shared/search';
+
+export interface MateSearchResult {
+  found: boolean;          // a forced mate was proven
+  mateIn: number | null;   // length of the shortest forced mate found
+  line: string[];          // mating line in UCI, attacker first, against the most stubborn defence
+  nodes: number;           // positions visited
+  depthSearched: number;   // deepest mate-in-N that was fully searched
+  timedOut: boolean;       // the time limit ran out before the search finished
+}
+
+// Checks first, then captures: mating lines are almost always forcing
+function orderAttackerMoves(moves: Move[]): Move[] {
+  const rank = (move: Move) => (move.san.includes('+') || move.san.includes('#') ? 2 : 0) + (move.captured ? 1 : 0);
+  return moves.sort((a, b) => rank(b) - rank(a));
+}
+
+// Can the side to move force mate in at most n moves? Returns the line or null.
+function searchMate(chess: Chess, n: number, clock: SearchClock): string[] | null {
+  const moves = chess.moves({ verbose: true });
+
+  // Mate in one: chess.js marks mating moves with '#', no need to play them
+  const mate = moves.find(move => move.san.endsWith('#'));
+  if (mate) {
+    visit(clock);
+    return [toUci(mate)];
+  }
+
+  if (n <= 1) {
+    return null;
+  }
+
+  for (const move of orderAttackerMoves(moves)) {
+    visit(clock);
+    chess.move(move);
+
+    const line = refuteAllDefences(chess, n - 1, clock);
+    chess.undo();
+
+    if (line) {
+      return [toUci(move), ...line];
+    }
+  }
+
+  return null;
+}
+
+// Does every defence lose to a mate in at most n? Returns the longest resisting line or null.
+function refuteAllDefences(chess: Chess, n: number, clock: SearchClock): string[] | null {
+  const defences = chess.moves({ verbose: true });
+
+  // Stalemate (or a draw) is a failure for the attacker
+  if (defences.length === 0 || chess.isDraw()) {
+    return null;
+  }
+
+  let longest: string[] | null = null;
+  for (const defence of defences) {
+    visit(clock);
+    chess.move(defence);
+
+    const line = searchMate(chess, n, clock);
+    chess.undo();
+
+    if (!line) {
+      return null;
+    }
+
+    if (!longest || line.length + 1 > longest.length) {
+      longest = [toUci(defence), ...line];
+    }
+  }
+
+  return longest;
+}
+
+// Look for a forced mate in up to mateIn moves, deepening one move at a time
+export function findForcedMate(fen: string, mateIn: number, timeLimit: number = 15000): MateSearchResult {
+  const chess = new Chess(fen);
+  const clock = startClock(timeLimit);
+  const result: MateSearchResult = {
+    found: false,
+    mateIn: null,
+    line: [],
+    nodes: 0,
+    depthSearched: 0,
+    timedOut: false
+  };
+
+  try {
+    for (let n = 1; n <= mateIn; n++) {
+      const line = searchMate(chess, n, clock);
+      if (line) {
+        result.found = true;
+        result.mateIn = n;
+        result.line = line;
+        result.depthSearched = n;
+        break;
+      }
+      result.depthSearched = n;
+    }
+  } catch (error) {
+    if (!(error instanceof SearchTimeout)) {
+      throw error;
+    }
+    result.timedOut = true;
+  }
+
+  result.nodes = clock.nodes;
+  return result;
+}
+
+export type PuzzleAttempt =
+  | { status: "solved"; fen: string }
+  | { status: "continue"; fen: string; reply: string | null } // reply is the defence to the last move, in UCI
+  | { status: "failed"; fen: string; reason: string }
+  | { status: "unverified"; fen: string; reason: string }; // fen is from before the move that couldn't be checked
+
+// Time allowed for checking one attempt. A solver is waiting on it, so it
+// gets less than validation; a move it can't check in time is unverified,
+// neither accepted nor failed.
+export const PUZZLE_ATTEMPT_TIME_LIMIT = 10000;
+
+// Check a solver's moves against a mate-in-N puzzle. Each move must keep a
+// forced mate within the moves left; the defender answers with the most
+// stubborn defence, so the same moves always replay to the same position.
+export function checkPuzzleAttempt(fen: string, mateIn: number, moves: string[]): PuzzleAttempt {
+  const chess = new Chess(fen);
+  const clock = startClock(PUZZLE_ATTEMPT_TIME_LIMIT);
+  let reply: string | null = null;
+
+  for (let i = 0; i < moves.length; i++) {
+    const uci = moves[i];
+    const movesLeft = mateIn - i;
+    if (movesLeft <= 0) {
+      return { status: "failed", fen: chess.fen(), reason: `That's more than ${mateIn} moves` };
+    }
+
+    const before = chess.fen();
+    try {
+      chess.move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci.slice(4) || undefined });
+    } catch (error) {
+      return { status: "failed", fen: before, reason: `${uci} is not a legal move` };
+    }
+
+    if (chess.isCheckmate()) {
+      return { status: "solved", fen: chess.fen() };
+    }
+
+    if (movesLeft === 1) {
+      return { status: "failed", fen: chess.fen(), reason: "That isn't checkmate" };
+    }
+
+    let line: string[] | null;
+    try {
+      line = refuteAllDefences(chess, movesLeft - 1, clock);
+    } catch (error) {
+      if (!(error instanceof SearchTimeout)) {
+        throw error;
+      }
+      // The search stopped partway, so the board can't be trusted
+      return { status: "unverified", fen: before, reason: `Couldn't check ${uci} in time, try again` };
+    }
+    if (!line) {
+      return { status: "failed", fen: chess.fen(), reason: "That lets the defender escape" };
+    }
+
+    reply = line[0];
+    chess.move({ from: reply.slice(0, 2), to: reply.slice(2, 4), promotion: reply.slice(4) || undefined });
+  }
+
+  return { status: "continue", fen: chess.fen(), reply };
+}
+
+// Longest mate a shootout puzzle may ask for
+export const MAX_PUZZLE_MATE_IN = 3;
+
+// Validation gets more time than the AI solver so that hard puzzles are
+// still accepted even when the AI might run out of time on them
+export const PUZZLE_VALIDATION_TIME_LIMIT = 30000;
+
+export type PuzzleValidation =
+  | { valid: true; solution: string[]; nodes: number }
+  | { valid: false; reason: string };
+
+// Check that a submitted puzzle is a legal position with a forced mate in exactly mateIn
+export function validatePuzzle(fen: string, mateIn: number, timeLimit: number = PUZZLE_VALIDATION_TIME_LIMIT): PuzzleValidation {
+  if (!Number.isInteger(mateIn) || mateIn < 1 || mateIn > MAX_PUZZLE_MATE_IN) {
+    return { valid: false, reason: `Mate-in must be between 1 and ${MAX_PUZZLE_MATE_IN}` };
+  }
+
+  const position = validatePuzzlePosition(fen);
+  if (!position.ok) {
+    return { valid: false, reason: position.error };
+  }
+
+  const result = findForcedMate(fen, mateIn, timeLimit);
+  if (result.timedOut) {
+    return { valid: false, reason: `Could not verify a mate in ${mateIn} in time; try a simpler position` };
+  }
+  if (!result.found) {
+    return { valid: false, reason: `There is no forced mate in ${mateIn} from this position` };
+  }
+  if (result.mateIn !== mateIn) {
+    return { valid: false, reason: `This position has a quicker mate in ${result.mateIn}` };
+  }
+
+  return { valid: true, solution: result.line, nodes: result.nodes };
+}
+
+// Time the generator may spend looking for a puzzle
+export const PUZZLE_GENERATION_TIME_LIMIT = 10000;
+
+// Time spent proving each candidate position, per move of the mate; most
+// candidates are rejected well before this
+const CANDIDATE_TIME_PER_MOVE = 400;
+
+export type PuzzleSource = "game" | "random";
+
+export interface GeneratedPuzzle {
+  fen: string;
+  mateIn: number;
+  solution: string[]; // mating line in UCI, as found by findForcedMate
+  source: PuzzleSource;
+}
+
+// Attacking material handed out in random positions, heavy pieces first
+const ATTACKER_PIECES = ['Q', 'R', 'R', 'B', 'N', 'N', 'P', 'P'];
+const DEFENDER_PIECES = ['r', 'b', 'n', 'q'];
+
+function randomInt(max: number): number {
+  return Math.floor(Math.random() * max);
+}
+
+// Put a piece on a random empty square between two rows (row 0 is the 8th rank)
+function placeRandomly(board: (string | null)[], piece: string, firstRow: number, lastRow: number, files: number[] = [0, 1, 2, 3, 4, 5, 6, 7]): void {
+  for (let tries = 0; tries < 20; tries++) {
+    const square = (firstRow + randomInt(lastRow - firstRow + 1)) * 8 + files[randomInt(files.length)];
+    if (!board[square]) {
+      board[square] = piece;
+      return;
+    }
+  }
+}
+
+function boardToPlacement(board: (string | null)[]): string {
+  const rows: string[] = [];
+  for (let row = 0; row < 8; row++) {
+    let text = '';
+    let empty = 0;
+    for (let file = 0; file < 8; file++) {
+      const piece = board[row * 8 + file];
+      if (piece) {
+        text += (empty > 0 ? empty : '') + piece;
+        empty = 0;
+      } else {
+        empty++;
+      }
+    }
+    rows.push(text + (empty > 0 ? empty : ''));
+  }
+  return rows.join('/');
+}
+
+// A sparse attack on a sheltered king: the defender's king sits near its back
+// rank behind a few pawns, the attacker has some heavy pieces roaming. The
+// board is mirrored half the time so both colours get to attack.
+function randomAttackPosition(): string {
+  const board: (string | null)[] = Array(64).fill(null);
+
+  const kingFile = randomInt(8);
+  board[randomInt(2) * 8 + kingFile] = 'k';
+  const shelterFiles = [kingFile - 1, kingFile, kingFile + 1].filter(file => file >= 0 && file < 8);
+  for (let i = randomInt(4); i > 0; i--) {
+    placeRandomly(board, 'p', 1, 2, shelterFiles);
+  }
+  if (Math.random() < 0.5) {
+    placeRandomly(board, DEFENDER_PIECES[randomInt(DEFENDER_PIECES.length)], 0, 3);
+  }
+
+  placeRandomly(board, 'K', 5, 7);
+  const pool = [...ATTACKER_PIECES];
+  for (let i = 2 + randomInt(3); i > 0 && pool.length > 0; i--) {
+    const [piece] = pool.splice(randomInt(Math.min(pool.length, 5)), 1);
+    placeRandomly(board, piece, piece === 'P' ? 1 : 0, 6);
+  }
+
+  if (Math.random() < 0.5) {
+    const mirrored = board.map((_, square) => {
+      const piece = board[(7 - Math.floor(square / 8)) * 8 + square % 8];
+      return piece && (piece === piece.toUpperCase() ? piece.toLowerCase() : piece.toUpperCase());
+    });
+    return `${boardToPlacement(mirrored)} b - - 0 1`;
+  }
+  return `${boardToPlacement(board)} w - - 0 1`;
+}
+
+// Is this position a mate in exactly mateIn? Returns the mating line if so.
+function provePuzzle(fen: string, mateIn: number, deadline: number): string[] | null {
+  if (!validatePuzzlePosition(fen).ok) {
+    return null;
+  }
+
+  const result = findForcedMate(fen, mateIn, Math.min(CANDIDATE_TIME_PER_MOVE * mateIn, deadline - Date.now()));
+  return result.found && result.mateIn === mateIn ? result.line : null;
+}
+
+// Build a mate-in-N puzzle. Positions from played games are tried first, then
+// random attacking positions until the time limit. Returns null when nothing
+// turned up in time.
+export function generatePuzzle(
+  mateIn: number,
+  gamePositions: string[] = [],
+  timeLimit: number = PUZZLE_GENERATION_TIME_LIMIT
+): GeneratedPuzzle | null {
+  const deadline = Date.now() + timeLimit;
+
+  // Mined positions in random order so the same game doesn't always give the same puzzle
+  const mined = [...gamePositions].sort(() => Math.random() - 0.5);
+  for (const fen of mined) {
+    if (Date.now() >= deadline) return null;
+    const solution = provePuzzle(fen, mateIn, deadline);
+    if (solution) {
+      return { fen, mateIn, solution, source: "game" };
+    }
+  }
+
+  while (Date.now() < deadline) {
+    const fen = randomAttackPosition();
+    const solution = provePuzzle(fen, mateIn, deadline);
+    if (solution) {
+      return { fen, mateIn, solution, source: "random" };
+    }
+  }
+
+  return null;
+}
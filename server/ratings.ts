@@ -0,0 +1,51 @@
+// Glicko ratings for the puzzle trainer. Every rated attempt is a game
+// between the user and the puzzle: solving it is a win for the user, failing
+// it a win for the puzzle, and both ratings move.
+
+export interface Rating {
+  rating: number;
+  deviation: number;
+}
+
+export const DEFAULT_RATING: Rating = { rating: 1500, deviation: 350 };
+
+// Deviation never drops below this, so ratings keep moving a little
+const MIN_DEVIATION = 50;
+const MAX_DEVIATION = 350;
+
+const Q = Math.log(10) / 400;
+
+// Starting rating for a new puzzle: longer mates start harder
+export function initialPuzzleRating(mateIn: number): number {
+  return 1200 + 300 * (mateIn - 1);
+}
+
+function g(deviation: number): number {
+  return 1 / Math.sqrt(1 + (3 * Q * Q * deviation * deviation) / (Math.PI * Math.PI));
+}
+
+// Expected score of a against b
+export function expectedScore(a: Rating, b: Rating): number {
+  return 1 / (1 + Math.pow(10, (-g(b.deviation) * (a.rating - b.rating)) / 400));
+}
+
+// a's new rating after one game against b; score is 1 for a win and 0 for a loss
+export function updateRating(a: Rating, b: Rating, score: number): Rating {
+  const gb = g(b.deviation);
+  const expected = expectedScore(a, b);
+  const dSquared = 1 / (Q * Q * gb * gb * expected * (1 - expected));
+  const precision = 1 / (a.deviation * a.deviation) + 1 / dSquared;
+
+  return {
+    rating: a.rating + (Q / precision) * gb * (score - expected),
+    deviation: Math.min(MAX_DEVIATION, Math.max(MIN_DEVIATION, Math.sqrt(1 / precision)))
+  };
+}
+
+// Rate one attempt: returns the new ratings for the user and the puzzle
+export function rateAttempt(user: Rating, puzzle: Rating, solved: boolean): { user: Rating; puzzle: Rating } {
+  return {
+    user: updateRating(user, puzzle, solved ? 1 : 0),
+    puzzle: updateRating(puzzle, user, solved ? 0 : 1)
+  };
+}
@@ -0,0 +1,305 @@
+// Online human-vs-human matches over WebSocket.
+// Rooms are backed by a game row (mode "online"), so every move goes through
+// the same validation as the HTTP routes and survives a restart.
+
+import { WebSocketServer, WebSocket } from "ws";
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, RequestHandler, Response } from "express";
+import { randomInt } from "crypto";
+import { z } from "zod";
+import type { Game, User } from "@shared/schema";
+import { HukumRuleError, getTurnDeadline } from "@shared/hukum";
+import { validatePosition } from "@shared/position";
+import {
+  clientMessageSchema,
+  ROOM_SOCKET_PATH,
+  type ClientMessage,
+  type RoomPlayer,
+  type RoomState,
+  type ServerMessage
+} from "@shared/rooms";
+import { storage } from "./storage";
+import { onMissedMove, playMove, resignGame, takeOpponentSeat } from "./games";
+import { log } from "./vite";
+
+const START_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+
+// Unambiguous characters for room codes
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+
+interface Connection {
+  socket: WebSocket;
+  user: User;
+  room: Room | null;
+  // Messages from one connection are handled in the order they arrive
+  queue: Promise<void>;
+}
+
+interface Room {
+  code: string;
+  gameId: number;
+  connections: Set<Connection>;
+  // Messages for a room are handled one at a time
+  queue: Promise<void>;
+}
+
+const rooms = new Map<string, Room>();
+
+// Raised for requests the player can fix; the message is sent back to them
+class RoomError extends Error {}
+
+function send(socket: WebSocket, message: ServerMessage) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function generateRoomCode(): string {
+  let code = "";
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+async function uniqueRoomCode(): Promise<string> {
+  for (;;) {
+    const code = generateRoomCode();
+    if (!(await storage.getGameByRoomCode(code))) {
+      return code;
+    }
+  }
+}
+
+function getRoom(code: string, gameId: number): Room {
+  let room = rooms.get(code);
+  if (!room) {
+    room = { code, gameId, connections: new Set(), queue: Promise.resolve() };
+    rooms.set(code, room);
+  }
+  return room;
+}
+
+// Run a task once everything queued for the room before it is done. The
+// queue carries on past a failed task; the failure is the caller's to handle.
+function enqueue<T>(room: Room, task: () => Promise<T>): Promise<T> {
+  const result = room.queue.then(task);
+  room.queue = result.then(() => undefined, () => undefined);
+  return result;
+}
+
+function enterRoom(connection: Connection, room: Room) {
+  leaveRoom(connection);
+  connection.room = room;
+  room.connections.add(connection);
+}
+
+function leaveRoom(connection: Connection) {
+  const room = connection.room;
+  if (!room) return;
+
+  room.connections.delete(connection);
+  connection.room = null;
+  if (room.connections.size === 0) {
+    rooms.delete(room.code);
+  } else {
+    void broadcastState(room);
+  }
+}
+
+async function describePlayer(room: Room, userId: number): Promise<RoomPlayer> {
+  const user = await storage.getUser(userId);
+  const connected = Array.from(room.connections).some(c => c.user.id === userId);
+  return { id: userId, username: user?.username ?? "Unknown", connected };
+}
+
+async function buildRoomState(room: Room, game: Game): Promise<RoomState> {
+  return {
+    code: room.code,
+    game,
+    // Rooms came after accounts, so their games always have an owner
+    owner: await describePlayer(room, game.ownerId!),
+    opponent: game.opponentId ? await describePlayer(room, game.opponentId) : null,
+    deadline: getTurnDeadline(game)
+  };
+}
+
+async function loadRoomGame(room: Room): Promise<Game> {
+  const game = await storage.getGame(room.gameId);
+  if (!game) {
+    throw new RoomError("This room's game no longer exists");
+  }
+  return game;
+}
+
+async function broadcast(room: Room, build: (state: RoomState) => ServerMessage) {
+  const game = await loadRoomGame(room);
+  const message = build(await buildRoomState(room, game));
+  room.connections.forEach(connection => send(connection.socket, message));
+}
+
+async function broadcastState(room: Room) {
+  try {
+    await broadcast(room, state => ({ type: "state", room: state }));
+  } catch (error) {
+    log(`failed to broadcast room ${room.code}: ${error}`, "rooms");
+  }
+}
+
+async function createRoom(connection: Connection, message: Extract<ClientMessage, { type: "create" }>): Promise<Room> {
+  const fen = message.fen ?? START_FEN;
+  const position = validatePosition(fen);
+  if (!position.ok) {
+    throw new RoomError(position.error);
+  }
+
+  const code = await uniqueRoomCode();
+  const game = await storage.createGame({
+    ownerId: connection.user.id,
+    playerSide: message.playerSide,
+    playerRole: message.playerRole,
+    fen,
+    mode: "online",
+    roomCode: code
+  });
+
+  const room = getRoom(code, game.id);
+  enterRoom(connection, room);
+  return room;
+}
+
+async function findRoom(code: string): Promise<Room> {
+  const game = await storage.getGameByRoomCode(code.toUpperCase());
+  if (!game || !game.roomCode) {
+    throw new RoomError("No room with that code");
+  }
+  return getRoom(game.roomCode, game.id);
+}
+
+async function joinRoom(connection: Connection, room: Room) {
+  const game = await loadRoomGame(room);
+  const userId = connection.user.id;
+
+  if (userId !== game.ownerId && userId !== game.opponentId) {
+    // Taken under the game's lock, so two players joining at once can't both get the seat
+    const seated = await takeOpponentSeat(game.id, userId);
+    if (seated.opponentId !== userId) {
+      throw new RoomError("This room already has two players");
+    }
+  }
+
+  enterRoom(connection, room);
+}
+
+async function handleMessage(connection: Connection, message: ClientMessage) {
+  if (message.type === "create") {
+    const room = await createRoom(connection, message);
+    await enqueue(room, () => broadcastState(room));
+    return;
+  }
+
+  if (message.type === "join") {
+    const room = await findRoom(message.code);
+    await enqueue(room, async () => {
+      await joinRoom(connection, room);
+      await broadcastState(room);
+    });
+    return;
+  }
+
+  const room = connection.room;
+  if (!room) {
+    throw new RoomError("Join a room first");
+  }
+
+  await enqueue(room, async () => {
+    const game = await loadRoomGame(room);
+    const isOwner = connection.user.id === game.ownerId;
+
+    if (message.type === "resign") {
+      await resignGame(game.id, connection.user.id);
+      await broadcastState(room);
+      return;
+    }
+
+    if (!game.opponentId) {
+      throw new RoomError("Waiting for an opponent to join");
+    }
+
+    const { move } = await playMove(game.id, message.move, isOwner);
+    await broadcast(room, state => ({ type: "move", room: state, move }));
+  });
+}
+
+function handleConnection(socket: WebSocket, user: User) {
+  const connection: Connection = { socket, user, room: null, queue: Promise.resolve() };
+
+  socket.on("message", (data) => {
+    let message: ClientMessage;
+    try {
+      message = clientMessageSchema.parse(JSON.parse(data.toString()));
+    } catch (error) {
+      const detail = error instanceof z.ZodError ? error.errors[0]?.message : undefined;
+      send(socket, { type: "error", message: detail ?? "Malformed message" });
+      return;
+    }
+
+    // A connection's messages are handled in order, and within a room every
+    // message waits its turn so two moves can't race each other
+    connection.queue = connection.queue.then(async () => {
+      try {
+        await handleMessage(connection, message);
+      } catch (error) {
+        if (error instanceof RoomError || error instanceof HukumRuleError) {
+          send(socket, { type: "error", message: error.message });
+        } else {
+          log(`room message failed: ${error}`, "rooms");
+          send(socket, { type: "error", message: "Internal server error" });
+        }
+      }
+    });
+  });
+
+  socket.on("close", () => leaveRoom(connection));
+}
+
+// Accept WebSocket upgrades on ROOM_SOCKET_PATH for logged-in users.
+// Other upgrade requests (such as Vite's HMR socket) are left alone.
+export function setupRooms(httpServer: Server, sessionParser: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  // Missed moves happen on the server's clock, so push them to the room
+  onMissedMove(({ move, game }) => {
+    const room = game.roomCode ? rooms.get(game.roomCode) : undefined;
+    if (room) {
+      broadcast(room, state => ({ type: "move", room: state, move }))
+        .catch(error => log(`failed to broadcast room ${room.code}: ${error}`, "rooms"));
+    }
+  });
+
+  httpServer.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== ROOM_SOCKET_PATH) return;
+
+    sessionParser(req as Request, {} as Response, async () => {
+      try {
+        const session = (req as Request).session as { passport?: { user?: number } } | undefined;
+        const userId = session?.passport?.user;
+        const user = userId ? await storage.getUser(userId) : undefined;
+
+        if (!user) {
+          socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+          socket.destroy();
+          return;
+        }
+
+        wss.handleUpgrade(req, socket, head, (ws) => handleConnection(ws, user));
+      } catch (error) {
+        log(`websocket upgrade failed: ${error}`, "rooms");
+        socket.destroy();
+      }
+    });
+  });
+}
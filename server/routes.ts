@@ -2,26 +2,86 @@ import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { 
+  aiMoveRequestSchema,
+  analysisRequestSchema,
+  evaluateRequestSchema,
   insertGameSchema, 
-  insertMoveHistorySchema, 
-  insertPuzzleSchema
+  insertPuzzleSchema,
+  puzzleAttemptSchema,
+  puzzleFilterSchema,
+  solvePuzzleRequestSchema,
+  submitMoveSchema,
+  type Game
 } from "@shared/schema";
+import { HukumRuleError } from "@shared/hukum";
+import { buildHukumPgn } from "@shared/pgn";
+import { validatePosition } from "@shared/position";
+import { isPuzzleSettled, SHOOTOUT_SOLVE_TIME } from "@shared/shootout";
 import { z } from "zod";
-import { getStockfishMove, evaluatePosition, solvePuzzle } from "./stockfish";
+import { enginePool, EngineBusyError, EngineCancelledError } from "./enginePool";
+import { setupAuth, requireAuth } from "./auth";
+import { playAiMove, playMove, resignGame, resumeClocks, scheduleClock, settleClock } from "./games";
+import { setupRooms } from "./rooms";
+import { assertSetterTurn, attemptAiPuzzle, getShootout, publicPuzzle, setAiPuzzle, ShootoutError } from "./shootout";
+import { listPuzzles, nextPuzzle, trainOnPuzzle } from "./trainer";
+import { initialPuzzleRating } from "./ratings";
+
+// Only the players in a game may read or change it. Games from before
+// accounts have no owner and can't be opened by anyone.
+function canAccessGame(req: Request, game: Game): boolean {
+  if (game.ownerId === null) return false;
+  return req.user?.id === game.ownerId || req.user?.id === game.opponentId;
+}
+
+// Aborts when the client goes away before the response is sent, so its
+// engine work can be dropped
+function requestSignal(res: Response): AbortSignal {
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+}
+
+// A full engine queue is a 503 with a retry hint; a cancelled task has no one
+// left to answer. Returns false for any other error.
+function handleEngineError(res: Response, error: unknown): boolean {
+  if (error instanceof EngineBusyError) {
+    res.set("Retry-After", String(error.retryAfter));
+    res.status(503).json({ message: error.message, retryAfter: error.retryAfter });
+    return true;
+  }
+  return error instanceof EngineCancelledError;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
 
+  // Sessions, login and registration
+  const sessionParser = setupAuth(app);
+  
+  // Online matches over WebSocket
+  setupRooms(httpServer, sessionParser);
+
+  // Move clocks keep running across restarts
+  await resumeClocks();
+
   // API endpoints
   app.get("/api/health", (req: Request, res: Response) => {
     res.status(200).json({ status: "ok" });
   });
 
   // Create a new game
-  app.post("/api/games", async (req: Request, res: Response) => {
+  app.post("/api/games", requireAuth, async (req: Request, res: Response) => {
     try {
       const gameData = insertGameSchema.parse(req.body);
-      const game = await storage.createGame(gameData);
+      const position = validatePosition(gameData.fen);
+      if (!position.ok) {
+        return res.status(400).json({ message: position.error });
+      }
+      // The first move's clock starts as soon as the game is created
+      const game = await storage.createGame({ ...gameData, ownerId: req.user!.id, turnStartedAt: new Date() });
+      scheduleClock(game);
       res.status(201).json(game);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -33,7 +93,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get a game by ID
-  app.get("/api/games/:id", async (req: Request, res: Response) => {
+  app.get("/api/games/:id", requireAuth, async (req: Request, res: Response) => {
     try {
       const gameId = parseInt(req.params.id);
       const game = await storage.getGame(gameId);
@@ -42,14 +102,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Game not found" });
       }
       
-      res.status(200).json(game);
+      if (!canAccessGame(req, game)) {
+        return res.status(403).json({ message: "You do not have access to this game" });
+      }
+      
+      // Include any missed moves that have just fallen due
+      res.status(200).json(await settleClock(gameId));
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Update a game
-  app.patch("/api/games/:id", async (req: Request, res: Response) => {
+  // Resign a game. The server works out which side resigns from who is
+  // asking; online games are resigned from their room so both players hear.
+  app.post("/api/games/:id/resign", requireAuth, async (req: Request, res: Response) => {
     try {
       const gameId = parseInt(req.params.id);
       const game = await storage.getGame(gameId);
@@ -58,15 +124,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Game not found" });
       }
       
-      const updatedGame = await storage.updateGame(gameId, req.body);
+      if (!canAccessGame(req, game)) {
+        return res.status(403).json({ message: "You do not have access to this game" });
+      }
+      
+      if (game.mode === "online") {
+        return res.status(409).json({ message: "Online games are resigned from their room" });
+      }
+      
+      const updatedGame = await resignGame(gameId, req.user!.id);
       res.status(200).json(updatedGame);
     } catch (error) {
-      res.status(500).json({ message: "Internal server error" });
+      if (error instanceof HukumRuleError) {
+        res.status(409).json({ message: error.message, violation: error.violation });
+      } else {
+        res.status(500).json({ message: "Internal server error" });
+      }
     }
   });
 
   // Get move history for a game
-  app.get("/api/games/:id/moves", async (req: Request, res: Response) => {
+  app.get("/api/games/:id/moves", requireAuth, async (req: Request, res: Response) => {
     try {
       const gameId = parseInt(req.params.id);
       const game = await storage.getGame(gameId);
@@ -75,6 +153,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Game not found" });
       }
       
+      if (!canAccessGame(req, game)) {
+        return res.status(403).json({ message: "You do not have access to this game" });
+      }
+      
+      await settleClock(gameId);
       const moves = await storage.getMoveHistoryByGameId(gameId);
       res.status(200).json(moves);
     } catch (error) {
@@ -82,8 +165,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Add a move to the game history
-  app.post("/api/games/:id/moves", async (req: Request, res: Response) => {
+  // Download a game as PGN
+  app.get("/api/games/:id/pgn", requireAuth, async (req: Request, res: Response) => {
     try {
       const gameId = parseInt(req.params.id);
       const game = await storage.getGame(gameId);
@@ -92,72 +175,200 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Game not found" });
       }
       
-      const moveData = insertMoveHistorySchema.parse({
-        ...req.body,
-        gameId
-      });
+      if (!canAccessGame(req, game)) {
+        return res.status(403).json({ message: "You do not have access to this game" });
+      }
       
-      const move = await storage.createMoveHistory(moveData);
-      
-      // Safely handle potentially null values in the game object
-      const currentPlayerMoves = game.playerMoves ?? 0;
-      const currentAiMoves = game.aiMoves ?? 0;
-      const currentPlayerScore = game.playerScore ?? 0;
-      const currentAiScore = game.aiScore ?? 0;
-      
-      // Update game state
-      const updatedGame = await storage.updateGame(gameId, { 
-        fen: req.body.resultingFen,
-        playerMoves: moveData.isPlayer ? currentPlayerMoves + 1 : currentPlayerMoves,
-        aiMoves: !moveData.isPlayer ? currentAiMoves + 1 : currentAiMoves,
-        playerScore: moveData.isPlayer ? currentPlayerScore + (moveData.points || 0) : currentPlayerScore,
-        aiScore: !moveData.isPlayer ? currentAiScore + (moveData.points || 0) : currentAiScore
+      const settledGame = await settleClock(gameId);
+      const moves = await storage.getMoveHistoryByGameId(gameId);
+      const owner = game.ownerId ? await storage.getUser(game.ownerId) : undefined;
+      const opponent = game.opponentId ? await storage.getUser(game.opponentId) : undefined;
+      
+      const pgn = buildHukumPgn(settledGame, moves, {
+        player: owner?.username ?? "?",
+        opponent: game.mode === "ai" ? "AI" : opponent?.username ?? "?"
       });
+      res.attachment(`hukum-game-${gameId}.pgn`);
+      res.type("application/x-chess-pgn").status(200).send(pgn);
+    } catch (error) {
+      if (error instanceof HukumRuleError) {
+        res.status(409).json({ message: `Game history could not be replayed: ${error.message}` });
+      } else {
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  });
+
+  // Add a move to the game history
+  app.post("/api/games/:id/moves", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const gameId = parseInt(req.params.id);
+      const game = await storage.getGame(gameId);
+      
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      
+      if (!canAccessGame(req, game)) {
+        return res.status(403).json({ message: "You do not have access to this game" });
+      }
+      
+      // Online moves go through the room, which knows which side each player has
+      if (game.mode === "online") {
+        return res.status(409).json({ message: "Online games are played from their room" });
+      }
+      
+      const { move: uci, isPlayer } = submitMoveSchema.parse(req.body);
+      
+      // The AI's moves are picked on the server, never taken from the client
+      if (game.mode === "ai" && !isPlayer) {
+        return res.status(403).json({ message: "The AI's moves are played by the server" });
+      }
+      
+      // Replay the move against the stored position; never trust client scores
+      const { move, game: updatedGame } = await playMove(gameId, uci, isPlayer);
       
       res.status(201).json({ move, game: updatedGame });
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: error.errors });
+      } else if (error instanceof HukumRuleError) {
+        res.status(error.violation === "illegal_move" ? 400 : 409).json({ 
+          message: error.message,
+          violation: error.violation
+        });
       } else {
         res.status(500).json({ message: "Internal server error" });
       }
     }
   });
 
-  // Get AI move for a given position
-  app.post("/api/ai/move", async (req: Request, res: Response) => {
+  // Have the server pick and play the AI's move in an AI game
+  app.post("/api/games/:id/ai-move", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { fen, depth = 15, timeLimit = 2000 } = req.body;
+      const gameId = parseInt(req.params.id);
+      const game = await storage.getGame(gameId);
+      
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
       
-      if (!fen) {
-        return res.status(400).json({ message: "FEN string is required" });
+      if (!canAccessGame(req, game)) {
+        return res.status(403).json({ message: "You do not have access to this game" });
       }
       
-      const move = await getStockfishMove(fen, depth, timeLimit);
+      if (game.mode !== "ai") {
+        return res.status(409).json({ message: "Only games against the AI have AI moves" });
+      }
+      
+      const { move, game: updatedGame } = await playAiMove(gameId, requestSignal(res));
+      res.status(201).json({ move, game: updatedGame });
+    } catch (error) {
+      if (handleEngineError(res, error)) return;
+      if (error instanceof HukumRuleError) {
+        res.status(409).json({ message: error.message, violation: error.violation });
+      } else {
+        res.status(500).json({ message: "Error making AI move" });
+      }
+    }
+  });
+
+  // Get AI move for a given position
+  app.post("/api/ai/move", async (req: Request, res: Response) => {
+    try {
+      const { fen, depth, timeLimit, moveNumbers, difficulty, search, scores, freeHits } = aiMoveRequestSchema.parse(req.body);
+      const position = validatePosition(fen);
+      if (!position.ok) {
+        return res.status(400).json({ message: position.error });
+      }
+
+      const move = await enginePool.run({
+        kind: "move",
+        fen,
+        depth,
+        timeLimit,
+        options: { moveNumbers, difficulty, search, scores, freeHits }
+      }, requestSignal(res));
       res.status(200).json({ move });
     } catch (error) {
+      if (handleEngineError(res, error)) return;
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
       res.status(500).json({ message: "Error getting AI move" });
     }
   });
 
   // Evaluate a chess position
-  app.post("/api/ai/evaluate", async (req: Request, res: Response) => {
+  app.post("/api/ai/evaluate", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { fen, depth = 15 } = req.body;
-      
-      if (!fen) {
-        return res.status(400).json({ message: "FEN string is required" });
+      const { fen, depth } = evaluateRequestSchema.parse(req.body);
+      const position = validatePosition(fen);
+      if (!position.ok) {
+        return res.status(400).json({ message: position.error });
       }
-      
-      const evaluation = await evaluatePosition(fen, depth);
+
+      const evaluation = await enginePool.run({ kind: "evaluate", fen, depth }, requestSignal(res));
       res.status(200).json({ evaluation });
     } catch (error) {
+      if (handleEngineError(res, error)) return;
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
       res.status(500).json({ message: "Error evaluating position" });
     }
   });
 
+  // Stream a live analysis of a position as server-sent events: an "update"
+  // each time the analysis deepens, then "done" with the final one, or
+  // "failed" with a message. Closing the stream stops the analysis.
+  app.get("/api/ai/analyse", async (req: Request, res: Response) => {
+    let streaming = false;
+    const send = (event: string, data: unknown) => {
+      if (!streaming) {
+        res.status(200).set({
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          "Connection": "keep-alive"
+        });
+        res.flushHeaders();
+        streaming = true;
+      }
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      const request = analysisRequestSchema.parse(req.query);
+      const position = validatePosition(request.fen);
+      if (!position.ok) {
+        return res.status(400).json({ message: position.error });
+      }
+
+      const result = await enginePool.run(
+        { kind: "analyse", request },
+        requestSignal(res),
+        update => send("update", update)
+      );
+      send("done", result);
+      res.end();
+    } catch (error) {
+      if (error instanceof EngineCancelledError) return;
+      // Once the stream has started, errors have to go down it
+      if (streaming) {
+        send("failed", { message: "Error analysing position" });
+        res.end();
+      } else if (handleEngineError(res, error)) {
+        return;
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors });
+      } else {
+        res.status(500).json({ message: "Error analysing position" });
+      }
+    }
+  });
+
   // Create a puzzle for a game
-  app.post("/api/games/:id/puzzles", async (req: Request, res: Response) => {
+  app.post("/api/games/:id/puzzles", requireAuth, async (req: Request, res: Response) => {
     try {
       const gameId = parseInt(req.params.id);
       const game = await storage.getGame(gameId);
@@ -166,16 +377,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Game not found" });
       }
       
+      if (!canAccessGame(req, game)) {
+        return res.status(403).json({ message: "You do not have access to this game" });
+      }
+      
       const puzzleData = insertPuzzleSchema.parse({
         ...req.body,
         gameId
       });
+      await assertSetterTurn(game, "player");
+      
+      // Only store puzzles with a legal position and a forced mate in exactly mateIn
+      const validation = await enginePool.run({
+        kind: "validatePuzzle",
+        fen: puzzleData.fen,
+        mateIn: puzzleData.mateIn
+      }, requestSignal(res));
+      if (!validation.valid) {
+        return res.status(422).json({ message: validation.reason });
+      }
       
-      const puzzle = await storage.createPuzzle(puzzleData);
+      const puzzle = await storage.createPuzzle({
+        ...puzzleData,
+        solution: validation.solution.join(' '),
+        rating: initialPuzzleRating(puzzleData.mateIn)
+      });
       res.status(201).json(puzzle);
     } catch (error) {
+      if (handleEngineError(res, error)) return;
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: error.errors });
+      } else if (error instanceof ShootoutError) {
+        res.status(409).json({ message: error.message });
       } else {
         res.status(500).json({ message: "Internal server error" });
       }
@@ -183,7 +416,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get puzzles for a game
-  app.get("/api/games/:id/puzzles", async (req: Request, res: Response) => {
+  app.get("/api/games/:id/puzzles", requireAuth, async (req: Request, res: Response) => {
     try {
       const gameId = parseInt(req.params.id);
       const game = await storage.getGame(gameId);
@@ -192,47 +425,203 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Game not found" });
       }
       
+      if (!canAccessGame(req, game)) {
+        return res.status(403).json({ message: "You do not have access to this game" });
+      }
+      
       const puzzles = await storage.getPuzzlesByGameId(gameId);
-      res.status(200).json(puzzles);
+      res.status(200).json(puzzles.map(publicPuzzle));
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
+  // Get the Puzzle Shootout score and puzzles for a game
+  app.get("/api/games/:id/shootout", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const gameId = parseInt(req.params.id);
+      const game = await storage.getGame(gameId);
+      
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      
+      if (!canAccessGame(req, game)) {
+        return res.status(403).json({ message: "You do not have access to this game" });
+      }
+      
+      res.status(200).json(await getShootout(gameId));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Have the AI set its puzzle for the current shootout round
+  app.post("/api/games/:id/puzzles/generate", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const gameId = parseInt(req.params.id);
+      const game = await storage.getGame(gameId);
+      
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      
+      if (!canAccessGame(req, game)) {
+        return res.status(403).json({ message: "You do not have access to this game" });
+      }
+      
+      const { mateIn } = z.object({ mateIn: z.number().int().optional() }).parse(req.body ?? {});
+      const puzzle = await setAiPuzzle(game, mateIn, requestSignal(res));
+      res.status(201).json(puzzle);
+    } catch (error) {
+      if (handleEngineError(res, error)) return;
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors });
+      } else if (error instanceof ShootoutError) {
+        res.status(409).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Error generating puzzle" });
+      }
+    }
+  });
+
+  // Check the player's moves on an AI puzzle
+  app.post("/api/puzzles/:id/attempt", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const puzzleId = parseInt(req.params.id);
+      const puzzle = await storage.getPuzzle(puzzleId);
+      
+      if (!puzzle) {
+        return res.status(404).json({ message: "Puzzle not found" });
+      }
+      
+      const game = await storage.getGame(puzzle.gameId);
+      if (!game || !canAccessGame(req, game)) {
+        return res.status(403).json({ message: "You do not have access to this puzzle" });
+      }
+      
+      const { moves, gaveUp } = puzzleAttemptSchema.parse(req.body);
+      res.status(200).json(await attemptAiPuzzle(puzzle, moves, gaveUp, requestSignal(res)));
+    } catch (error) {
+      if (handleEngineError(res, error)) return;
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors });
+      } else if (error instanceof ShootoutError) {
+        res.status(409).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Error checking puzzle" });
+      }
+    }
+  });
+
   // Solve a puzzle with AI
-  app.post("/api/puzzles/:id/solve", async (req: Request, res: Response) => {
+  app.post("/api/puzzles/:id/solve", requireAuth, async (req: Request, res: Response) => {
     try {
       const puzzleId = parseInt(req.params.id);
-      const puzzle = await storage.getPuzzlesByGameId(1).then(
-        puzzles => puzzles.find(p => p.id === puzzleId)
-      );
+      const puzzle = await storage.getPuzzle(puzzleId);
       
       if (!puzzle) {
         return res.status(404).json({ message: "Puzzle not found" });
       }
       
-      const { timeLimit = 15000 } = req.body;
-      const solved = await solvePuzzle(puzzle.fen, puzzle.solution, puzzle.mateIn, timeLimit);
+      const game = await storage.getGame(puzzle.gameId);
+      if (!game || !canAccessGame(req, game)) {
+        return res.status(403).json({ message: "You do not have access to this puzzle" });
+      }
+      
+      if (puzzle.setter !== "player" || puzzle.aiSolved !== null) {
+        return res.status(409).json({ message: "This puzzle is not waiting for the AI" });
+      }
       
-      const updatedPuzzle = await storage.updatePuzzle(puzzleId, { aiSolved: solved });
-      res.status(200).json({ puzzle: updatedPuzzle, solved });
+      // The AI gets the same clock as the player
+      const result = await enginePool.run({
+        kind: "solve",
+        fen: puzzle.fen,
+        mateIn: puzzle.mateIn,
+        timeLimit: SHOOTOUT_SOLVE_TIME * 1000
+      }, requestSignal(res));
+      
+      // Keep the mating line the AI found as the puzzle's solution
+      const updatedPuzzle = await storage.updatePuzzle(puzzleId, { 
+        aiSolved: result.found,
+        solution: result.found ? result.line.join(' ') : puzzle.solution
+      });
+      const { standing } = await getShootout(puzzle.gameId);
+      res.status(200).json({ puzzle: updatedPuzzle, solved: result.found, standing, ...result });
     } catch (error) {
+      if (handleEngineError(res, error)) return;
       res.status(500).json({ message: "Error solving puzzle" });
     }
   });
   
-  // General puzzle solver endpoint (for direct use in the client-side app)
-  app.post("/api/puzzles/solve", async (req: Request, res: Response) => {
+  // Browse the puzzle bank
+  app.get("/api/puzzles", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { fen, solution, mateIn = 2, timeLimit = 15000 } = req.body;
+      const filter = puzzleFilterSchema.parse(req.query);
+      res.status(200).json(await listPuzzles(filter));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors });
+      } else {
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  });
+
+  // Pick the next trainer puzzle for the user, with their current rating
+  app.get("/api/puzzles/next", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const filter = puzzleFilterSchema.parse(req.query);
+      const puzzle = await nextPuzzle(req.user!, filter);
+      res.status(200).json({ puzzle, rating: Math.round(req.user!.puzzleRating) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors });
+      } else {
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  });
+
+  // Check the user's moves on a bank puzzle in the trainer
+  app.post("/api/puzzles/:id/train", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const puzzleId = parseInt(req.params.id);
+      const puzzle = await storage.getPuzzle(puzzleId);
       
-      if (!fen || !solution) {
-        return res.status(400).json({ message: "FEN string and solution are required" });
+      // Puzzles still in play in a shootout aren't in the bank yet
+      if (!puzzle || !isPuzzleSettled(puzzle)) {
+        return res.status(404).json({ message: "Puzzle not found" });
       }
       
-      const solved = await solvePuzzle(fen, solution, mateIn, timeLimit);
-      res.status(200).json({ solved });
+      const { moves, gaveUp } = puzzleAttemptSchema.parse(req.body);
+      res.status(200).json(await trainOnPuzzle(req.user!, puzzle, moves, gaveUp, requestSignal(res)));
+    } catch (error) {
+      if (handleEngineError(res, error)) return;
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors });
+      } else {
+        res.status(500).json({ message: "Error checking puzzle" });
+      }
+    }
+  });
+
+  // General puzzle solver endpoint (for direct use in the client-side app)
+  app.post("/api/puzzles/solve", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { fen, mateIn, timeLimit } = solvePuzzleRequestSchema.parse(req.body);
+      const position = validatePosition(fen);
+      if (!position.ok) {
+        return res.status(400).json({ message: position.error });
+      }
+
+      const result = await enginePool.run({ kind: "solve", fen, mateIn, timeLimit }, requestSignal(res));
+      res.status(200).json({ solved: result.found, ...result });
     } catch (error) {
+      if (handleEngineError(res, error)) return;
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
       res.status(500).json({ message: "Error solving puzzle" });
     }
   });
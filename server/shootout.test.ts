@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getShootoutStanding, isPuzzleSettled, SHOOTOUT_ROUNDS, type ShootoutPuzzle } from "@shared/shootout";
+
+// Puzzles for whole rounds in the order they're set: whether the player's
+// puzzle beat the AI, then whether the AI's beat the player
+function shootout(rounds: [boolean, boolean?][]): ShootoutPuzzle[] {
+  let id = 0;
+  return rounds.flatMap(([player, ai]) => {
+    const puzzles: ShootoutPuzzle[] = [{ id: ++id, setter: "player", aiSolved: !player, playerSolved: null }];
+    if (ai !== undefined) puzzles.push({ id: ++id, setter: "ai", aiSolved: null, playerSolved: !ai });
+    return puzzles;
+  });
+}
+
+test("the player sets first and the setter scores when the solver fails", () => {
+  assert.equal(getShootoutStanding([]).next, "player");
+
+  const standing = getShootoutStanding(shootout([[true, false], [false]]));
+  assert.equal(standing.playerScore, 1);
+  assert.equal(standing.aiScore, 0);
+  assert.deepEqual(standing.rounds, [{ round: 1, player: true, ai: false }, { round: 2, player: false, ai: null }]);
+  assert.equal(standing.next, "ai");
+  assert.equal(standing.winner, null);
+});
+
+test("nobody sets while a puzzle is being solved", () => {
+  const puzzle: ShootoutPuzzle = { id: 7, setter: "player", aiSolved: null, playerSolved: null };
+  assert.equal(isPuzzleSettled(puzzle), false);
+  assert.equal(isPuzzleSettled({ ...puzzle, aiSolved: true }), true);
+
+  const standing = getShootoutStanding([puzzle]);
+  assert.equal(standing.pending, 7);
+  assert.equal(standing.next, null);
+});
+
+test("the shootout ends early once one side can't catch up", () => {
+  const standing = getShootoutStanding(shootout([[true, false], [true, false], [true, false]]));
+  assert.equal(standing.winner, "player");
+  assert.equal(standing.next, null);
+  assert.equal(standing.rounds.length, 3);
+
+  // 0-2 with the AI still to set its third puzzle isn't over yet
+  assert.equal(getShootoutStanding(shootout([[false, true], [false, true], [false]])).winner, null);
+});
+
+test("a level score after the regular rounds goes to sudden death", () => {
+  const level = Array.from({ length: SHOOTOUT_ROUNDS }, (): [boolean, boolean] => [true, true]);
+  const standing = getShootoutStanding(shootout(level));
+  assert.equal(standing.suddenDeath, true);
+  assert.equal(standing.winner, null);
+  assert.equal(standing.next, "player");
+
+  // Sudden death is only decided by a completed round
+  const halfRound = getShootoutStanding(shootout([...level, [true]]));
+  assert.equal(halfRound.winner, null);
+  assert.equal(halfRound.next, "ai");
+
+  const decided = getShootoutStanding(shootout([...level, [false, true]]));
+  assert.equal(decided.winner, "ai");
+  assert.equal(decided.suddenDeath, false);
+});
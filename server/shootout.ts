@@ -0,0 +1,158 @@
+// Server-side Puzzle Shootout flow. The server keeps the score: it decides
+// whose turn it is to set a puzzle, generates the AI's puzzles and checks the
+// player's answers against the clock, so AI solutions never reach the client
+// until they have been played.
+
+import type { Difficulty, Game, Puzzle } from "@shared/schema";
+import { replayHukumGame } from "@shared/hukum";
+import {
+  getShootoutStanding,
+  SHOOTOUT_MATE_IN,
+  SHOOTOUT_SOLVE_TIME,
+  type ShootoutStanding
+} from "@shared/shootout";
+import { enginePool } from "./enginePool";
+import {
+  MAX_PUZZLE_MATE_IN,
+  PUZZLE_GENERATION_TIME_LIMIT,
+  type PuzzleAttempt
+} from "./puzzles";
+import { initialPuzzleRating } from "./ratings";
+import { storage } from "./storage";
+
+// Raised when a shootout action is out of turn or no longer possible
+export class ShootoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShootoutError";
+  }
+}
+
+// Completed games whose positions are mined for AI puzzles
+const MINED_GAME_COUNT = 20;
+
+// Time for a shorter mate when the requested one couldn't be found
+const FALLBACK_GENERATION_TIME_LIMIT = 3000;
+
+// Slack for the request's round trip when checking the player's clock
+const CLOCK_GRACE_MS = 2000;
+
+export interface Shootout {
+  standing: ShootoutStanding;
+  puzzles: Puzzle[];
+}
+
+export interface PuzzleAttemptResult {
+  attempt: PuzzleAttempt;
+  puzzle: Puzzle;
+  standing: ShootoutStanding;
+}
+
+// Hide the solution of an AI puzzle while the player is still on it
+export function publicPuzzle(puzzle: Puzzle): Puzzle {
+  return puzzle.setter === "ai" && puzzle.playerSolved === null ? { ...puzzle, solution: "" } : puzzle;
+}
+
+export async function getShootout(gameId: number): Promise<Shootout> {
+  const puzzles = await storage.getPuzzlesByGameId(gameId);
+  return {
+    standing: getShootoutStanding(puzzles),
+    puzzles: puzzles.map(publicPuzzle)
+  };
+}
+
+// Make sure the game went to a shootout and it's this side's turn to set a puzzle
+export async function assertSetterTurn(game: Game, setter: "player" | "ai"): Promise<void> {
+  if (game.status !== "tie") {
+    throw new ShootoutError("Only tied games go to a Puzzle Shootout");
+  }
+
+  const { standing } = await getShootout(game.id);
+  if (standing.winner) {
+    throw new ShootoutError("The shootout is already decided");
+  }
+  if (standing.next !== setter) {
+    throw new ShootoutError(setter === "player" ? "It's not your turn to set a puzzle" : "It's not the AI's turn to set a puzzle");
+  }
+}
+
+// Positions from recently finished games, as candidates for AI puzzles
+async function minedPositions(): Promise<string[]> {
+  const positions: string[] = [];
+  for (const game of await storage.getCompletedGames(MINED_GAME_COUNT)) {
+    try {
+      const moves = await storage.getMoveHistoryByGameId(game.id);
+      positions.push(...replayHukumGame(game, moves).map(ply => ply.fen));
+    } catch (error) {
+      // Old games whose history no longer replays are simply skipped
+    }
+  }
+  return Array.from(new Set(positions));
+}
+
+// Have the AI set its puzzle for the round. The player's clock starts as soon
+// as it is stored.
+export async function setAiPuzzle(game: Game, mateIn?: number, signal?: AbortSignal): Promise<Puzzle> {
+  await assertSetterTurn(game, "ai");
+
+  const target = Math.min(Math.max(1, mateIn ?? SHOOTOUT_MATE_IN[game.difficulty as Difficulty] ?? 2), MAX_PUZZLE_MATE_IN);
+  const used = new Set((await storage.getPuzzlesByGameId(game.id)).map(puzzle => puzzle.fen));
+  const positions = (await minedPositions()).filter(fen => !used.has(fen));
+
+  // Fall back to shorter mates rather than stall the shootout
+  for (let n = target; n >= 1; n--) {
+    const generated = await enginePool.run({
+      kind: "generatePuzzle",
+      mateIn: n,
+      positions,
+      timeLimit: n === target ? PUZZLE_GENERATION_TIME_LIMIT : FALLBACK_GENERATION_TIME_LIMIT
+    }, signal);
+    if (generated && !used.has(generated.fen)) {
+      const puzzle = await storage.createPuzzle({
+        gameId: game.id,
+        fen: generated.fen,
+        solution: generated.solution.join(' '),
+        mateIn: generated.mateIn,
+        setter: "ai",
+        presentedAt: new Date(),
+        rating: initialPuzzleRating(generated.mateIn)
+      });
+      return publicPuzzle(puzzle);
+    }
+  }
+
+  throw new ShootoutError("The AI couldn't come up with a puzzle in time; try again");
+}
+
+// Check the player's moves on an AI puzzle. A finished attempt, one the
+// player gave up on, or one that arrives after the clock ran out settles the
+// puzzle. The check runs in the engine pool; aborting the signal drops it.
+export async function attemptAiPuzzle(
+  puzzle: Puzzle,
+  moves: string[],
+  gaveUp: boolean = false,
+  signal?: AbortSignal
+): Promise<PuzzleAttemptResult> {
+  if (puzzle.setter !== "ai") {
+    throw new ShootoutError("Only the AI's puzzles are solved by the player");
+  }
+  if (puzzle.playerSolved !== null) {
+    throw new ShootoutError("This puzzle has already been played");
+  }
+
+  const deadline = (puzzle.presentedAt ? new Date(puzzle.presentedAt).getTime() : Date.now()) + SHOOTOUT_SOLVE_TIME * 1000;
+  let attempt: PuzzleAttempt = Date.now() > deadline + CLOCK_GRACE_MS
+    ? { status: "failed", fen: puzzle.fen, reason: "Time's up" }
+    : await enginePool.run({ kind: "checkAttempt", fen: puzzle.fen, mateIn: puzzle.mateIn, moves }, signal);
+  if (gaveUp && (attempt.status === "continue" || attempt.status === "unverified")) {
+    attempt = { status: "failed", fen: attempt.fen, reason: "Time's up" };
+  }
+
+  let updatedPuzzle = puzzle;
+  if (attempt.status === "solved" || attempt.status === "failed") {
+    updatedPuzzle = (await storage.updatePuzzle(puzzle.id, { playerSolved: attempt.status === "solved" })) ?? puzzle;
+  }
+
+  const { standing } = await getShootout(puzzle.gameId);
+  return { attempt, puzzle: publicPuzzle(updatedPuzzle), standing };
+}
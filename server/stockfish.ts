@@ -1,187 +1,94 @@
-// Simple chess AI implementation for Hukum Chess
-// This is a direct implementation that doesn't use Stockfish
+// Engine entry points for the server. The built-in engine lives in
+// shared/engine so the browser can run it offline. When UCI_ENGINE_PATH
+// points at a UCI engine such as Stockfish, profiles marked external use it
+// instead, and fall back to the built-in engine whenever it can't answer.
 
-import { Chess, PieceSymbol, Color, Square } from 'chess.js';
+import { Chess } from 'chess.js';
+import { getHukumMoves, moveNumbersFromFen } from '@shared/hukum';
+import {
+  evaluateBoard,
+  getBuiltInMove,
+  getEngineProfile,
+  MATE_SCORE,
+  type EngineMoveOptions
+} from '@shared/engine';
+import { toUci } from '@shared/search';
+import { findForcedMate, type MateSearchResult } from './puzzles';
+import { getUciEngine, type UciScore } from './uci';
 
-// Piece values for evaluation
-const PIECE_VALUES: { [key: string]: number } = {
-  p: 1,  // pawn
-  n: 3,  // knight
-  b: 3,  // bishop
-  r: 5,  // rook
-  q: 9,  // queen
-  k: 0   // king (not counted for material)
-};
+export type { EngineMoveOptions } from '@shared/engine';
 
-// Square values for piece positioning (center control is good)
-const SQUARE_VALUES: number[][] = [
-  [0, 0, 0, 0, 0, 0, 0, 0],
-  [0, 0.1, 0.2, 0.2, 0.2, 0.2, 0.1, 0],
-  [0, 0.2, 0.3, 0.4, 0.4, 0.3, 0.2, 0],
-  [0, 0.2, 0.4, 0.5, 0.5, 0.4, 0.2, 0],
-  [0, 0.2, 0.4, 0.5, 0.5, 0.4, 0.2, 0],
-  [0, 0.2, 0.3, 0.4, 0.4, 0.3, 0.2, 0],
-  [0, 0.1, 0.2, 0.2, 0.2, 0.2, 0.1, 0],
-  [0, 0, 0, 0, 0, 0, 0, 0]
-];
+// Generate a move for the AI. A difficulty overrides depth and timeLimit with its profile.
+export async function getStockfishMove(fen: string, depth: number = 3, timeLimit: number = 1000, options: EngineMoveOptions = {}): Promise<string> {
+  const profile = getEngineProfile(depth, timeLimit, options.difficulty);
 
-// Additional bonus for captures
-const CAPTURE_BONUS = 0.5;
+  if (profile.external && !options.search) {
+    const chess = new Chess(fen);
+    const moveNumbers = options.moveNumbers ?? moveNumbersFromFen(chess);
+    const move = await getExternalMove(fen, getHukumMoves(chess, moveNumbers[chess.turn()]).map(toUci), profile.timeLimit);
+    if (move) {
+      return move;
+    }
+  }
 
-// Generate a move for the AI
-export async function getStockfishMove(fen: string, depth: number = 3, timeLimit: number = 1000): Promise<string> {
-  const chess = new Chess(fen);
-  const color = chess.turn();
-  
-  // For Hukum Chess, we prioritize captures and material advantage
-  // Since this is a 6-move game
-  const bestMove = findBestMove(chess, depth, color);
-  
-  // Return the move in UCI format (e.g., "e2e4")
-  return bestMove;
+  return getBuiltInMove(fen, depth, timeLimit, options);
 }
 
-// Evaluate a position
+// Evaluate a position, in pawns from white's point of view
 export async function evaluatePosition(fen: string, depth: number = 2): Promise<number> {
   const chess = new Chess(fen);
-  return evaluateBoard(chess);
+  const external = await getExternalEvaluation(fen, depth);
+  return external ?? evaluateBoard(chess);
 }
 
-// Attempt to solve a puzzle
-export async function solvePuzzle(fen: string, solution: string, mateIn: number, timeLimit: number = 15000): Promise<boolean> {
+// Time the external engine gets for an evaluation
+const EXTERNAL_EVALUATION_TIME_LIMIT = 1000;
+
+// Ask the UCI engine for its move, limited to the Hukum-legal moves. null
+// when no engine is configured, it fails, or it answers with anything else.
+async function getExternalMove(fen: string, legalMoves: string[], timeLimit: number): Promise<string | null> {
+  const engine = getUciEngine();
+  if (!engine || legalMoves.length === 0) {
+    return null;
+  }
+
   try {
-    const chess = new Chess(fen);
-    
-    // Try to find the best move
-    const bestMove = findBestMove(chess, Math.min(mateIn * 2, 3), chess.turn());
-    
-    // Check if the move matches any solution move
-    const solutionMoves = solution.split(' ');
-    return solutionMoves.includes(bestMove);
+    const { bestMove } = await engine.search(fen, { movetime: timeLimit, searchMoves: legalMoves });
+    return legalMoves.includes(bestMove) ? bestMove : null;
   } catch (error) {
-    console.error('Error solving puzzle:', error);
-    return false;
+    return null;
   }
 }
 
-// Find the best move using minimax algorithm
-function findBestMove(chess: Chess, depth: number, playerColor: Color): string {
-  let bestMove = '';
-  let bestScore = playerColor === 'w' ? -Infinity : Infinity;
-  const moves = chess.moves({ verbose: true });
-  
-  // Sort moves to prioritize captures for better pruning
-  moves.sort((a, b) => {
-    const aCapture = a.captured ? 1 : 0;
-    const bCapture = b.captured ? 1 : 0;
-    return bCapture - aCapture;
-  });
-  
-  for (const move of moves) {
-    // Make move
-    chess.move(move);
-    
-    // Evaluate position
-    const score = minimax(chess, depth - 1, -Infinity, Infinity, playerColor === 'w' ? false : true);
-    
-    // Undo move
-    chess.undo();
-    
-    // Update best move
-    if ((playerColor === 'w' && score > bestScore) || (playerColor === 'b' && score < bestScore)) {
-      bestScore = score;
-      bestMove = move.from + move.to + (move.promotion || '');
-    }
+// The UCI engine's evaluation in pawns from white's point of view, or null
+// when it isn't available
+async function getExternalEvaluation(fen: string, depth: number): Promise<number | null> {
+  const engine = getUciEngine();
+  if (!engine) {
+    return null;
   }
-  
-  // If no best move found (unlikely), return the first legal move
-  if (!bestMove && moves.length > 0) {
-    const firstMove = moves[0];
-    bestMove = firstMove.from + firstMove.to + (firstMove.promotion || '');
-  }
-  
-  return bestMove;
-}
 
-// Minimax algorithm with alpha-beta pruning
-function minimax(chess: Chess, depth: number, alpha: number, beta: number, isMaximizing: boolean): number {
-  // Base case: if depth is 0 or game is over, evaluate the position
-  if (depth === 0 || chess.isGameOver()) {
-    return evaluateBoard(chess);
-  }
-  
-  const moves = chess.moves({ verbose: true });
-  
-  if (isMaximizing) {
-    let maxScore = -Infinity;
-    for (const move of moves) {
-      chess.move(move);
-      const score = minimax(chess, depth - 1, alpha, beta, false);
-      chess.undo();
-      maxScore = Math.max(maxScore, score);
-      alpha = Math.max(alpha, score);
-      if (beta <= alpha) break; // Alpha-beta pruning
-    }
-    return maxScore;
-  } else {
-    let minScore = Infinity;
-    for (const move of moves) {
-      chess.move(move);
-      const score = minimax(chess, depth - 1, alpha, beta, true);
-      chess.undo();
-      minScore = Math.min(minScore, score);
-      beta = Math.min(beta, score);
-      if (beta <= alpha) break; // Alpha-beta pruning
+  try {
+    const { info } = await engine.search(fen, { depth, movetime: EXTERNAL_EVALUATION_TIME_LIMIT });
+    if (!info.score) {
+      return null;
     }
-    return minScore;
+    return (fen.split(' ')[1] === 'b' ? -1 : 1) * uciScoreToPawns(info.score);
+  } catch (error) {
+    return null;
   }
 }
 
-// Evaluate the board position
-function evaluateBoard(chess: Chess): number {
-  // If game is over, return large score
-  if (chess.isCheckmate()) {
-    return chess.turn() === 'w' ? -1000 : 1000;
-  }
-  
-  if (chess.isDraw()) {
-    return 0;
+// A UCI score in pawns, mates counted like the built-in search's
+function uciScoreToPawns(score: UciScore): number {
+  if (score.type === 'cp') {
+    return score.value / 100;
   }
-  
-  // Evaluate material for both sides
-  let score = 0;
-  
-  // Get all pieces on the board
-  const squares = chess.board();
-  
-  for (let i = 0; i < 8; i++) {
-    for (let j = 0; j < 8; j++) {
-      const piece = squares[i][j];
-      if (piece) {
-        // Material value
-        const value = PIECE_VALUES[piece.type] * (piece.color === 'w' ? 1 : -1);
-        
-        // Position value - encourage controlling the center and development
-        const positionValue = SQUARE_VALUES[piece.color === 'w' ? i : 7 - i][j] * (piece.color === 'w' ? 0.2 : -0.2);
-        
-        score += value + positionValue;
-      }
-    }
-  }
-  
-  // Add a small random factor to avoid repetitive play
-  score += (Math.random() * 0.2 - 0.1);
-  
-  // For Hukum Chess, prioritize material advantage and captures in the 6-move limit
-  // by giving a bonus for capturing high-value pieces
-  const history = chess.history({ verbose: true });
-  if (history.length > 0) {
-    const lastMove = history[history.length - 1];
-    if (lastMove.captured) {
-      const captureValue = PIECE_VALUES[lastMove.captured] * (lastMove.color === 'w' ? 1 : -1);
-      score += captureValue * CAPTURE_BONUS * (lastMove.color === 'w' ? 1 : -1);
-    }
-  }
-  
-  return score;
+  // "mate 0" or less: the side to move is the one being mated
+  return (score.value > 0 ? 1 : -1) * (MATE_SCORE - Math.abs(score.value));
+}
+
+// Attempt to solve a puzzle: the AI solves it only if it proves a forced mate
+export async function solvePuzzle(fen: string, mateIn: number, timeLimit: number = 15000): Promise<MateSearchResult> {
+  return findForcedMate(fen, mateIn, timeLimit);
 }
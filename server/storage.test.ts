@@ -0,0 +1,136 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import session from "express-session";
+import * as schema from "@shared/schema";
+import { DatabaseStorage, MemStorage, type IStorage } from "./storage";
+
+const MIGRATIONS = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../migrations");
+const START_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+
+interface Backend {
+  storage: IStorage;
+  close(): Promise<void>;
+}
+
+// Both backends answer the same suite. Postgres runs in-process through
+// PGlite, built from the migrations so they're checked against the schema too.
+const backends: Record<string, () => Promise<Backend>> = {
+  memory: async () => ({ storage: new MemStorage(), close: async () => {} }),
+  postgres: async () => {
+    const client = new PGlite();
+    const db = drizzle({ client, schema });
+    await migrate(db, { migrationsFolder: MIGRATIONS });
+    return { storage: new DatabaseStorage(db, new session.MemoryStore()), close: () => client.close() };
+  }
+};
+
+for (const [name, open] of Object.entries(backends)) {
+  describe(`${name} storage`, () => {
+    let backend: Backend;
+    let storage: IStorage;
+    let ownerId: number;
+
+    before(async () => {
+      backend = await open();
+      storage = backend.storage;
+      ownerId = (await storage.createUser({ username: "alice", password: "hashed" })).id;
+    });
+    after(() => backend.close());
+
+    test("users start with a provisional puzzle rating", async () => {
+      const user = await storage.getUserByUsername("alice");
+      assert.equal(user?.id, ownerId);
+      assert.equal(user?.puzzleRating, 1500);
+      assert.equal(user?.puzzleRatingDeviation, 350);
+
+      const updated = await storage.updateUser(ownerId, { puzzleRating: 1540 });
+      assert.equal(updated?.puzzleRating, 1540);
+      assert.equal(await storage.getUserByUsername("nobody"), undefined);
+      assert.equal(await storage.updateUser(9999, { puzzleRating: 1 }), undefined);
+    });
+
+    test("games start in progress from their starting position", async () => {
+      const game = await storage.createGame({ ownerId, playerSide: "white", playerRole: "player1", fen: START_FEN, roomCode: "ABCD" });
+      assert.equal(game.status, "in_progress");
+      assert.equal(game.startFen, START_FEN);
+      assert.equal(game.mode, "ai");
+      assert.equal(game.difficulty, "grandmaster");
+      assert.equal(game.opponentId, null);
+      assert.deepEqual([game.playerScore, game.aiScore, game.playerMoves, game.aiMoves], [0, 0, 0, 0]);
+      assert.deepEqual([game.playerFreeHit, game.aiFreeHit], [false, false]);
+
+      assert.equal((await storage.getGameByRoomCode("ABCD"))?.id, game.id);
+      assert.equal(await storage.getGameByRoomCode("ZZZZ"), undefined);
+      assert.equal(await storage.updateGame(9999, { status: "tie" }), undefined);
+    });
+
+    test("finished games are listed newest first and leave the games in progress", async () => {
+      const created = [];
+      for (let i = 0; i < 3; i++) {
+        created.push(await storage.createGame({ ownerId, playerSide: "black", playerRole: "player2", fen: START_FEN }));
+      }
+      const [first, second] = created;
+      const finished = await storage.updateGame(first.id, { status: "player_win", playerScore: 4 });
+      assert.equal(finished?.playerScore, 4);
+      await storage.updateGame(second.id, { status: "tie" });
+
+      assert.deepEqual((await storage.getCompletedGames(10)).map(game => game.id), [second.id, first.id]);
+      assert.deepEqual((await storage.getCompletedGames(1)).map(game => game.id), [second.id]);
+      const inProgress = (await storage.getGamesInProgress()).map(game => game.id);
+      assert.ok(inProgress.includes(created[2].id));
+      assert.ok(!inProgress.includes(first.id));
+    });
+
+    test("a game's moves come back in the order they were played", async () => {
+      const game = await storage.createGame({ ownerId, playerSide: "white", playerRole: "player1", fen: START_FEN });
+      const other = await storage.createGame({ ownerId, playerSide: "white", playerRole: "player1", fen: START_FEN });
+      await storage.createMoveHistory({ gameId: game.id, move: "e7e5", isPlayer: false, moveNumber: 2 });
+      await storage.createMoveHistory({ gameId: other.id, move: "d2d4", isPlayer: true, moveNumber: 1 });
+      const first = await storage.createMoveHistory({ gameId: game.id, move: "e2e4", isPlayer: true, moveNumber: 1 });
+      assert.equal(first.points, 0);
+      assert.equal(first.capturedPiece, null);
+      assert.equal(first.freeHit, false);
+
+      const moves = await storage.getMoveHistoryByGameId(game.id);
+      assert.deepEqual(moves.map(move => move.move), ["e2e4", "e7e5"]);
+    });
+
+    test("only settled puzzles reach the bank, newest first", async () => {
+      const game = await storage.createGame({ ownerId, playerSide: "white", playerRole: "player1", fen: START_FEN });
+      const fen = "6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1";
+      const mine = await storage.createPuzzle({ gameId: game.id, fen, solution: "a1a8", mateIn: 1 });
+      const theirs = await storage.createPuzzle({ gameId: game.id, fen, solution: "a1a8", mateIn: 2, setter: "ai", rating: 1700 });
+      const unsettled = await storage.createPuzzle({ gameId: game.id, fen, solution: "a1a8", mateIn: 1 });
+      assert.equal(mine.setter, "player");
+      assert.equal(mine.aiSolved, null);
+      assert.equal(mine.rating, 1500);
+
+      await storage.updatePuzzle(mine.id, { aiSolved: true });
+      await storage.updatePuzzle(theirs.id, { playerSolved: false });
+      assert.equal((await storage.getPuzzle(unsettled.id))?.aiSolved, null);
+      assert.equal((await storage.getPuzzlesByGameId(game.id)).length, 3);
+
+      assert.deepEqual((await storage.getPuzzles({})).map(puzzle => puzzle.id), [theirs.id, mine.id]);
+      assert.deepEqual((await storage.getPuzzles({ source: "player" })).map(puzzle => puzzle.id), [mine.id]);
+      assert.deepEqual((await storage.getPuzzles({ mateIn: 2 })).map(puzzle => puzzle.id), [theirs.id]);
+      assert.deepEqual((await storage.getPuzzles({ minRating: 1600 })).map(puzzle => puzzle.id), [theirs.id]);
+      assert.deepEqual((await storage.getPuzzles({ limit: 1 })).map(puzzle => puzzle.id), [theirs.id]);
+    });
+
+    test("puzzle plays are kept per user", async () => {
+      const game = await storage.createGame({ ownerId, playerSide: "white", playerRole: "player1", fen: START_FEN });
+      const puzzle = await storage.createPuzzle({ gameId: game.id, fen: START_FEN, solution: "e2e4", mateIn: 1 });
+      const play = await storage.createPuzzlePlay({ puzzleId: puzzle.id, userId: ownerId, solved: true, rated: true });
+      assert.equal(play.ratingChange, 0);
+      assert.ok(play.createdAt instanceof Date);
+
+      assert.deepEqual((await storage.getPuzzlePlaysByUserId(ownerId)).map(p => p.id), [play.id]);
+      assert.deepEqual(await storage.getPuzzlePlaysByUserId(ownerId + 1), []);
+    });
+  });
+}
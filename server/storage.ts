@@ -2,18 +2,46 @@ import {
   users, type User, type InsertUser,
   games, type Game, type InsertGame,
   moveHistory, type MoveHistory, type InsertMoveHistory,
-  puzzles, type Puzzle, type InsertPuzzle
+  puzzles, type Puzzle, type InsertPuzzle,
+  puzzlePlays, type PuzzlePlay, type InsertPuzzlePlay,
+  type PuzzleFilter
 } from "@shared/schema";
+import { and, asc, desc, eq, gte, isNotNull, lte, ne, or, type SQL } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { isPuzzleSettled } from "@shared/shootout";
+import { createDatabase, createPool, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// Games created by the server also set these
+// New games always have an owner; only games from before accounts lack one
+export type NewGame = Omit<InsertGame, "mode"> & { ownerId: number } & Partial<Pick<Game, "mode" | "roomCode" | "turnStartedAt">>;
+
+// Puzzles set by the AI also say so, and start the solver's clock
+export type NewPuzzle = InsertPuzzle & Partial<Pick<Puzzle, "setter" | "presentedAt" | "rating" | "ratingDeviation">>;
+
+// Puzzles listed by getPuzzles when no limit is given
+const DEFAULT_PUZZLE_LIMIT = 50;
 
 export interface IStorage {
+  // Where login sessions are kept
+  sessionStore: session.Store;
+
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, updates: Partial<User>): Promise<User | undefined>;
 
   // Game methods
-  createGame(game: InsertGame): Promise<Game>;
+  createGame(game: NewGame): Promise<Game>;
   getGame(id: number): Promise<Game | undefined>;
+  getGameByRoomCode(roomCode: string): Promise<Game | undefined>;
+  getGamesInProgress(): Promise<Game[]>;
+  getCompletedGames(limit: number): Promise<Game[]>;
   updateGame(id: number, updates: Partial<Game>): Promise<Game | undefined>;
   
   // Move history methods
@@ -21,9 +49,16 @@ export interface IStorage {
   getMoveHistoryByGameId(gameId: number): Promise<MoveHistory[]>;
   
   // Puzzle methods
-  createPuzzle(puzzle: InsertPuzzle): Promise<Puzzle>;
+  createPuzzle(puzzle: NewPuzzle): Promise<Puzzle>;
+  getPuzzle(id: number): Promise<Puzzle | undefined>;
   getPuzzlesByGameId(gameId: number): Promise<Puzzle[]>;
   updatePuzzle(id: number, updates: Partial<Puzzle>): Promise<Puzzle | undefined>;
+  // Settled puzzles in the bank, newest first
+  getPuzzles(filter: PuzzleFilter): Promise<Puzzle[]>;
+
+  // Puzzle trainer methods
+  createPuzzlePlay(play: InsertPuzzlePlay): Promise<PuzzlePlay>;
+  getPuzzlePlaysByUserId(userId: number): Promise<PuzzlePlay[]>;
 }
 
 export class MemStorage implements IStorage {
@@ -31,20 +66,28 @@ export class MemStorage implements IStorage {
   private games: Map<number, Game>;
   private moves: Map<number, MoveHistory>;
   private puzzles: Map<number, Puzzle>;
+  private puzzlePlays: Map<number, PuzzlePlay>;
   private currentUserId: number;
   private currentGameId: number;
   private currentMoveId: number;
   private currentPuzzleId: number;
+  private currentPuzzlePlayId: number;
+  sessionStore: session.Store;
 
   constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000 // prune expired sessions every 24h
+    });
     this.users = new Map();
     this.games = new Map();
     this.moves = new Map();
     this.puzzles = new Map();
+    this.puzzlePlays = new Map();
     this.currentUserId = 1;
     this.currentGameId = 1;
     this.currentMoveId = 1;
     this.currentPuzzleId = 1;
+    this.currentPuzzlePlayId = 1;
   }
 
   // User methods
@@ -60,18 +103,36 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentUserId++;
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, id, puzzleRating: 1500, puzzleRatingDeviation: 350 };
     this.users.set(id, user);
     return user;
   }
 
+  async updateUser(id: number, updates: Partial<User>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updatedUser = { ...user, ...updates };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
   // Game methods
-  async createGame(insertGame: InsertGame): Promise<Game> {
+  async createGame(insertGame: NewGame): Promise<Game> {
     const id = this.currentGameId++;
     const now = new Date();
     const game: Game = { 
       ...insertGame, 
       id, 
+      difficulty: insertGame.difficulty ?? "grandmaster",
+      mode: insertGame.mode ?? "ai",
+      status: "in_progress",
+      startFen: insertGame.fen,
+      opponentId: null,
+      roomCode: insertGame.roomCode ?? null,
+      turnStartedAt: insertGame.turnStartedAt ?? null,
+      playerFreeHit: false,
+      aiFreeHit: false,
       playerScore: 0, 
       aiScore: 0, 
       playerMoves: 0, 
@@ -86,6 +147,25 @@ export class MemStorage implements IStorage {
     return this.games.get(id);
   }
 
+  async getGameByRoomCode(roomCode: string): Promise<Game | undefined> {
+    return Array.from(this.games.values()).find(
+      (game) => game.roomCode === roomCode,
+    );
+  }
+
+  async getGamesInProgress(): Promise<Game[]> {
+    return Array.from(this.games.values()).filter(
+      (game) => game.status === "in_progress",
+    );
+  }
+
+  async getCompletedGames(limit: number): Promise<Game[]> {
+    return Array.from(this.games.values())
+      .filter(game => game.status !== "in_progress")
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
   async updateGame(id: number, updates: Partial<Game>): Promise<Game | undefined> {
     const game = this.games.get(id);
     if (!game) return undefined;
@@ -98,7 +178,13 @@ export class MemStorage implements IStorage {
   // Move history methods
   async createMoveHistory(insertMove: InsertMoveHistory): Promise<MoveHistory> {
     const id = this.currentMoveId++;
-    const move: MoveHistory = { ...insertMove, id };
+    const move: MoveHistory = { 
+      ...insertMove, 
+      id, 
+      capturedPiece: insertMove.capturedPiece ?? null, 
+      points: insertMove.points ?? 0,
+      freeHit: insertMove.freeHit ?? false
+    };
     this.moves.set(id, move);
     return move;
   }
@@ -110,13 +196,26 @@ export class MemStorage implements IStorage {
   }
 
   // Puzzle methods
-  async createPuzzle(insertPuzzle: InsertPuzzle): Promise<Puzzle> {
+  async createPuzzle(insertPuzzle: NewPuzzle): Promise<Puzzle> {
     const id = this.currentPuzzleId++;
-    const puzzle: Puzzle = { ...insertPuzzle, id, aiSolved: false };
+    const puzzle: Puzzle = {
+      ...insertPuzzle,
+      id,
+      setter: insertPuzzle.setter ?? "player",
+      aiSolved: null,
+      playerSolved: null,
+      presentedAt: insertPuzzle.presentedAt ?? null,
+      rating: insertPuzzle.rating ?? 1500,
+      ratingDeviation: insertPuzzle.ratingDeviation ?? 350
+    };
     this.puzzles.set(id, puzzle);
     return puzzle;
   }
 
+  async getPuzzle(id: number): Promise<Puzzle | undefined> {
+    return this.puzzles.get(id);
+  }
+
   async getPuzzlesByGameId(gameId: number): Promise<Puzzle[]> {
     return Array.from(this.puzzles.values())
       .filter(puzzle => puzzle.gameId === gameId);
@@ -130,6 +229,181 @@ export class MemStorage implements IStorage {
     this.puzzles.set(id, updatedPuzzle);
     return updatedPuzzle;
   }
+
+  async getPuzzles(filter: PuzzleFilter): Promise<Puzzle[]> {
+    return Array.from(this.puzzles.values())
+      .filter(puzzle => isPuzzleSettled(puzzle)
+        && (filter.mateIn === undefined || puzzle.mateIn === filter.mateIn)
+        && (filter.minRating === undefined || puzzle.rating >= filter.minRating)
+        && (filter.maxRating === undefined || puzzle.rating <= filter.maxRating)
+        && (filter.source === undefined || puzzle.setter === filter.source))
+      .sort((a, b) => b.id - a.id)
+      .slice(0, filter.limit ?? DEFAULT_PUZZLE_LIMIT);
+  }
+
+  // Puzzle trainer methods
+  async createPuzzlePlay(insertPlay: InsertPuzzlePlay): Promise<PuzzlePlay> {
+    const id = this.currentPuzzlePlayId++;
+    const play: PuzzlePlay = {
+      ...insertPlay,
+      id,
+      ratingChange: insertPlay.ratingChange ?? 0,
+      createdAt: new Date()
+    };
+    this.puzzlePlays.set(id, play);
+    return play;
+  }
+
+  async getPuzzlePlaysByUserId(userId: number): Promise<PuzzlePlay[]> {
+    return Array.from(this.puzzlePlays.values())
+      .filter(play => play.userId === userId);
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private readonly db: Database, public readonly sessionStore: session.Store) {}
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: number, updates: Partial<User>): Promise<User | undefined> {
+    const { id: _id, ...changes } = updates;
+    const [user] = await this.db.update(users).set(changes).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  // Game methods
+  async createGame(insertGame: NewGame): Promise<Game> {
+    const [game] = await this.db.insert(games).values({ ...insertGame, status: "in_progress", startFen: insertGame.fen }).returning();
+    return game;
+  }
+
+  async getGame(id: number): Promise<Game | undefined> {
+    const [game] = await this.db.select().from(games).where(eq(games.id, id));
+    return game;
+  }
+
+  async getGameByRoomCode(roomCode: string): Promise<Game | undefined> {
+    const [game] = await this.db.select().from(games).where(eq(games.roomCode, roomCode));
+    return game;
+  }
+
+  async getGamesInProgress(): Promise<Game[]> {
+    return this.db.select().from(games).where(eq(games.status, "in_progress"));
+  }
+
+  async getCompletedGames(limit: number): Promise<Game[]> {
+    return this.db.select().from(games)
+      .where(ne(games.status, "in_progress"))
+      .orderBy(desc(games.id))
+      .limit(limit);
+  }
+
+  async updateGame(id: number, updates: Partial<Game>): Promise<Game | undefined> {
+    const { id: _id, ...changes } = updates;
+    const [game] = await this.db.update(games).set(changes).where(eq(games.id, id)).returning();
+    return game;
+  }
+
+  // Move history methods
+  async createMoveHistory(insertMove: InsertMoveHistory): Promise<MoveHistory> {
+    const [move] = await this.db.insert(moveHistory).values(insertMove).returning();
+    return move;
+  }
+
+  async getMoveHistoryByGameId(gameId: number): Promise<MoveHistory[]> {
+    return this.db.select().from(moveHistory)
+      .where(eq(moveHistory.gameId, gameId))
+      .orderBy(asc(moveHistory.moveNumber), asc(moveHistory.id));
+  }
+
+  // Puzzle methods
+  async createPuzzle(insertPuzzle: NewPuzzle): Promise<Puzzle> {
+    const [puzzle] = await this.db.insert(puzzles).values(insertPuzzle).returning();
+    return puzzle;
+  }
+
+  async getPuzzle(id: number): Promise<Puzzle | undefined> {
+    const [puzzle] = await this.db.select().from(puzzles).where(eq(puzzles.id, id));
+    return puzzle;
+  }
+
+  async getPuzzlesByGameId(gameId: number): Promise<Puzzle[]> {
+    return this.db.select().from(puzzles)
+      .where(eq(puzzles.gameId, gameId))
+      .orderBy(asc(puzzles.id));
+  }
+
+  async updatePuzzle(id: number, updates: Partial<Puzzle>): Promise<Puzzle | undefined> {
+    const { id: _id, ...changes } = updates;
+    const [puzzle] = await this.db.update(puzzles).set(changes).where(eq(puzzles.id, id)).returning();
+    return puzzle;
+  }
+
+  async getPuzzles(filter: PuzzleFilter): Promise<Puzzle[]> {
+    // Same test as isPuzzleSettled
+    const conditions: (SQL | undefined)[] = [
+      or(
+        and(eq(puzzles.setter, "ai"), isNotNull(puzzles.playerSolved)),
+        and(eq(puzzles.setter, "player"), isNotNull(puzzles.aiSolved))
+      )
+    ];
+    if (filter.mateIn !== undefined) conditions.push(eq(puzzles.mateIn, filter.mateIn));
+    if (filter.minRating !== undefined) conditions.push(gte(puzzles.rating, filter.minRating));
+    if (filter.maxRating !== undefined) conditions.push(lte(puzzles.rating, filter.maxRating));
+    if (filter.source !== undefined) conditions.push(eq(puzzles.setter, filter.source));
+
+    return this.db.select().from(puzzles)
+      .where(and(...conditions))
+      .orderBy(desc(puzzles.id))
+      .limit(filter.limit ?? DEFAULT_PUZZLE_LIMIT);
+  }
+
+  // Puzzle trainer methods
+  async createPuzzlePlay(insertPlay: InsertPuzzlePlay): Promise<PuzzlePlay> {
+    const [play] = await this.db.insert(puzzlePlays).values(insertPlay).returning();
+    return play;
+  }
+
+  async getPuzzlePlaysByUserId(userId: number): Promise<PuzzlePlay[]> {
+    return this.db.select().from(puzzlePlays).where(eq(puzzlePlays.userId, userId));
+  }
+}
+
+// Pick the storage backend from STORAGE_BACKEND ("memory" or "postgres").
+// Defaults to Postgres whenever DATABASE_URL is set, otherwise memory.
+export function createStorage(env: NodeJS.ProcessEnv = process.env): IStorage {
+  const backend = env.STORAGE_BACKEND ?? (env.DATABASE_URL ? "postgres" : "memory");
+
+  switch (backend) {
+    case "memory":
+      return new MemStorage();
+    case "postgres": {
+      if (!env.DATABASE_URL) {
+        throw new Error("DATABASE_URL must be set to use the postgres storage backend");
+      }
+      const pool = createPool(env.DATABASE_URL);
+      return new DatabaseStorage(
+        createDatabase(pool),
+        new PostgresSessionStore({ pool, createTableIfMissing: true })
+      );
+    }
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}", expected "memory" or "postgres"`);
+  }
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,121 @@
+// Puzzle trainer: every settled shootout puzzle goes into a bank that users
+// solve on their own, without a clock. A user's first attempt at a puzzle is
+// rated for both the user and the puzzle; later attempts are practice.
+
+import type { Puzzle, PuzzleFilter, User } from "@shared/schema";
+import { enginePool } from "./enginePool";
+import type { PuzzleAttempt } from "./puzzles";
+import { rateAttempt } from "./ratings";
+import { storage } from "./storage";
+
+// What the bank shows of a puzzle; the solution stays on the server
+export type BankPuzzle = Pick<Puzzle, "id" | "fen" | "mateIn" | "rating" | "ratingDeviation"> & {
+  source: Puzzle["setter"];
+};
+
+export interface TrainerAttemptResult {
+  attempt: PuzzleAttempt;
+  puzzle: BankPuzzle;
+  solution: string[] | null; // revealed once the attempt is over
+  rated: boolean;
+  ratingChange: number;
+  rating: number; // the user's puzzle rating after the attempt
+}
+
+// Candidates looked at when picking the next puzzle
+const NEXT_PUZZLE_POOL = 500;
+
+// The next puzzle is picked at random from this many closest to the user's rating
+const NEXT_PUZZLE_CHOICES = 5;
+
+export function toBankPuzzle(puzzle: Puzzle): BankPuzzle {
+  return {
+    id: puzzle.id,
+    fen: puzzle.fen,
+    mateIn: puzzle.mateIn,
+    rating: Math.round(puzzle.rating),
+    ratingDeviation: Math.round(puzzle.ratingDeviation),
+    source: puzzle.setter
+  };
+}
+
+// Whoever played the shootout a puzzle came from has already seen its solution
+async function isOwnPuzzle(user: User, puzzle: Puzzle): Promise<boolean> {
+  const game = await storage.getGame(puzzle.gameId);
+  return !!game && (game.ownerId === user.id || game.opponentId === user.id);
+}
+
+export async function listPuzzles(filter: PuzzleFilter): Promise<BankPuzzle[]> {
+  return (await storage.getPuzzles(filter)).map(toBankPuzzle);
+}
+
+// Pick an unplayed puzzle near the user's rating, or null when none match
+export async function nextPuzzle(user: User, filter: PuzzleFilter): Promise<BankPuzzle | null> {
+  const played = new Set((await storage.getPuzzlePlaysByUserId(user.id)).map(play => play.puzzleId));
+  const candidates = (await storage.getPuzzles({ ...filter, limit: NEXT_PUZZLE_POOL }))
+    .filter(puzzle => !played.has(puzzle.id))
+    .sort((a, b) => Math.abs(a.rating - user.puzzleRating) - Math.abs(b.rating - user.puzzleRating));
+
+  const choices: Puzzle[] = [];
+  for (const puzzle of candidates) {
+    if (choices.length >= NEXT_PUZZLE_CHOICES) break;
+    if (!(await isOwnPuzzle(user, puzzle))) {
+      choices.push(puzzle);
+    }
+  }
+
+  return choices.length > 0 ? toBankPuzzle(choices[Math.floor(Math.random() * choices.length)]) : null;
+}
+
+// Check the user's moves on a bank puzzle in the engine pool, rating the
+// attempt once it's over. Aborting the signal drops the check.
+export async function trainOnPuzzle(
+  user: User,
+  puzzle: Puzzle,
+  moves: string[],
+  gaveUp: boolean = false,
+  signal?: AbortSignal
+): Promise<TrainerAttemptResult> {
+  let attempt = await enginePool.run({ kind: "checkAttempt", fen: puzzle.fen, mateIn: puzzle.mateIn, moves }, signal);
+  if (gaveUp && (attempt.status === "continue" || attempt.status === "unverified")) {
+    attempt = { status: "failed", fen: attempt.fen, reason: "You gave up" };
+  }
+
+  if (attempt.status === "continue" || attempt.status === "unverified") {
+    return { attempt, puzzle: toBankPuzzle(puzzle), solution: null, rated: false, ratingChange: 0, rating: Math.round(user.puzzleRating) };
+  }
+
+  const solved = attempt.status === "solved";
+  const plays = await storage.getPuzzlePlaysByUserId(user.id);
+  const rated = !plays.some(play => play.puzzleId === puzzle.id) && !(await isOwnPuzzle(user, puzzle));
+
+  let updatedUser = user;
+  let updatedPuzzle = puzzle;
+  if (rated) {
+    const ratings = rateAttempt(
+      { rating: user.puzzleRating, deviation: user.puzzleRatingDeviation },
+      { rating: puzzle.rating, deviation: puzzle.ratingDeviation },
+      solved
+    );
+    updatedUser = (await storage.updateUser(user.id, {
+      puzzleRating: ratings.user.rating,
+      puzzleRatingDeviation: ratings.user.deviation
+    })) ?? user;
+    updatedPuzzle = (await storage.updatePuzzle(puzzle.id, {
+      rating: ratings.puzzle.rating,
+      ratingDeviation: ratings.puzzle.deviation
+    })) ?? puzzle;
+  }
+
+  const ratingChange = updatedUser.puzzleRating - user.puzzleRating;
+  await storage.createPuzzlePlay({ puzzleId: puzzle.id, userId: user.id, solved, rated, ratingChange });
+
+  return {
+    attempt,
+    puzzle: toBankPuzzle(updatedPuzzle),
+    solution: puzzle.solution ? puzzle.solution.split(' ') : [],
+    rated,
+    ratingChange: Math.round(ratingChange),
+    rating: Math.round(updatedUser.puzzleRating)
+  };
+}
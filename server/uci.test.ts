@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "url";
+import { getStockfishMove } from "./stockfish";
+import { parseUciInfo, uciEngineOptions, UciEngine, UciError } from "./uci";
+
+const FAKE_ENGINE = fileURLToPath(new URL("./fixtures/fakeUciEngine.js", import.meta.url));
+const START_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+
+test("parseUciInfo reads scores and lines", () => {
+  assert.deepEqual(parseUciInfo("info depth 12 multipv 2 score mate -3 nodes 5000 nps 250000 pv e7e5 g1f3"), {
+    depth: 12,
+    multipv: 2,
+    score: { type: "mate", value: -3 },
+    nodes: 5000,
+    nps: 250000,
+    pv: ["e7e5", "g1f3"]
+  });
+  assert.deepEqual(parseUciInfo("info string NNUE enabled"), {});
+  assert.deepEqual(parseUciInfo("bestmove e2e4"), {});
+});
+
+test("a search returns the engine's best move and main line", async () => {
+  const engine = new UciEngine(process.execPath, [FAKE_ENGINE], { Threads: 1, Hash: 16 });
+  try {
+    const lines: string[][] = [];
+    const result = await engine.search(START_FEN, {
+      movetime: 100,
+      searchMoves: ["d2d4", "c2c4"],
+      onInfo: info => lines.push(info.pv ?? [])
+    });
+    assert.equal(result.bestMove, "d2d4");
+    assert.deepEqual(result.info.score, { type: "cp", value: 25 });
+    assert.deepEqual(lines, [["d2d4"]]);
+    assert.ok(engine.alive);
+  } finally {
+    engine.quit();
+  }
+});
+
+test("an engine that fails the handshake is stopped", { timeout: 10000 }, async () => {
+  const engine = new UciEngine(process.execPath, [FAKE_ENGINE, "silent"]);
+  await assert.rejects(engine.search(START_FEN, { movetime: 100 }), UciError);
+  // getUciEngine starts a new engine in place of one that isn't alive
+  assert.equal(engine.alive, false);
+});
+
+test("engine copies split the hash memory between pool workers", () => {
+  assert.deepEqual(uciEngineOptions({ ENGINE_POOL_SIZE: "4" }), { Threads: 1, Hash: 64 });
+  assert.deepEqual(uciEngineOptions({ ENGINE_POOL_SIZE: "1" }), { Threads: 1, Hash: 256 });
+});
+
+test("the built-in engine answers when the external one doesn't", { timeout: 20000 }, async () => {
+  process.env.UCI_ENGINE_PATH = FAKE_ENGINE;
+  process.env.FAKE_UCI_ENGINE = "silent";
+  try {
+    // Black's only move is Ka7
+    const fen = "k7/2K5/8/8/8/8/8/1R6 b - - 0 1";
+    assert.equal(await getStockfishMove(fen, 4, 1000, { difficulty: "insane" }), "a8a7");
+  } finally {
+    delete process.env.UCI_ENGINE_PATH;
+    delete process.env.FAKE_UCI_ENGINE;
+  }
+});
@@ -0,0 +1,255 @@
+// Adapter for an external UCI chess engine such as Stockfish. The engine
+// binary is started from UCI_ENGINE_PATH and spoken to over stdin/stdout.
+// Searches run one at a time per engine process. Engines quit when their
+// input closes, so a process never outlives the thread that started it.
+// Each engine pool worker starts its own copy, so the copies are sized to
+// share the machine between them.
+
+import { spawn, type ChildProcessWithoutNullStreams } from "child_process";
+import { createInterface } from "readline";
+import { enginePoolSize } from "./enginePool";
+
+// Score from the side to move's point of view
+export type UciScore = { type: "cp"; value: number } | { type: "mate"; value: number };
+
+// One "info" line from the engine
+export interface UciInfo {
+  depth?: number;
+  multipv?: number;
+  score?: UciScore;
+  nodes?: number;
+  nps?: number;
+  pv?: string[];
+}
+
+export interface UciSearchOptions {
+  movetime?: number;       // milliseconds
+  depth?: number;
+  searchMoves?: string[];  // only consider these moves, in UCI
+  multiPv?: number;        // lines to report
+  onInfo?: (info: UciInfo) => void;
+}
+
+export interface UciSearchResult {
+  bestMove: string;
+  info: UciInfo; // the last main-line info before bestmove
+}
+
+export class UciError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UciError";
+  }
+}
+
+// How long the engine gets to answer the handshake
+const HANDSHAKE_TIMEOUT_MS = 5000;
+
+// Extra time past movetime before the engine is told to stop, and again
+// before it is given up on
+const SEARCH_GRACE_MS = 2000;
+
+// Depth-limited searches without a movetime still have to end
+const DEFAULT_SEARCH_TIMEOUT_MS = 10000;
+
+// Hash table memory shared by all the engine copies, in MB
+const TOTAL_HASH_MB = 256;
+
+// Parse an "info" line; lines that aren't search info come back empty
+export function parseUciInfo(line: string): UciInfo {
+  const tokens = line.trim().split(/\s+/);
+  const info: UciInfo = {};
+  if (tokens[0] !== "info") return info;
+
+  for (let i = 1; i < tokens.length; i++) {
+    switch (tokens[i]) {
+      case "depth":
+        info.depth = Number(tokens[++i]);
+        break;
+      case "multipv":
+        info.multipv = Number(tokens[++i]);
+        break;
+      case "nodes":
+        info.nodes = Number(tokens[++i]);
+        break;
+      case "nps":
+        info.nps = Number(tokens[++i]);
+        break;
+      case "score": {
+        const type = tokens[++i];
+        const value = Number(tokens[++i]);
+        if ((type === "cp" || type === "mate") && !Number.isNaN(value)) {
+          info.score = { type, value };
+        }
+        break;
+      }
+      case "pv":
+        info.pv = tokens.slice(i + 1);
+        i = tokens.length;
+        break;
+      case "string":
+        // Free text runs to the end of the line
+        i = tokens.length;
+        break;
+    }
+  }
+  return info;
+}
+
+export class UciEngine {
+  private process: ChildProcessWithoutNullStreams;
+  private listeners = new Set<(line: string | null) => void>();
+  private exited = false;
+  private ready: Promise<void>;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  // options are UCI options set once the engine has said hello
+  constructor(path: string, args: string[] = [], private options: Record<string, string | number> = {}) {
+    this.process = spawn(path, args, { stdio: "pipe" });
+    this.process.on("exit", () => this.markExited());
+    this.process.on("error", () => this.markExited());
+    // Writing to an engine that has just died shouldn't crash the server
+    this.process.stdin.on("error", () => this.markExited());
+    createInterface({ input: this.process.stdout }).on("line", line => {
+      this.listeners.forEach(listener => listener(line));
+    });
+
+    this.ready = this.handshake();
+    // An engine that fails the handshake is stopped and counted as dead, so
+    // getUciEngine starts a new one. The failure surfaces on the first search.
+    this.ready.catch(() => this.kill());
+  }
+
+  get alive(): boolean {
+    return !this.exited;
+  }
+
+  // Search a position and return the engine's best move
+  search(fen: string, options: UciSearchOptions): Promise<UciSearchResult> {
+    const run = this.queue.catch(() => undefined).then(() => this.runSearch(fen, options));
+    this.queue = run;
+    return run;
+  }
+
+  quit() {
+    if (this.exited) return;
+    this.send("quit");
+    this.process.stdin.end();
+  }
+
+  private kill() {
+    this.markExited();
+    this.process.kill();
+  }
+
+  private markExited() {
+    if (this.exited) return;
+    this.exited = true;
+    this.listeners.forEach(listener => listener(null));
+  }
+
+  private send(command: string) {
+    if (this.exited) {
+      throw new UciError("The engine is not running");
+    }
+    this.process.stdin.write(command + "\n");
+  }
+
+  // Wait for a line matching match, passing every line to onLine on the way.
+  // Rejects when the engine exits or the timeout passes.
+  private waitFor(match: (line: string) => boolean, timeout: number, onLine?: (line: string) => void): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const finish = (error: UciError | null, line?: string) => {
+        clearTimeout(timer);
+        this.listeners.delete(listener);
+        if (error) reject(error);
+        else resolve(line!);
+      };
+      const listener = (line: string | null) => {
+        if (line === null) return finish(new UciError("The engine stopped unexpectedly"));
+        onLine?.(line);
+        if (match(line)) finish(null, line);
+      };
+      const timer = setTimeout(() => finish(new UciError("The engine did not answer in time")), timeout);
+
+      if (this.exited) return finish(new UciError("The engine is not running"));
+      this.listeners.add(listener);
+    });
+  }
+
+  private async handshake() {
+    const uciOk = this.waitFor(line => line.trim() === "uciok", HANDSHAKE_TIMEOUT_MS);
+    this.send("uci");
+    await uciOk;
+    Object.entries(this.options).forEach(([name, value]) => this.send(`setoption name ${name} value ${value}`));
+    await this.isReady();
+  }
+
+  private async isReady() {
+    const readyOk = this.waitFor(line => line.trim() === "readyok", HANDSHAKE_TIMEOUT_MS);
+    this.send("isready");
+    await readyOk;
+  }
+
+  private async runSearch(fen: string, options: UciSearchOptions): Promise<UciSearchResult> {
+    await this.ready;
+
+    this.send(`setoption name MultiPV value ${options.multiPv ?? 1}`);
+    this.send("ucinewgame");
+    this.send(`position fen ${fen}`);
+    await this.isReady();
+
+    let main: UciInfo = {};
+    const onLine = (line: string) => {
+      const info = parseUciInfo(line);
+      if (info.pv === undefined && info.score === undefined) return;
+      if ((info.multipv ?? 1) === 1) main = info;
+      options.onInfo?.(info);
+    };
+    const isBestMove = (line: string) => line.startsWith("bestmove");
+
+    const limits = [
+      options.movetime !== undefined ? `movetime ${options.movetime}` : "",
+      options.depth !== undefined ? `depth ${options.depth}` : "",
+      options.searchMoves?.length ? `searchmoves ${options.searchMoves.join(" ")}` : ""
+    ].filter(Boolean).join(" ");
+    const timeout = (options.movetime ?? DEFAULT_SEARCH_TIMEOUT_MS) + SEARCH_GRACE_MS;
+
+    const bestMoveLine = this.waitFor(isBestMove, timeout, onLine).catch(async (error) => {
+      // Ask an engine that overran to stop, and give it a moment to answer
+      if (this.exited) throw error;
+      const stopped = this.waitFor(isBestMove, SEARCH_GRACE_MS, onLine);
+      this.send("stop");
+      return stopped;
+    });
+    this.send(`go ${limits}`.trim());
+
+    const [, bestMove] = (await bestMoveLine).trim().split(/\s+/);
+    if (!bestMove || bestMove === "(none)") {
+      throw new UciError("The engine found no move");
+    }
+    return { bestMove, info: main };
+  }
+}
+
+// One search thread per copy, since every pool worker may be searching at
+// once, and an even share of the hash memory
+export function uciEngineOptions(env: NodeJS.ProcessEnv = process.env): Record<string, number> {
+  return { Threads: 1, Hash: Math.max(1, Math.floor(TOTAL_HASH_MB / enginePoolSize(env))) };
+}
+
+let engine: UciEngine | null = null;
+
+// The configured engine for this thread, started on first use and restarted
+// if it has died. null when UCI_ENGINE_PATH isn't set.
+export function getUciEngine(env: NodeJS.ProcessEnv = process.env): UciEngine | null {
+  const path = env.UCI_ENGINE_PATH;
+  if (!path) {
+    return null;
+  }
+
+  if (!engine || !engine.alive) {
+    engine = new UciEngine(path, [], uciEngineOptions(env));
+  }
+  return engine;
+}
@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Chess } from "chess.js";
+import { hashMove, hashPosition } from "@shared/zobrist";
+
+// Castling both ways, en passant, captures and a promotion, with both sides
+// well past the Hukum move limit by the end
+const GAME = [
+  "e4", "d5", "exd5", "Qxd5", "Nc3", "Qa5", "d4", "c6", "Nf3", "Bg4", "Bf4", "e6",
+  "h3", "Bxf3", "Qxf3", "Bb4", "Be2", "Nd7", "a3", "O-O-O", "axb4", "Qxa1+", "Kd2", "Qxh1",
+  "Qxc6+", "bxc6", "Ba6#"
+];
+
+test("updating the hash move by move matches hashing each position from scratch", () => {
+  const chess = new Chess();
+  const moveNumbers = { w: 1, b: 1 };
+  let hash = hashPosition(chess, moveNumbers);
+
+  for (const san of GAME) {
+    const move = chess.move(san);
+    hash = hashMove(hash, move, moveNumbers);
+    moveNumbers[move.color]++;
+    assert.equal(hash, hashPosition(chess, moveNumbers), `after ${move.san}`);
+  }
+  assert.ok(moveNumbers.w > 10);
+});
+
+test("en passant, kingside castling and promotion keep the hash in step", () => {
+  const chess = new Chess("r3k2r/1P4pp/8/8/5p2/8/4P3/R3K2R w KQkq - 0 1");
+  const moveNumbers = { w: 2, b: 2 };
+  let hash = hashPosition(chess, moveNumbers);
+
+  for (const san of ["e4", "fxe3", "O-O", "h6", "bxa8=Q+", "Ke7"]) {
+    const move = chess.move(san);
+    hash = hashMove(hash, move, moveNumbers);
+    moveNumbers[move.color]++;
+    assert.equal(hash, hashPosition(chess, moveNumbers), `after ${move.san}`);
+  }
+});
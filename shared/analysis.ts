@@ -0,0 +1,118 @@
+// Live analysis of a position for the evaluation bar and post-game review.
+// An analysis streams updates as it deepens, each with the best few lines
+// judged like regular chess and the Hukum search's expected final score.
+
+import { Chess, type Color } from "chess.js";
+import { MATE_SCORE, MAX_SEARCH_DEPTH } from "./engine";
+import { calculateMoveScore, parseUciMove, passTurn, type MoveNumbers } from "./hukum";
+import { PASS_MOVE } from "./hukumSearch";
+import type { AnalysisRequest } from "./schema";
+
+// An evaluation from white's point of view: centipawns, or the number of
+// moves to mate (negative when black is the one mating)
+export type AnalysisScore = { type: "cp"; value: number } | { type: "mate"; value: number };
+
+export interface AnalysisLine {
+  pv: string[];         // expected line of play in UCI
+  score: AnalysisScore;
+}
+
+// Where the Hukum search expects the game to finish
+export interface HukumAnalysis {
+  pv: string[];                   // in UCI; PASS_MOVE marks a Free Hit hand-over
+  scores: Record<Color, number>;  // points at the end of pv
+  checkmate: boolean;             // pv ends the game in checkmate
+  depth: number;
+  toEnd: boolean;                 // pv reaches the end of the game
+}
+
+export interface AnalysisUpdate {
+  engine: "built-in" | "uci";
+  depth: number;                // of the lines
+  lines: AnalysisLine[];        // best first
+  hukum: HukumAnalysis | null;  // null until the Hukum search has finished a depth
+  nodes: number;
+  nps: number;                  // nodes per second
+  elapsed: number;              // milliseconds since the analysis started
+}
+
+// The Hukum state of the game being analysed, as the engine reads it
+export function analysisContext(request: AnalysisRequest, chess: Chess): {
+  moveNumbers: MoveNumbers;
+  scores: Record<Color, number>;
+  freeHits: Record<Color, boolean>;
+} {
+  const fullMove = chess.moveNumber();
+  return {
+    moveNumbers: {
+      w: request.whiteMoves !== undefined ? request.whiteMoves + 1 : fullMove,
+      b: request.blackMoves !== undefined ? request.blackMoves + 1 : fullMove
+    },
+    scores: { w: request.whiteScore, b: request.blackScore },
+    freeHits: { w: request.whiteFreeHit, b: request.blackFreeHit }
+  };
+}
+
+// A built-in engine score in pawns as an AnalysisScore, both from the side
+// to move's point of view
+export function pawnsToScore(pawns: number): AnalysisScore {
+  if (Math.abs(pawns) >= MATE_SCORE - MAX_SEARCH_DEPTH * 2) {
+    const plies = MATE_SCORE - Math.abs(pawns);
+    return { type: "mate", value: Math.sign(pawns) * Math.ceil(plies / 2) };
+  }
+  return { type: "cp", value: Math.round(pawns * 100) };
+}
+
+// Turn a score from the side to move's point of view to white's
+export function fromWhite(score: AnalysisScore, turn: Color): AnalysisScore {
+  return turn === "w" ? score : { type: score.type, value: -score.value };
+}
+
+// Play a Hukum line out from fen and add up the points each colour wins
+// along the way
+export function scoreHukumLine(fen: string, scores: Record<Color, number>, pv: string[]): Pick<HukumAnalysis, "scores" | "checkmate"> {
+  let chess = new Chess(fen);
+  const totals = { ...scores };
+  for (const uci of pv) {
+    if (uci === PASS_MOVE) {
+      chess = new Chess(passTurn(chess));
+      continue;
+    }
+    const parsed = parseUciMove(uci);
+    if (!parsed) break;
+    const move = chess.move(parsed);
+    totals[move.color] += calculateMoveScore(move);
+  }
+  return { scores: totals, checkmate: chess.isCheckmate() };
+}
+
+// A line in SAN for display, with "pass" for a Free Hit hand-over. Stops at
+// the first move that doesn't fit the position.
+export function lineToSan(fen: string, pv: string[]): string[] {
+  let chess = new Chess(fen);
+  const san: string[] = [];
+  for (const uci of pv) {
+    if (uci === PASS_MOVE) {
+      chess = new Chess(passTurn(chess));
+      san.push("pass");
+      continue;
+    }
+    const parsed = parseUciMove(uci);
+    if (!parsed) break;
+    try {
+      san.push(chess.move(parsed).san);
+    } catch (error) {
+      break;
+    }
+  }
+  return san;
+}
+
+// A score as engines usually show it: "+1.25", "-0.40", "M3" or "-M2"
+export function formatScore(score: AnalysisScore): string {
+  if (score.type === "mate") {
+    return `${score.value < 0 ? "-" : ""}M${Math.abs(score.value)}`;
+  }
+  const pawns = score.value / 100;
+  return `${pawns > 0 ? "+" : ""}${pawns.toFixed(2)}`;
+}
@@ -0,0 +1,450 @@
+// Built-in engine for Hukum Chess, shared by the server and the browser's
+// offline engine. Difficulty profiles pick between the classic search, which
+// judges positions like regular chess, and the Hukum search, which plays for
+// the final score.
+
+import { Chess, type Color, type Move } from "chess.js";
+import { getHukumMoves, moveNumbersFromFen, parseUciMove, type MoveNumbers } from "./hukum";
+import { findBestHukumMove } from "./hukumSearch";
+import type { Difficulty } from "./schema";
+import {
+  bestFirst,
+  orderMoves,
+  recordKiller,
+  rootJitter,
+  searchProgress,
+  searchRootMoves,
+  startClock,
+  toUci,
+  visit,
+  SearchTimeout,
+  TranspositionTable,
+  type KillerMoves,
+  type ProgressListener,
+  type RootResult,
+  type SearchClock
+} from "./search";
+import { hashMove, hashPosition } from "./zobrist";
+
+// Piece values for evaluation
+const PIECE_VALUES: { [key: string]: number } = {
+  p: 1,  // pawn
+  n: 3,  // knight
+  b: 3,  // bishop
+  r: 5,  // rook
+  q: 9,  // queen
+  k: 0   // king (not counted for material)
+};
+
+// Square values for piece positioning (center control is good)
+const SQUARE_VALUES: number[][] = [
+  [0, 0, 0, 0, 0, 0, 0, 0],
+  [0, 0.1, 0.2, 0.2, 0.2, 0.2, 0.1, 0],
+  [0, 0.2, 0.3, 0.4, 0.4, 0.3, 0.2, 0],
+  [0, 0.2, 0.4, 0.5, 0.5, 0.4, 0.2, 0],
+  [0, 0.2, 0.4, 0.5, 0.5, 0.4, 0.2, 0],
+  [0, 0.2, 0.3, 0.4, 0.4, 0.3, 0.2, 0],
+  [0, 0.1, 0.2, 0.2, 0.2, 0.2, 0.1, 0],
+  [0, 0, 0, 0, 0, 0, 0, 0]
+];
+
+// Score of a checkmate, in pawns
+export const MATE_SCORE = 1000;
+
+// Iterative deepening stops here even if time is left
+export const MAX_SEARCH_DEPTH = 32;
+
+// Captures and promotions played out past the search depth
+const QUIESCENCE_DEPTH = 6;
+
+// Default evaluation jitter (in pawns) to avoid repetitive play
+const DEFAULT_NOISE = 0.1;
+
+// classic judges positions like regular chess; hukum plays for the final Hukum score
+export type EngineSearch = "classic" | "hukum";
+
+// How the engine plays at a given difficulty
+export interface EngineProfile {
+  search: EngineSearch;
+  external: boolean;   // on the server, use the configured UCI engine when there is one
+  depth: number;       // search depth in plies
+  timeLimit: number;   // time budget in milliseconds
+  noise: number;       // random jitter added to every evaluation, in pawns
+  blunderRate: number; // chance of playing a random legal move instead of the best one
+}
+
+// Engine profiles for the difficulty levels offered in the new game dialog
+export const ENGINE_PROFILES: Record<Difficulty, EngineProfile> = {
+  standard: { search: "classic", external: false, depth: 1, timeLimit: 500, noise: 1.5, blunderRate: 0.25 },
+  grandmaster: { search: "hukum", external: false, depth: 4, timeLimit: 1500, noise: DEFAULT_NOISE, blunderRate: 0.05 },
+  insane: { search: "hukum", external: true, depth: 16, timeLimit: 5000, noise: 0, blunderRate: 0 }
+};
+
+export interface EngineMoveOptions {
+  moveNumbers?: MoveNumbers;
+  difficulty?: Difficulty;
+  search?: EngineSearch;               // overrides the profile's search and keeps to the built-in engine
+  scores?: Record<Color, number>;      // Hukum points so far, for the hukum search
+  freeHits?: Record<Color, boolean>;   // Free Hits owed, for the hukum search
+}
+
+// The profile for a difficulty, or a plain classic search with the given
+// depth and time limit when there is none
+export function getEngineProfile(depth: number, timeLimit: number, difficulty?: Difficulty): EngineProfile {
+  return difficulty
+    ? ENGINE_PROFILES[difficulty]
+    : { search: "classic", external: false, depth, timeLimit, noise: DEFAULT_NOISE, blunderRate: 0 };
+}
+
+// Pick a move with the built-in engine. A difficulty overrides depth and
+// timeLimit with its profile. onProgress hears about every depth finished.
+export function getBuiltInMove(
+  fen: string,
+  depth: number = 3,
+  timeLimit: number = 1000,
+  options: EngineMoveOptions = {},
+  onProgress?: ProgressListener
+): string {
+  const chess = new Chess(fen);
+  const color = chess.turn();
+  const moveNumbers = options.moveNumbers ?? moveNumbersFromFen(chess);
+  const profile = getEngineProfile(depth, timeLimit, options.difficulty);
+  
+  // Weaker profiles occasionally play a random move
+  if (Math.random() < profile.blunderRate) {
+    const moves = getHukumMoves(chess, moveNumbers[color]);
+    if (moves.length > 0) {
+      const randomMove = moves[Math.floor(Math.random() * moves.length)];
+      return randomMove.from + randomMove.to + (randomMove.promotion || "");
+    }
+  }
+  
+  if ((options.search ?? profile.search) === "hukum") {
+    const result = findBestHukumMove(fen, {
+      moveNumbers,
+      scores: options.scores ?? { w: 0, b: 0 },
+      freeHits: options.freeHits ?? { w: false, b: false }
+    }, profile, onProgress);
+    if (result) {
+      return result.move;
+    }
+  }
+
+  // For Hukum Chess, we prioritize captures and material advantage
+  // Since this is a 6-move game
+  return findBestMove(chess, profile.depth, profile.timeLimit, moveNumbers, profile.noise, onProgress);
+}
+
+// Iterative-deepening alpha-beta search. Each depth is searched in full
+// before the next starts, so when the time runs out the engine plays the
+// best move of the last depth it finished.
+function findBestMove(
+  chess: Chess,
+  maxDepth: number,
+  timeLimit: number,
+  moveNumbers: MoveNumbers,
+  noise: number = DEFAULT_NOISE,
+  onProgress?: ProgressListener
+): string {
+  const color = chess.turn();
+  let rootMoves = orderMoves(getHukumMoves(chess, moveNumbers[color]));
+  if (rootMoves.length === 0) {
+    return "";
+  }
+
+  const search: ClassicSearch = {
+    clock: startClock(timeLimit),
+    table: new TranspositionTable(),
+    killers: []
+  };
+  const jitter = rootJitter(rootMoves, noise);
+  const childMoveNumbers = advanceMoveNumbers(moveNumbers, color);
+  const rootHash = hashPosition(chess, moveNumbers);
+
+  // Until depth 1 finishes, the best capture is the best guess
+  let bestMove = rootMoves[0];
+  for (let depth = 1; depth <= Math.min(maxDepth, MAX_SEARCH_DEPTH); depth++) {
+    let result: RootResult | null;
+    try {
+      result = searchRootMoves(rootMoves, jitter, (move, alpha) => {
+        chess.move(move);
+        const score = -negamax(chess, search, depth - 1, 1, -Infinity, -alpha, childMoveNumbers, hashMove(rootHash, move, moveNumbers));
+        chess.undo();
+        return score;
+      });
+    } catch (error) {
+      if (error instanceof SearchTimeout) break;
+      throw error;
+    }
+
+    if (!result) break;
+    bestMove = result.move;
+    rootMoves = bestFirst(rootMoves, bestMove);
+    onProgress?.(searchProgress(search.clock, depth, result));
+
+    // A forced mate won't get any better with more depth
+    if (Math.abs(result.score) >= MATE_SCORE - MAX_SEARCH_DEPTH) break;
+  }
+
+  return toUci(bestMove);
+}
+
+// One line of a multi-line analysis
+export interface AnalysedLine {
+  pv: string[];   // expected line of play in UCI, starting with the move analysed
+  score: number;  // in pawns from the side to move's point of view
+}
+
+// The classic search's view of a position at the last depth it finished
+export interface ClassicAnalysis {
+  depth: number;
+  lines: AnalysedLine[]; // best first
+  nodes: number;
+  elapsed: number;       // milliseconds since the analysis started
+}
+
+// Analyse a position with the classic search, keeping exact scores for the
+// best few moves instead of only proving which one is best. Deepens until
+// the time runs out, reporting every depth finished to onDepth, and returns
+// the last. null when there is no move to analyse.
+export function analyseClassic(
+  fen: string,
+  lineCount: number,
+  timeLimit: number,
+  moveNumbers?: MoveNumbers,
+  onDepth?: (analysis: ClassicAnalysis) => void
+): ClassicAnalysis | null {
+  const chess = new Chess(fen);
+  const color = chess.turn();
+  const numbers = moveNumbers ?? moveNumbersFromFen(chess);
+  let rootMoves = orderMoves(getHukumMoves(chess, numbers[color]));
+  if (rootMoves.length === 0) {
+    return null;
+  }
+
+  const search: ClassicSearch = {
+    clock: startClock(timeLimit),
+    table: new TranspositionTable(),
+    killers: []
+  };
+  const childMoveNumbers = advanceMoveNumbers(numbers, color);
+  const rootHash = hashPosition(chess, numbers);
+
+  let analysis: ClassicAnalysis | null = null;
+  for (let depth = 1; depth <= MAX_SEARCH_DEPTH; depth++) {
+    const scored: (AnalysedLine & { move: Move })[] = [];
+    try {
+      for (const move of rootMoves) {
+        // Once enough lines are in, a move only has to beat the weakest of them
+        const alpha = scored.length >= lineCount ? scored[lineCount - 1].score : -Infinity;
+        chess.move(move);
+        const hash = hashMove(rootHash, move, numbers);
+        const score = -negamax(chess, search, depth - 1, 1, -Infinity, -alpha, childMoveNumbers, hash);
+        const pv = [toUci(move), ...tableLine(chess, search.table, depth - 1, childMoveNumbers, hash)];
+        chess.undo();
+
+        if (score > alpha) {
+          scored.push({ move, pv, score });
+          scored.sort((a, b) => b.score - a.score);
+          scored.length = Math.min(scored.length, lineCount);
+        }
+      }
+    } catch (error) {
+      if (error instanceof SearchTimeout) break;
+      throw error;
+    }
+
+    const best = scored.map(({ move }) => move);
+    rootMoves = [...best, ...rootMoves.filter(move => !best.includes(move))];
+    analysis = {
+      depth,
+      lines: scored.map(({ pv, score }) => ({ pv, score })),
+      nodes: search.clock.nodes,
+      elapsed: Date.now() - search.clock.started
+    };
+    onDepth?.(analysis);
+
+    // Forced mates won't change with more depth
+    if (scored.every(({ score }) => Math.abs(score) >= MATE_SCORE - MAX_SEARCH_DEPTH)) break;
+  }
+
+  return analysis;
+}
+
+// Follow the best moves stored in the table from the current position,
+// which is how the search expects play to go. hash is the position's hash
+// with these move numbers.
+function tableLine(chess: Chess, table: TranspositionTable, length: number, moveNumbers: MoveNumbers, hash: number): string[] {
+  const line: string[] = [];
+  const seen = new Set<number>();
+  let key = hash;
+  let numbers = moveNumbers;
+  while (line.length < length) {
+    const move = table.get(key)?.move;
+    const parsed = move ? parseUciMove(move) : null;
+    if (!move || !parsed || seen.has(key)) break;
+    seen.add(key);
+    let played: Move;
+    try {
+      played = chess.move(parsed);
+    } catch (error) {
+      break; // a hash collision stored another position's move
+    }
+    key = hashMove(key, played, numbers);
+    numbers = advanceMoveNumbers(numbers, played.color);
+    line.push(move);
+  }
+  line.forEach(() => chess.undo());
+  return line;
+}
+
+// State carried through one search
+interface ClassicSearch {
+  clock: SearchClock;
+  table: TranspositionTable;
+  killers: KillerMoves;
+}
+
+// Move numbers after the given colour has played one more move
+function advanceMoveNumbers(moveNumbers: MoveNumbers, color: Color): MoveNumbers {
+  return { ...moveNumbers, [color]: moveNumbers[color] + 1 };
+}
+
+// Mate scores count plies from the root; the table stores them from the
+// position itself so they stay right wherever the position turns up
+function toTableScore(score: number, ply: number): number {
+  if (score >= MATE_SCORE - MAX_SEARCH_DEPTH * 2) return score + ply;
+  if (score <= -MATE_SCORE + MAX_SEARCH_DEPTH * 2) return score - ply;
+  return score;
+}
+
+function fromTableScore(score: number, ply: number): number {
+  if (score >= MATE_SCORE - MAX_SEARCH_DEPTH * 2) return score - ply;
+  if (score <= -MATE_SCORE + MAX_SEARCH_DEPTH * 2) return score + ply;
+  return score;
+}
+
+// Negamax with alpha-beta pruning; scores are from the side to move's view.
+// hash is the position's hash with these move numbers.
+function negamax(chess: Chess, search: ClassicSearch, depth: number, ply: number, alpha: number, beta: number, moveNumbers: MoveNumbers, hash: number): number {
+  if (depth <= 0) {
+    return quiescence(chess, search, ply, alpha, beta, moveNumbers, QUIESCENCE_DEPTH);
+  }
+  visit(search.clock);
+
+  const entry = search.table.get(hash);
+  if (entry && entry.depth >= depth) {
+    const stored = fromTableScore(entry.score, ply);
+    if (entry.bound === "exact") return stored;
+    if (entry.bound === "lower") alpha = Math.max(alpha, stored);
+    if (entry.bound === "upper") beta = Math.min(beta, stored);
+    if (alpha >= beta) return stored;
+  }
+
+  const color = chess.turn();
+  const moves = getHukumMoves(chess, moveNumbers[color]);
+  if (moves.length === 0) {
+    // Checkmate, stalemate, or only castling or out-of-window en passant was available
+    return chess.inCheck() ? -MATE_SCORE + ply : 0;
+  }
+
+  const childMoveNumbers = advanceMoveNumbers(moveNumbers, color);
+  const originalAlpha = alpha;
+  let best = -Infinity;
+  let bestMove: string | null = null;
+
+  for (const move of orderMoves(moves, entry?.move, search.killers[ply])) {
+    chess.move(move);
+    const score = -negamax(chess, search, depth - 1, ply + 1, -beta, -alpha, childMoveNumbers, hashMove(hash, move, moveNumbers));
+    chess.undo();
+
+    if (score > best) {
+      best = score;
+      bestMove = toUci(move);
+    }
+    alpha = Math.max(alpha, score);
+    if (alpha >= beta) {
+      if (!move.captured) recordKiller(search.killers, ply, move);
+      break;
+    }
+  }
+
+  search.table.set(hash, {
+    depth,
+    score: toTableScore(best, ply),
+    bound: best <= originalAlpha ? "upper" : best >= beta ? "lower" : "exact",
+    move: bestMove
+  });
+  return best;
+}
+
+// Play out captures and promotions until the position is quiet, so the
+// search never stops in the middle of an exchange
+function quiescence(chess: Chess, search: ClassicSearch, ply: number, alpha: number, beta: number, moveNumbers: MoveNumbers, depth: number): number {
+  visit(search.clock);
+
+  const standPat = (chess.turn() === "w" ? 1 : -1) * staticEvaluation(chess);
+  if (standPat >= beta || depth === 0) {
+    return standPat;
+  }
+  alpha = Math.max(alpha, standPat);
+
+  const color = chess.turn();
+  const moves = getHukumMoves(chess, moveNumbers[color]);
+  if (moves.length === 0) {
+    return chess.inCheck() ? -MATE_SCORE + ply : 0;
+  }
+
+  const childMoveNumbers = advanceMoveNumbers(moveNumbers, color);
+  let best = standPat;
+  for (const move of orderMoves(moves.filter(move => move.captured || move.promotion))) {
+    chess.move(move);
+    const score = -quiescence(chess, search, ply + 1, -beta, -alpha, childMoveNumbers, depth - 1);
+    chess.undo();
+
+    best = Math.max(best, score);
+    alpha = Math.max(alpha, score);
+    if (alpha >= beta) break;
+  }
+  return best;
+}
+
+// Evaluate the board position from white's point of view
+export function evaluateBoard(chess: Chess, noise: number = DEFAULT_NOISE): number {
+  // If game is over, return large score
+  if (chess.isCheckmate()) {
+    return chess.turn() === "w" ? -MATE_SCORE : MATE_SCORE;
+  }
+  
+  if (chess.isDraw()) {
+    return 0;
+  }
+  
+  // Add a random factor to avoid repetitive play (larger on easier levels)
+  return staticEvaluation(chess) + (Math.random() * 2 - 1) * noise;
+}
+
+// Material and piece placement from white's point of view
+function staticEvaluation(chess: Chess): number {
+  let score = 0;
+  
+  // Get all pieces on the board
+  const squares = chess.board();
+  
+  for (let i = 0; i < 8; i++) {
+    for (let j = 0; j < 8; j++) {
+      const piece = squares[i][j];
+      if (piece) {
+        // Material value
+        const value = PIECE_VALUES[piece.type] * (piece.color === "w" ? 1 : -1);
+        
+        // Position value - encourage controlling the center and development
+        const positionValue = SQUARE_VALUES[piece.color === "w" ? i : 7 - i][j] * (piece.color === "w" ? 0.2 : -0.2);
+        
+        score += value + positionValue;
+      }
+    }
+  }
+  
+  return score;
+}
@@ -0,0 +1,451 @@
+// Hukum Chess rules shared by the client and the server.
+// The server replays every submitted move through these helpers so that
+// scores and positions never depend on what the browser reports.
+
+import { Chess, type Color, type Move, type PieceSymbol, type Square } from "chess.js";
+import type { Game, MoveHistory } from "./schema";
+
+// Each side gets exactly this many moves
+export const HUKUM_MOVE_LIMIT = 6;
+
+// Seconds allowed for a side's first move and for every move after it
+export const FIRST_MOVE_SECONDS = 60;
+export const MOVE_SECONDS = 30;
+
+// Points taken off a side that lets its move clock run out (scores never go below zero)
+export const MISSED_MOVE_PENALTY = 1;
+
+// UCI null move recorded in the history for a missed move
+export const MISSED_MOVE = "0000";
+
+// Piece values for scoring
+export const PIECE_VALUES: Record<PieceSymbol, number> = {
+  p: 1, // pawn
+  n: 3, // knight
+  b: 3, // bishop
+  r: 5, // rook
+  q: 9, // queen
+  k: 0  // king has no capture value
+};
+
+export type HukumOutcome = "player_win" | "ai_win" | "tie";
+
+export type HukumRuleViolation = "game_over" | "move_limit" | "out_of_turn" | "illegal_move";
+
+// Raised when a submitted move breaks the Hukum rules
+export class HukumRuleError extends Error {
+  constructor(public readonly violation: HukumRuleViolation, message: string) {
+    super(message);
+    this.name = "HukumRuleError";
+  }
+}
+
+// The game fields needed to replay a move
+export type HukumGameState = Pick<
+  Game,
+  "fen" | "playerSide" | "playerMoves" | "aiMoves" | "status" | "playerFreeHit" | "aiFreeHit"
+>;
+
+// ...and to score it
+export type HukumScoredState = HukumGameState & Pick<Game, "playerScore" | "aiScore">;
+
+// Game fields that change when a turn is played
+export type HukumGameUpdate = Pick<
+  Game,
+  "fen" | "playerMoves" | "aiMoves" | "playerScore" | "aiScore" | "playerFreeHit" | "aiFreeHit"
+> & { status?: HukumOutcome };
+
+// Hukum move number each colour will play next (1-based)
+export type MoveNumbers = Record<Color, number>;
+
+// What one turn (a move or a missed move) did to the game
+export interface HukumTurn {
+  isPlayer: boolean;
+  points: number;
+  moveNumber: number;
+  fen: string; // position after the turn
+  foulCapture: boolean;
+  freeHit: boolean; // the turn was a Free Hit
+}
+
+export interface HukumMoveResult extends HukumTurn {
+  move: Move;
+  uci: string;
+  capturedPiece: PieceSymbol | null;
+}
+
+// One position of a replayed game, with the running totals at that point.
+// The first ply is the starting position and has no move.
+export interface HukumReplayPly {
+  move: MoveHistory | null;
+  san: string | null; // null for the start and for missed moves
+  fen: string;
+  passed: boolean; // the turn was then handed back so a Free Hit could be taken
+  playerScore: number;
+  aiScore: number;
+  playerMoves: number;
+  aiMoves: number;
+  playerFreeHit: boolean; // owed a Free Hit in this position
+  aiFreeHit: boolean;
+}
+
+// Calculate score for a move
+export function calculateMoveScore(move: { captured?: PieceSymbol; promotion?: PieceSymbol }): number {
+  // Base score is 0
+  let score = 0;
+
+  // Add points for captured pieces
+  if (move.captured) {
+    score += PIECE_VALUES[move.captured];
+  }
+
+  // Add bonus for promotion (new piece value - pawn value)
+  if (move.promotion) {
+    score += PIECE_VALUES[move.promotion] - PIECE_VALUES.p;
+  }
+
+  return score;
+}
+
+// Split a UCI move string (e.g. "e7e8q") into its parts
+export function parseUciMove(uci: string): { from: Square; to: Square; promotion?: PieceSymbol } | null {
+  if (!/^[a-h][1-8][a-h][1-8][qrbn]?$/.test(uci)) {
+    return null;
+  }
+
+  return {
+    from: uci.substring(0, 2) as Square,
+    to: uci.substring(2, 4) as Square,
+    promotion: uci.length > 4 ? uci.substring(4, 5) as PieceSymbol : undefined
+  };
+}
+
+// Colour moved by the player or the AI in a game
+export function sideColor(game: Pick<Game, "playerSide">, isPlayer: boolean): Color {
+  const playerColor: Color = game.playerSide === "white" ? 'w' : 'b';
+  if (isPlayer) return playerColor;
+  return playerColor === 'w' ? 'b' : 'w';
+}
+
+// Next Hukum move number for each colour in a game
+export function nextMoveNumbers(game: Pick<Game, "playerSide" | "playerMoves" | "aiMoves">): MoveNumbers {
+  const playerColor = sideColor(game, true);
+  const aiColor = sideColor(game, false);
+  return {
+    [playerColor]: (game.playerMoves ?? 0) + 1,
+    [aiColor]: (game.aiMoves ?? 0) + 1
+  } as MoveNumbers;
+}
+
+// Points so far for each colour in a game
+export function scoresByColor(game: Pick<Game, "playerSide" | "playerScore" | "aiScore">): Record<Color, number> {
+  return {
+    [sideColor(game, true)]: game.playerScore ?? 0,
+    [sideColor(game, false)]: game.aiScore ?? 0
+  } as Record<Color, number>;
+}
+
+// Free Hits owed to each colour in a game
+export function freeHitsByColor(game: Pick<Game, "playerSide" | "playerFreeHit" | "aiFreeHit">): Record<Color, boolean> {
+  return {
+    [sideColor(game, true)]: !!game.playerFreeHit,
+    [sideColor(game, false)]: !!game.aiFreeHit
+  } as Record<Color, boolean>;
+}
+
+// Fallback when move counts are unknown: use the FEN fullmove number for both colours
+export function moveNumbersFromFen(chess: Chess): MoveNumbers {
+  const fullMove = chess.moveNumber();
+  return { w: fullMove, b: fullMove };
+}
+
+// Check if a player can castle (not allowed in this variant)
+export function canCastle(): boolean {
+  // Castling is not allowed in Hukum Chess
+  return false;
+}
+
+// Check if en passant is valid (only allowed from moves 2-6)
+export function isEnPassantValid(moveNumber: number): boolean {
+  return moveNumber >= 2 && moveNumber <= HUKUM_MOVE_LIMIT;
+}
+
+// Check a chess.js move against the Hukum restrictions
+export function isHukumMoveAllowed(move: Move, moveNumber: number): boolean {
+  if ((move.isKingsideCastle() || move.isQueensideCastle()) && !canCastle()) {
+    return false;
+  }
+
+  if (move.isEnPassant() && !isEnPassantValid(moveNumber)) {
+    return false;
+  }
+
+  return true;
+}
+
+// Moves a side has left, counting a Free Hit it is owed
+export function movesLeft(game: Pick<Game, "playerMoves" | "aiMoves" | "playerFreeHit" | "aiFreeHit">, isPlayer: boolean): number {
+  const movesMade = (isPlayer ? game.playerMoves : game.aiMoves) ?? 0;
+  const freeHit = isPlayer ? game.playerFreeHit : game.aiFreeHit;
+  return Math.max(0, HUKUM_MOVE_LIMIT + (freeHit ? 1 : 0) - movesMade);
+}
+
+// A capture is foul when the capturing piece is worth at least as much as the
+// piece it took and can be taken straight back. `after` is the position
+// after the capture, with the other side to move.
+export function isFoulCapture(move: Move, after: Chess): boolean {
+  if (!move.captured || PIECE_VALUES[move.piece] < PIECE_VALUES[move.captured]) {
+    return false;
+  }
+
+  return after.moves({ verbose: true }).some(reply => reply.to === move.to && !!reply.captured);
+}
+
+// Legal moves under Hukum rules: chess.js moves without castling and
+// without en passant outside its window
+export function getHukumMoves(chess: Chess, moveNumber: number, square?: Square): Move[] {
+  const moves = square
+    ? chess.moves({ square, verbose: true })
+    : chess.moves({ verbose: true });
+  return moves.filter(move => isHukumMoveAllowed(move, moveNumber));
+}
+
+// Replay a move against the stored position and work out its result.
+// Throws HukumRuleError when the move is not allowed.
+export function replayHukumMove(game: HukumGameState, uci: string, isPlayer: boolean): HukumMoveResult {
+  if (game.status !== "in_progress") {
+    throw new HukumRuleError("game_over", "Game is not in progress");
+  }
+
+  const movesMade = (isPlayer ? game.playerMoves : game.aiMoves) ?? 0;
+  if (movesLeft(game, isPlayer) === 0) {
+    throw new HukumRuleError("move_limit", `All ${HUKUM_MOVE_LIMIT} moves have already been played`);
+  }
+
+  const chess = new Chess(game.fen);
+  if (chess.turn() !== sideColor(game, isPlayer)) {
+    throw new HukumRuleError("out_of_turn", "It is not this side's turn to move");
+  }
+
+  const parsed = parseUciMove(uci);
+  if (!parsed) {
+    throw new HukumRuleError("illegal_move", `Malformed move: ${uci}`);
+  }
+
+  let move: Move;
+  try {
+    move = chess.move(parsed);
+  } catch (error) {
+    throw new HukumRuleError("illegal_move", `Illegal move: ${uci}`);
+  }
+
+  if (!isHukumMoveAllowed(move, movesMade + 1)) {
+    throw new HukumRuleError("illegal_move", move.isEnPassant()
+      ? `En passant is only allowed on moves 2-${HUKUM_MOVE_LIMIT}`
+      : "Castling is not allowed in Hukum Chess");
+  }
+
+  return {
+    move,
+    uci: move.from + move.to + (move.promotion || ''),
+    isPlayer,
+    points: calculateMoveScore(move),
+    capturedPiece: move.captured ?? null,
+    moveNumber: movesMade + 1,
+    fen: chess.fen(),
+    foulCapture: isFoulCapture(move, chess),
+    freeHit: movesMade >= HUKUM_MOVE_LIMIT
+  };
+}
+
+// Seconds a side gets for its next move
+export function moveTimeLimit(movesMade: number): number {
+  return movesMade === 0 ? FIRST_MOVE_SECONDS : MOVE_SECONDS;
+}
+
+// Whether the player (rather than the AI or opponent) is to move
+export function isPlayerToMove(game: Pick<Game, "fen" | "playerSide">): boolean {
+  return new Chess(game.fen).turn() === sideColor(game, true);
+}
+
+// When the side to move runs out of time (epoch ms), or null while no clock
+// is running. turnStartedAt may arrive as an ISO string over JSON.
+export function getTurnDeadline(
+  game: HukumGameState & { turnStartedAt: Date | string | null }
+): number | null {
+  if (game.status !== "in_progress" || !game.turnStartedAt) {
+    return null;
+  }
+
+  const isPlayer = isPlayerToMove(game);
+  const movesMade = (isPlayer ? game.playerMoves : game.aiMoves) ?? 0;
+  if (movesLeft(game, isPlayer) === 0) {
+    return null;
+  }
+
+  return new Date(game.turnStartedAt).getTime() + moveTimeLimit(movesMade) * 1000;
+}
+
+// Hand the turn to the other side without moving. A side in check can't
+// pass, so it stays to move.
+export function passTurn(chess: Chess): string {
+  if (chess.inCheck()) {
+    return chess.fen();
+  }
+
+  const [board, turn, castling, , halfMoves, fullMoves] = chess.fen().split(" ");
+  const nextFullMoves = turn === 'b' ? Number(fullMoves) + 1 : Number(fullMoves);
+  return [board, turn === 'w' ? 'b' : 'w', castling, "-", Number(halfMoves) + 1, nextFullMoves].join(" ");
+}
+
+// Result of the side to move running out of time: the move is used up,
+// the penalty is applied and the turn passes to the other side
+export function missHukumMove(game: HukumScoredState): HukumTurn {
+  const chess = new Chess(game.fen);
+  const isPlayer = chess.turn() === sideColor(game, true);
+  const movesMade = (isPlayer ? game.playerMoves : game.aiMoves) ?? 0;
+  const score = (isPlayer ? game.playerScore : game.aiScore) ?? 0;
+
+  return {
+    isPlayer,
+    points: 0 - Math.min(score, MISSED_MOVE_PENALTY),
+    moveNumber: movesMade + 1,
+    fen: passTurn(chess),
+    foulCapture: false,
+    freeHit: movesMade >= HUKUM_MOVE_LIMIT
+  };
+}
+
+// Apply a turn to the game: scores, move counts, Free Hits and the result.
+//
+// Free Hit: when a side's last regular move (move 6) is a foul capture, the
+// other side is owed one extra move once its own six are played. Taking the
+// Free Hit (or missing it) uses it up. If the side to move has nothing left
+// while the other is still owed a Free Hit, the turn is handed over so the
+// Free Hit can be taken.
+export function advanceHukumGame(game: HukumScoredState, turn: HukumTurn): HukumGameUpdate {
+  const { isPlayer } = turn;
+  const next = {
+    fen: turn.fen,
+    playerSide: game.playerSide,
+    playerMoves: isPlayer ? turn.moveNumber : game.playerMoves,
+    aiMoves: !isPlayer ? turn.moveNumber : game.aiMoves,
+    playerScore: (game.playerScore ?? 0) + (isPlayer ? turn.points : 0),
+    aiScore: (game.aiScore ?? 0) + (!isPlayer ? turn.points : 0),
+    playerFreeHit: isPlayer && turn.freeHit ? false : game.playerFreeHit,
+    aiFreeHit: !isPlayer && turn.freeHit ? false : game.aiFreeHit
+  };
+
+  if (turn.foulCapture && turn.moveNumber === HUKUM_MOVE_LIMIT) {
+    if (isPlayer) {
+      next.aiFreeHit = true;
+    } else {
+      next.playerFreeHit = true;
+    }
+  }
+
+  const chess = new Chess(next.fen);
+  const moverIsPlayer = chess.turn() === sideColor(game, true);
+  if (!chess.isGameOver() && movesLeft(next, moverIsPlayer) === 0 && movesLeft(next, !moverIsPlayer) > 0) {
+    next.fen = passTurn(chess);
+  }
+
+  const outcome = getHukumOutcome(next);
+  const { playerSide: _side, ...update } = next;
+  return outcome ? { ...update, status: outcome } : update;
+}
+
+// Result once the game is decided, or null while it is still being played.
+// Checkmate wins outright; otherwise the game ends when both sides have used
+// all their moves, Free Hits included (or no move is possible, including the
+// side to move having none left) and the higher score wins.
+export function getHukumOutcome(
+  game: Pick<
+    Game,
+    "fen" | "playerSide" | "playerScore" | "aiScore" | "playerMoves" | "aiMoves" | "playerFreeHit" | "aiFreeHit"
+  >
+): HukumOutcome | null {
+  const chess = new Chess(game.fen);
+
+  if (chess.isCheckmate()) {
+    return chess.turn() === sideColor(game, true) ? "ai_win" : "player_win";
+  }
+
+  const playerDone = movesLeft(game, true) === 0;
+  const aiDone = movesLeft(game, false) === 0;
+  const moverDone = chess.turn() === sideColor(game, true) ? playerDone : aiDone;
+  if (!(playerDone && aiDone) && !moverDone && !chess.isGameOver()) {
+    return null;
+  }
+
+  const playerScore = game.playerScore ?? 0;
+  const aiScore = game.aiScore ?? 0;
+  if (playerScore > aiScore) return "player_win";
+  if (aiScore > playerScore) return "ai_win";
+  return "tie";
+}
+
+// Rebuild every position of a game from its recorded moves, through the same
+// rules the moves were played with so missed moves and Free Hit hand-overs
+// come out as they did in the game. Throws HukumRuleError if the history
+// doesn't fit the starting position.
+export function replayHukumGame(
+  game: Pick<Game, "startFen" | "playerSide">,
+  moves: MoveHistory[]
+): HukumReplayPly[] {
+  let state: HukumScoredState = {
+    fen: game.startFen ?? new Chess().fen(),
+    playerSide: game.playerSide,
+    status: "in_progress",
+    playerMoves: 0,
+    aiMoves: 0,
+    playerScore: 0,
+    aiScore: 0,
+    playerFreeHit: false,
+    aiFreeHit: false
+  };
+  const plies: HukumReplayPly[] = [
+    {
+      move: null,
+      san: null,
+      fen: state.fen,
+      passed: false,
+      playerScore: 0,
+      aiScore: 0,
+      playerMoves: 0,
+      aiMoves: 0,
+      playerFreeHit: false,
+      aiFreeHit: false
+    }
+  ];
+
+  const ordered = [...moves].sort((a, b) => a.id - b.id);
+  for (const move of ordered) {
+    let turn: HukumTurn;
+    let san: string | null = null;
+    if (move.move === MISSED_MOVE) {
+      turn = missHukumMove(state);
+    } else {
+      const result = replayHukumMove(state, move.move, move.isPlayer);
+      san = result.move.san;
+      turn = result;
+    }
+    const { status, ...update } = advanceHukumGame(state, turn);
+    state = { ...state, ...update, status: status ?? "in_progress" };
+
+    plies.push({
+      move,
+      san,
+      fen: state.fen,
+      passed: state.fen !== turn.fen,
+      playerScore: state.playerScore ?? 0,
+      aiScore: state.aiScore ?? 0,
+      playerMoves: state.playerMoves ?? 0,
+      aiMoves: state.aiMoves ?? 0,
+      playerFreeHit: !!state.playerFreeHit,
+      aiFreeHit: !!state.aiFreeHit
+    });
+  }
+
+  return plies;
+}
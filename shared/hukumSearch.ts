@@ -0,0 +1,254 @@
+// Hukum-aware search. Instead of judging positions like regular chess, it
+// plays the game out: each side has a fixed number of moves left (plus any
+// Free Hit it is owed), captures score points, and the objective is the
+// final Hukum score difference. Whose move it is comes from the FEN, so
+// player1/player2 order and the Free Hit hand-over are followed exactly as
+// advanceHukumGame plays them.
+
+import { Chess, type Color, type Move } from "chess.js";
+import {
+  calculateMoveScore,
+  getHukumMoves,
+  isFoulCapture,
+  passTurn,
+  HUKUM_MOVE_LIMIT,
+  PIECE_VALUES,
+  type MoveNumbers
+} from "./hukum";
+import {
+  bestFirst,
+  orderMoves,
+  recordKiller,
+  rootJitter,
+  searchProgress,
+  searchRootMoves,
+  startClock,
+  toUci,
+  visit,
+  SearchTimeout,
+  type KillerMoves,
+  type ProgressListener,
+  type RootResult,
+  type SearchClock
+} from "./search";
+
+// What the search needs to know about the game besides the board
+export interface HukumSearchContext {
+  moveNumbers: MoveNumbers;          // next Hukum move number for each colour
+  freeHits: Record<Color, boolean>;  // colour is owed a Free Hit
+  scores: Record<Color, number>;     // points so far
+}
+
+export interface HukumSearchOptions {
+  depth: number;      // deepest search in plies; the end of the game may come sooner
+  timeLimit: number;  // milliseconds; deepening stops when they run out
+  noise: number;      // random jitter added to each root move, in points
+}
+
+export interface HukumSearchResult {
+  move: string;         // best move in UCI
+  score: number;        // expected final score difference for the side to move
+  depth: number;        // deepest search finished
+  toEnd: boolean;       // that search reached the end of the game on every line
+  nodes: number;
+  pv: string[];         // expected line of play in UCI, starting with move
+}
+
+// Stands in the line of play for a turn handed over so a Free Hit can be
+// taken, as the UCI null move does
+export const PASS_MOVE = "0000";
+
+// Checkmate ends the game whatever the score
+const MATE_SCORE = 10000;
+
+// Finishing ahead matters more than the margin: a won game is worth this
+// many points on top of the score difference
+const WIN_BONUS = 50;
+
+// At the search horizon the side to move is credited with part of its best
+// capture, since it may well get to make it
+const HORIZON_CAPTURE_WEIGHT = 0.5;
+
+interface SearchState {
+  moved: Record<Color, number>;     // Hukum moves each colour has made
+  freeHits: Record<Color, boolean>;
+  clock: SearchClock;
+  killers: KillerMoves;
+  horizon: boolean;                 // some line stopped before the end of the game
+  pv: string[][];                   // best line found from each ply
+}
+
+function other(color: Color): Color {
+  return color === "w" ? "b" : "w";
+}
+
+// Moves a colour has left, counting a Free Hit it is owed (as movesLeft does)
+function movesLeftFor(state: SearchState, color: Color): number {
+  return Math.max(0, HUKUM_MOVE_LIMIT + (state.freeHits[color] ? 1 : 0) - state.moved[color]);
+}
+
+// Value of a finished game for the side whose score difference is diff
+function finalValue(diff: number): number {
+  return diff + Math.sign(diff) * WIN_BONUS;
+}
+
+// Score difference at the horizon, plus part of the most valuable piece the
+// side to move attacks. Checks attacks rather than generating moves, which
+// is far cheaper in chess.js and good enough for an estimate.
+function horizonValue(chess: Chess, diff: number): number {
+  const color = chess.turn();
+  let bestGain = 0;
+  for (const row of chess.board()) {
+    for (const piece of row) {
+      if (piece && piece.color !== color && PIECE_VALUES[piece.type] > bestGain && chess.isAttacked(piece.square, color)) {
+        bestGain = PIECE_VALUES[piece.type];
+      }
+    }
+  }
+  return diff + bestGain * HORIZON_CAPTURE_WEIGHT;
+}
+
+// Negamax over the rest of the Hukum game. diff is the score difference for
+// the side to move; the result is its expected final difference. Scores
+// depend on the points won along the way, not just the position, so there
+// is no transposition table here.
+function negamax(chess: Chess, state: SearchState, depth: number, ply: number, alpha: number, beta: number, diff: number): number {
+  visit(state.clock);
+  const color = chess.turn();
+  state.pv[ply] = [];
+
+  const inCheck = chess.inCheck();
+
+  if (movesLeftFor(state, color) === 0) {
+    if (inCheck && chess.isCheckmate()) {
+      return -MATE_SCORE - depth;
+    }
+    // Hand the turn over so the other side can take its Free Hit
+    if (movesLeftFor(state, other(color)) > 0 && !inCheck) {
+      const value = -negamax(new Chess(passTurn(chess)), state, depth, ply + 1, -beta, -alpha, -diff);
+      state.pv[ply] = [PASS_MOVE, ...state.pv[ply + 1]];
+      return value;
+    }
+    return finalValue(diff);
+  }
+
+  if (depth === 0) {
+    state.horizon = true;
+    if (inCheck && chess.isCheckmate()) {
+      return -MATE_SCORE;
+    }
+    return chess.isInsufficientMaterial() ? finalValue(diff) : horizonValue(chess, diff);
+  }
+
+  const moves = getHukumMoves(chess, state.moved[color] + 1);
+  if (moves.length === 0) {
+    return inCheck ? -MATE_SCORE - depth : finalValue(diff);
+  }
+  if (chess.isInsufficientMaterial()) {
+    return finalValue(diff);
+  }
+
+  let best = -Infinity;
+  for (const move of orderMoves(moves, null, state.killers[ply])) {
+    const value = playAndSearch(chess, state, move, depth, ply, alpha, beta, diff);
+    if (value > alpha) {
+      state.pv[ply] = [toUci(move), ...state.pv[ply + 1]];
+    }
+    best = Math.max(best, value);
+    alpha = Math.max(alpha, value);
+    if (alpha >= beta) {
+      if (!move.captured) recordKiller(state.killers, ply, move);
+      break;
+    }
+  }
+  return best;
+}
+
+// Play one move with its Hukum bookkeeping, search the reply and take it back
+function playAndSearch(chess: Chess, state: SearchState, move: Move, depth: number, ply: number, alpha: number, beta: number, diff: number): number {
+  const color = move.color;
+  const opponent = other(color);
+  const moveNumber = state.moved[color] + 1;
+  const saved = { moved: state.moved[color], ownFreeHit: state.freeHits[color], opponentFreeHit: state.freeHits[opponent] };
+
+  chess.move(move);
+  state.moved[color] = moveNumber;
+  if (moveNumber > HUKUM_MOVE_LIMIT) {
+    state.freeHits[color] = false; // Free Hit taken
+  }
+  if (moveNumber === HUKUM_MOVE_LIMIT && move.captured && isFoulCapture(move, chess)) {
+    state.freeHits[opponent] = true;
+  }
+
+  const value = -negamax(chess, state, depth - 1, ply + 1, -beta, -alpha, -(diff + calculateMoveScore(move)));
+
+  chess.undo();
+  state.moved[color] = saved.moved;
+  state.freeHits[color] = saved.ownFreeHit;
+  state.freeHits[opponent] = saved.opponentFreeHit;
+  return value;
+}
+
+// Pick the move that leads to the best final Hukum score difference,
+// deepening one ply at a time until every line reaches the end of the game,
+// the depth limit is hit or the time runs out. Plays the best move of the
+// last depth it finished.
+export function findBestHukumMove(
+  fen: string,
+  context: HukumSearchContext,
+  options: HukumSearchOptions,
+  onProgress?: ProgressListener
+): HukumSearchResult | null {
+  const chess = new Chess(fen);
+  const color = chess.turn();
+  const state: SearchState = {
+    moved: { w: context.moveNumbers.w - 1, b: context.moveNumbers.b - 1 },
+    freeHits: { ...context.freeHits },
+    clock: startClock(options.timeLimit),
+    killers: [],
+    horizon: false,
+    pv: []
+  };
+
+  let rootMoves = orderMoves(getHukumMoves(chess, context.moveNumbers[color]));
+  if (rootMoves.length === 0 || movesLeftFor(state, color) === 0) {
+    return null;
+  }
+
+  const jitter = rootJitter(rootMoves, options.noise);
+  const diff = context.scores[color] - context.scores[other(color)];
+
+  // Until depth 1 finishes, the biggest capture is the best guess
+  let best: HukumSearchResult = { move: toUci(rootMoves[0]), score: diff, depth: 0, toEnd: false, nodes: 0, pv: [toUci(rootMoves[0])] };
+  for (let depth = 1; depth <= options.depth; depth++) {
+    state.horizon = false;
+    const lines = new Map<Move, string[]>();
+    let result: RootResult | null;
+    try {
+      result = searchRootMoves(rootMoves, jitter, (move, alpha) => {
+        const value = playAndSearch(chess, state, move, depth, 0, alpha, Infinity, diff);
+        lines.set(move, [toUci(move), ...state.pv[1]]);
+        return value;
+      });
+    } catch (error) {
+      if (error instanceof SearchTimeout) break;
+      throw error;
+    }
+
+    if (!result) break;
+    rootMoves = bestFirst(rootMoves, result.move);
+    best = {
+      move: toUci(result.move),
+      score: result.score,
+      depth,
+      toEnd: !state.horizon,
+      nodes: state.clock.nodes,
+      pv: lines.get(result.move)!
+    };
+    onProgress?.({ ...searchProgress(state.clock, depth, result), pv: best.pv });
+    if (best.toEnd) break;
+  }
+
+  best.nodes = state.clock.nodes;
+  return best;
+}
@@ -0,0 +1,287 @@
+// PGN export and import for Hukum games. Exported moves are rebuilt through
+// the shared rules so the SAN, scores and turn hand-overs match what was
+// played. Turns that pass without a move (missed moves and Free Hit
+// hand-overs) are written as the "--" null move, which the importer reads back.
+// A side in check that misses a move stays to move, so that is only a comment.
+
+import { Chess } from "chess.js";
+import type { Game, MoveHistory } from "./schema";
+import { MISSED_MOVE, passTurn, replayHukumGame } from "./hukum";
+import { validatePosition } from "./position";
+
+export const PGN_NULL_MOVE = "--";
+
+// Raised when pasted PGN can't be read
+export class PgnError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PgnError";
+  }
+}
+
+// A position reached in an imported game; ply 0 is the starting position
+export interface PgnPosition {
+  ply: number;
+  fen: string;
+  san: string | null; // move that led here
+  moveLabel: string; // e.g. "12. Nf3" or "12... e5"
+}
+
+export interface ParsedPgn {
+  headers: Record<string, string>;
+  positions: PgnPosition[];
+}
+
+// Names to put in the White and Black tags
+export interface PgnPlayers {
+  player: string;
+  opponent: string;
+}
+
+type PgnGame = Pick<
+  Game,
+  "id" | "playerSide" | "playerRole" | "playerScore" | "aiScore" | "status" | "startFen" | "createdAt"
+>;
+
+const PGN_LINE_LENGTH = 80;
+
+function pgnResult(game: PgnGame): string {
+  const playerIsWhite = game.playerSide === "white";
+  switch (game.status) {
+    case "player_win":
+      return playerIsWhite ? "1-0" : "0-1";
+    case "ai_win":
+      return playerIsWhite ? "0-1" : "1-0";
+    case "tie":
+      return "1/2-1/2";
+    default:
+      return "*";
+  }
+}
+
+function pgnDate(date: Date | string | null): string {
+  if (!date) return "????.??.??";
+  const d = new Date(date);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${d.getUTCFullYear()}.${pad(d.getUTCMonth() + 1)}.${pad(d.getUTCDate())}`;
+}
+
+function roleName(role: string): string {
+  return role === "player1" ? "Player 1" : "Player 2";
+}
+
+function tag(name: string, value: string | number): string {
+  return `[${name} "${String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"]`;
+}
+
+// Comment for a recorded move: points, missed-move penalty and Free Hit.
+// inCheck marks a missed move the side in check stays to move after.
+function moveComment(move: MoveHistory, inCheck: boolean = false): string | null {
+  const notes: string[] = [];
+  if (move.freeHit) {
+    notes.push("Free Hit");
+  }
+
+  const points = move.points ?? 0;
+  if (move.move === MISSED_MOVE) {
+    const missed = inCheck ? "Missed move in check" : "Missed move";
+    notes.push(points < 0 ? `${missed}, ${points} point penalty` : missed);
+  } else if (points !== 0) {
+    notes.push(`+${points} ${points === 1 ? "point" : "points"}`);
+  }
+
+  return notes.length > 0 ? notes.join(", ") : null;
+}
+
+// Join movetext tokens into lines no longer than the PGN export limit
+function wrapMovetext(tokens: string[]): string {
+  const lines: string[] = [];
+  let line = "";
+  for (const token of tokens) {
+    if (line && line.length + 1 + token.length > PGN_LINE_LENGTH) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.join("\n");
+}
+
+// Build the PGN for a game from its recorded moves
+export function buildHukumPgn(game: PgnGame, moves: MoveHistory[], players: PgnPlayers): string {
+  const plies = replayHukumGame(game, moves);
+  const start = new Chess(plies[0].fen);
+  const standardStart = plies[0].fen === new Chess().fen();
+  const result = pgnResult(game);
+  const playerIsWhite = game.playerSide === "white";
+  const otherRole = game.playerRole === "player1" ? "player2" : "player1";
+
+  const tags = [
+    tag("Event", "Hukum Chess"),
+    tag("Site", "?"),
+    tag("Date", pgnDate(game.createdAt)),
+    tag("Round", "-"),
+    tag("White", playerIsWhite ? players.player : players.opponent),
+    tag("Black", playerIsWhite ? players.opponent : players.player),
+    tag("Result", result),
+    tag("Variant", "Hukum"),
+    ...(standardStart ? [] : [tag("SetUp", "1"), tag("FEN", plies[0].fen)]),
+    tag("WhiteRole", roleName(playerIsWhite ? game.playerRole : otherRole)),
+    tag("BlackRole", roleName(playerIsWhite ? otherRole : game.playerRole)),
+    tag("WhiteScore", (playerIsWhite ? game.playerScore : game.aiScore) ?? 0),
+    tag("BlackScore", (playerIsWhite ? game.aiScore : game.playerScore) ?? 0)
+  ];
+
+  // Number moves from the starting position, flipping sides on every token
+  // (null moves included). Black's move gets "N..." when it doesn't directly
+  // follow White's.
+  const tokens: string[] = [];
+  let color = start.turn();
+  let moveNumber = start.moveNumber();
+  let needsNumber = true;
+
+  const addToken = (san: string, comment: string | null) => {
+    if (color === 'w') {
+      tokens.push(`${moveNumber}.`);
+    } else if (needsNumber) {
+      tokens.push(`${moveNumber}...`);
+    }
+    tokens.push(san);
+    if (comment) {
+      tokens.push(`{${comment}}`);
+    }
+
+    needsNumber = !!comment;
+    if (color === 'b') moveNumber++;
+    color = color === 'w' ? 'b' : 'w';
+  };
+
+  // A comment on its own, for a turn that didn't hand the move over
+  const addComment = (comment: string) => {
+    tokens.push(`{${comment}}`);
+    needsNumber = true;
+  };
+
+  plies.slice(1).forEach((ply, index) => {
+    if (ply.san === null && new Chess(plies[index].fen).inCheck()) {
+      addComment(moveComment(ply.move!, true)!);
+      return;
+    }
+
+    addToken(ply.san ?? PGN_NULL_MOVE, moveComment(ply.move!));
+
+    if (ply.passed) {
+      addToken(PGN_NULL_MOVE, "Turn passed for a Free Hit");
+    }
+  });
+  tokens.push(result);
+
+  return `${tags.join("\n")}\n\n${wrapMovetext(tokens)}\n`;
+}
+
+const TAG_LINE = /^\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]$/;
+const RESULTS = ["1-0", "0-1", "1/2-1/2", "*"];
+
+// Split movetext into SAN tokens, dropping move numbers, comments, NAGs,
+// annotation marks and variations. Stops at the game result.
+function movetextTokens(movetext: string): string[] {
+  const tokens: string[] = [];
+  let depth = 0;
+  let i = 0;
+
+  while (i < movetext.length) {
+    const char = movetext[i];
+
+    if (char === '{') {
+      const end = movetext.indexOf('}', i);
+      if (end === -1) throw new PgnError("A comment is missing its closing }");
+      i = end + 1;
+    } else if (char === ';') {
+      const end = movetext.indexOf('\n', i);
+      i = end === -1 ? movetext.length : end + 1;
+    } else if (char === '(') {
+      depth++;
+      i++;
+    } else if (char === ')') {
+      if (depth === 0) throw new PgnError("A variation is closed without being opened");
+      depth--;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else {
+      let end = i;
+      while (end < movetext.length && !/[\s{}();]/.test(movetext[end])) end++;
+      const token = movetext.slice(i, end);
+      i = end;
+
+      // Moves inside variations aren't part of the main line
+      if (depth > 0) continue;
+      if (RESULTS.includes(token)) return tokens;
+
+      const san = token.replace(/^\d+\.+/, "").replace(/[!?]+$/, "");
+      if (san && !san.startsWith("$")) tokens.push(san);
+    }
+  }
+
+  if (depth > 0) throw new PgnError("A variation is missing its closing )");
+  return tokens;
+}
+
+// Read the first game in a PGN and list every position of its main line.
+// Throws PgnError with a message fit to show the user when it can't be read.
+export function parsePgn(pgn: string): ParsedPgn {
+  const lines = pgn.replace(/^\uFEFF/, "").replace(/\r/g, "").split("\n");
+  const headers: Record<string, string> = {};
+
+  let line = 0;
+  for (; line < lines.length; line++) {
+    const text = lines[line].trim();
+    if (!text) continue;
+    const match = TAG_LINE.exec(text);
+    if (!match) break;
+    headers[match[1]] = match[2].replace(/\\(.)/g, "$1");
+  }
+
+  // Only the first game's movetext: a later tag section starts the next game
+  const movetextLines: string[] = [];
+  for (; line < lines.length && !lines[line].trim().startsWith("["); line++) {
+    movetextLines.push(lines[line]);
+  }
+  const sans = movetextTokens(movetextLines.join("\n"));
+
+  if (sans.length === 0 && Object.keys(headers).length === 0) {
+    throw new PgnError("Paste a game in PGN format");
+  }
+
+  const startFen = headers.FEN ?? new Chess().fen();
+  const check = validatePosition(startFen);
+  if (!check.ok) {
+    throw new PgnError(`The FEN tag is not a valid position: ${check.error}`);
+  }
+
+  const chess = new Chess(startFen);
+  const positions: PgnPosition[] = [{ ply: 0, fen: chess.fen(), san: null, moveLabel: "Start" }];
+
+  sans.forEach((san, index) => {
+    const label = `${chess.moveNumber()}${chess.turn() === 'w' ? "." : "..."} ${san}`;
+
+    if (san === PGN_NULL_MOVE || san === "Z0") {
+      if (chess.inCheck()) {
+        throw new PgnError(`${label}: a side in check can't pass`);
+      }
+      chess.load(passTurn(chess));
+    } else {
+      try {
+        chess.move(san, { strict: false });
+      } catch (error) {
+        throw new PgnError(`${label} is not a legal move`);
+      }
+    }
+
+    positions.push({ ply: index + 1, fen: chess.fen(), san, moveLabel: label });
+  });
+
+  return { headers, positions };
+}
@@ -0,0 +1,52 @@
+// Position legality checks shared by the client editors and the server
+
+import { Chess, validateFen } from "chess.js";
+
+export type PositionCheck = { ok: true } | { ok: false; error: string };
+
+// Check that a FEN describes a position that could occur in a game:
+// well-formed, one king each, no pawns on the back ranks and the
+// side that is not to move is not in check.
+export function validatePosition(fen: string): PositionCheck {
+  const fenCheck = validateFen(fen);
+  if (!fenCheck.ok) {
+    return { ok: false, error: fenCheck.error ?? "Invalid FEN" };
+  }
+
+  // Hand the move to the other side and see whether its king can be taken
+  const parts = fen.trim().split(/\s+/);
+  parts[1] = parts[1] === 'w' ? 'b' : 'w';
+  parts[3] = '-';
+  try {
+    if (new Chess(parts.join(' ')).isCheck()) {
+      const side = parts[1] === 'w' ? "White" : "Black";
+      return { ok: false, error: `${side} is in check but it is not ${side.toLowerCase()}'s move` };
+    }
+  } catch (error) {
+    return { ok: false, error: "Invalid FEN" };
+  }
+
+  return { ok: true };
+}
+
+// A puzzle position must also leave the side to move a game to play: not
+// already mated or stalemated, and with enough material left to mate
+export function validatePuzzlePosition(fen: string): PositionCheck {
+  const position = validatePosition(fen);
+  if (!position.ok) {
+    return position;
+  }
+
+  const chess = new Chess(fen);
+  if (chess.isCheckmate()) {
+    return { ok: false, error: "The side to move is already checkmated" };
+  }
+  if (chess.isStalemate()) {
+    return { ok: false, error: "The side to move is stalemated" };
+  }
+  if (chess.isInsufficientMaterial()) {
+    return { ok: false, error: "Neither side has enough material to checkmate" };
+  }
+
+  return { ok: true };
+}
@@ -0,0 +1,55 @@
+// Message protocol for online matches played over WebSocket
+
+import { z } from "zod";
+import type { Game, MoveHistory } from "./schema";
+
+// Path the room WebSocket server listens on
+export const ROOM_SOCKET_PATH = "/ws";
+
+// Messages a client can send
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  // Open a new room; the creator picks their side and Hukum role
+  z.object({
+    type: z.literal("create"),
+    playerSide: z.enum(["white", "black"]),
+    playerRole: z.enum(["player1", "player2"]),
+    fen: z.string().optional(),
+  }),
+  // Join (or rejoin) a room by its code
+  z.object({
+    type: z.literal("join"),
+    code: z.string().trim().min(1),
+  }),
+  // Play a move in UCI notation
+  z.object({
+    type: z.literal("move"),
+    move: z.string(),
+  }),
+  z.object({
+    type: z.literal("resign"),
+  }),
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+export interface RoomPlayer {
+  id: number;
+  username: string;
+  connected: boolean;
+}
+
+// Everything both players need to draw the match. The room creator is the
+// game's owner and uses the player* columns; the opponent uses the ai* columns.
+export interface RoomState {
+  code: string;
+  game: Game;
+  owner: RoomPlayer;
+  opponent: RoomPlayer | null;
+  deadline: number | null; // epoch ms when the side to move runs out of time
+}
+
+// Messages the server pushes
+export type ServerMessage =
+  | { type: "state"; room: RoomState }
+  | { type: "move"; room: RoomState; move: MoveHistory }
+  | { type: "error"; message: string };
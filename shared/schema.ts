@@ -1,15 +1,30 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, real } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// AI difficulty levels offered when starting a game
+export const DIFFICULTIES = ["standard", "grandmaster", "insane"] as const;
+export type Difficulty = typeof DIFFICULTIES[number];
+
+// How a game is played: against the AI, pass-and-play on one device, or online
+export const GAME_MODES = ["ai", "hotseat", "online"] as const;
+export type GameMode = typeof GAME_MODES[number];
+
+// Who set a Puzzle Shootout puzzle
+export const PUZZLE_SETTERS = ["player", "ai"] as const;
+export type PuzzleSetter = typeof PUZZLE_SETTERS[number];
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  puzzleRating: real("puzzle_rating").notNull().default(1500), // Glicko rating in the puzzle trainer
+  puzzleRatingDeviation: real("puzzle_rating_deviation").notNull().default(350),
 });
 
 export const games = pgTable("games", {
   id: serial("id").primaryKey(),
+  ownerId: integer("owner_id"), // user who created the game; null for games from before accounts
   playerSide: text("player_side").notNull(), // "white" or "black"
   playerRole: text("player_role").notNull(), // "player1" or "player2"
   playerScore: integer("player_score").default(0),
@@ -17,7 +32,15 @@ export const games = pgTable("games", {
   playerMoves: integer("player_moves").default(0),
   aiMoves: integer("ai_moves").default(0),
   fen: text("fen").notNull(),
+  startFen: text("start_fen"), // position the game started from; null for games from before it was recorded
   status: text("status").notNull(), // "in_progress", "player_win", "ai_win", "tie"
+  difficulty: text("difficulty").notNull().default("grandmaster"), // "standard", "grandmaster", "insane"
+  mode: text("mode").notNull().default("ai"), // "ai", "hotseat" or "online"; the other side's moves go in the ai* columns
+  opponentId: integer("opponent_id"), // user who joined an online game
+  roomCode: text("room_code").unique(), // join code for online games
+  turnStartedAt: timestamp("turn_started_at"), // when the side to move's clock started; null while stopped
+  playerFreeHit: boolean("player_free_hit").notNull().default(false), // player is owed a Free Hit
+  aiFreeHit: boolean("ai_free_hit").notNull().default(false), // AI/opponent is owed a Free Hit
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -29,6 +52,7 @@ export const moveHistory = pgTable("move_history", {
   capturedPiece: text("captured_piece"),
   points: integer("points").default(0),
   moveNumber: integer("move_number").notNull(),
+  freeHit: boolean("free_hit").notNull().default(false), // the move was a Free Hit
 });
 
 export const puzzles = pgTable("puzzles", {
@@ -37,20 +61,45 @@ export const puzzles = pgTable("puzzles", {
   fen: text("fen").notNull(),
   solution: text("solution").notNull(),
   mateIn: integer("mate_in").notNull(),
-  aiSolved: boolean("ai_solved"),
+  setter: text("setter").notNull().default("player"), // "player" or "ai"; the other side solves it
+  aiSolved: boolean("ai_solved"), // AI's result on a player's puzzle; null until it has tried
+  playerSolved: boolean("player_solved"), // player's result on an AI puzzle; null until settled
+  presentedAt: timestamp("presented_at"), // when the solver's clock started
+  rating: real("rating").notNull().default(1500), // Glicko rating from trainer attempts
+  ratingDeviation: real("rating_deviation").notNull().default(350),
+});
+
+// Trainer attempts at puzzles; only a user's first play of a puzzle is rated
+export const puzzlePlays = pgTable("puzzle_plays", {
+  id: serial("id").primaryKey(),
+  puzzleId: integer("puzzle_id").notNull(),
+  userId: integer("user_id").notNull(),
+  solved: boolean("solved").notNull(),
+  rated: boolean("rated").notNull(),
+  ratingChange: real("rating_change").notNull().default(0), // change to the user's rating
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Insert schemas
-export const insertUserSchema = createInsertSchema(users).pick({
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.trim().min(3, "Username must be at least 3 characters").max(32),
+  password: (schema) => schema.min(6, "Password must be at least 6 characters"),
+}).pick({
   username: true,
   password: true,
 });
 
-export const insertGameSchema = createInsertSchema(games).pick({
+// Games always start in progress; only the server decides how they end
+export const insertGameSchema = createInsertSchema(games, {
+  difficulty: z.enum(DIFFICULTIES).optional(),
+  // Online games are created through rooms, not the HTTP API
+  mode: z.enum(["ai", "hotseat"]).optional(),
+}).pick({
   playerSide: true,
   playerRole: true,
   fen: true,
-  status: true,
+  difficulty: true,
+  mode: true,
 });
 
 export const insertMoveHistorySchema = createInsertSchema(moveHistory).pick({
@@ -60,6 +109,7 @@ export const insertMoveHistorySchema = createInsertSchema(moveHistory).pick({
   capturedPiece: true,
   points: true,
   moveNumber: true,
+  freeHit: true,
 });
 
 export const insertPuzzleSchema = createInsertSchema(puzzles).pick({
@@ -69,13 +119,98 @@ export const insertPuzzleSchema = createInsertSchema(puzzles).pick({
   mateIn: true,
 });
 
+export const insertPuzzlePlaySchema = createInsertSchema(puzzlePlays).pick({
+  puzzleId: true,
+  userId: true,
+  solved: true,
+  rated: true,
+  ratingChange: true,
+});
+
+// Moves are submitted as UCI strings; the server works out the rest
+export const submitMoveSchema = z.object({
+  move: z.string(),
+  isPlayer: z.boolean(),
+});
+
+// A move from the engine for any position. depth and timeLimit are capped so
+// one request can't hold an engine worker for long; a difficulty's profile
+// takes their place.
+const byColor = <T extends z.ZodTypeAny>(value: T) => z.object({ w: value, b: value });
+
+export const aiMoveRequestSchema = z.object({
+  fen: z.string().min(1),
+  depth: z.number().int().min(1).max(16).default(10),
+  timeLimit: z.number().int().min(100).max(5000).default(2000),
+  moveNumbers: byColor(z.number().int().min(1)).optional(),
+  difficulty: z.enum(DIFFICULTIES).optional(),
+  search: z.enum(["classic", "hukum"]).optional(),
+  scores: byColor(z.number()).optional(),
+  freeHits: byColor(z.boolean()).optional(),
+});
+
+// An evaluation of any position, with the same depth cap as a move request
+export const evaluateRequestSchema = z.object({
+  fen: z.string().min(1),
+  depth: z.number().int().min(1).max(16).default(10),
+});
+
+// A forced-mate search on any position, with the same limits as a shootout
+export const solvePuzzleRequestSchema = z.object({
+  fen: z.string().min(1),
+  mateIn: z.number().int().min(1).max(3).default(2),
+  timeLimit: z.number().int().min(1000).max(15000).default(15000),
+});
+
+// Filters for browsing the puzzle bank; source is who set the puzzle
+export const puzzleFilterSchema = z.object({
+  mateIn: z.coerce.number().int().min(1).max(3).optional(),
+  minRating: z.coerce.number().optional(),
+  maxRating: z.coerce.number().optional(),
+  source: z.enum(PUZZLE_SETTERS).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+// Query for a live analysis of a position. lines is how many of the best
+// moves to follow. The Hukum state of the game (moves each colour has made,
+// points and Free Hits owed) defaults to a fresh game at the FEN's move number.
+const queryFlag = z.enum(["true", "false"]).optional().transform(value => value === "true");
+
+export const analysisRequestSchema = z.object({
+  fen: z.string().min(1),
+  lines: z.coerce.number().int().min(1).max(5).default(3),
+  timeLimit: z.coerce.number().int().min(500).max(30000).default(10000),
+  whiteMoves: z.coerce.number().int().min(0).optional(),
+  blackMoves: z.coerce.number().int().min(0).optional(),
+  whiteScore: z.coerce.number().default(0),
+  blackScore: z.coerce.number().default(0),
+  whiteFreeHit: queryFlag,
+  blackFreeHit: queryFlag,
+});
+
+// A player's attempt at an AI puzzle: their own moves so far, in UCI.
+// gaveUp ends the attempt, as when the player's clock runs out.
+export const puzzleAttemptSchema = z.object({
+  moves: z.array(z.string()).max(10),
+  gaveUp: z.boolean().optional(),
+});
+
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type InsertGame = z.infer<typeof insertGameSchema>;
 export type InsertMoveHistory = z.infer<typeof insertMoveHistorySchema>;
 export type InsertPuzzle = z.infer<typeof insertPuzzleSchema>;
+export type InsertPuzzlePlay = z.infer<typeof insertPuzzlePlaySchema>;
+export type SubmitMove = z.infer<typeof submitMoveSchema>;
+export type AiMoveRequest = z.infer<typeof aiMoveRequestSchema>;
+export type EvaluateRequest = z.infer<typeof evaluateRequestSchema>;
+export type SolvePuzzleRequest = z.infer<typeof solvePuzzleRequestSchema>;
+export type PuzzleAttemptRequest = z.infer<typeof puzzleAttemptSchema>;
+export type PuzzleFilter = z.infer<typeof puzzleFilterSchema>;
+export type AnalysisRequest = z.infer<typeof analysisRequestSchema>;
 
 export type User = typeof users.$inferSelect;
 export type Game = typeof games.$inferSelect;
 export type MoveHistory = typeof moveHistory.$inferSelect;
 export type Puzzle = typeof puzzles.$inferSelect;
+export type PuzzlePlay = typeof puzzlePlays.$inferSelect;
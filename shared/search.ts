@@ -0,0 +1,161 @@
+// Building blocks shared by the engine's searches: the clock that stops a
+// search when its time runs out, the transposition table, move ordering and
+// the root move loop.
+
+import type { Move } from "chess.js";
+import { PIECE_VALUES } from "./hukum";
+
+// Thrown inside a search when the deadline passes
+export class SearchTimeout extends Error {}
+
+// How often (in nodes) the clock is checked. chess.js positions are slow to
+// expand, so the clock is checked often to stop close to the deadline.
+const CLOCK_CHECK_INTERVAL = 16;
+
+export interface SearchClock {
+  nodes: number;
+  started: number;
+  deadline: number;
+}
+
+export function startClock(timeLimit: number): SearchClock {
+  const started = Date.now();
+  return { nodes: 0, started, deadline: started + timeLimit };
+}
+
+// Reported each time a search finishes a depth
+export interface SearchProgress {
+  depth: number;
+  move: string;    // best move so far, in UCI
+  score: number;   // from the side to move's point of view
+  nodes: number;
+  elapsed: number; // milliseconds since the search started
+  pv?: string[];   // expected line of play in UCI, from searches that keep one
+}
+
+export type ProgressListener = (progress: SearchProgress) => void;
+
+export function searchProgress(clock: SearchClock, depth: number, result: RootResult): SearchProgress {
+  return {
+    depth,
+    move: toUci(result.move),
+    score: result.score,
+    nodes: clock.nodes,
+    elapsed: Date.now() - clock.started
+  };
+}
+
+// Count a node, throwing SearchTimeout once the deadline has passed
+export function visit(clock: SearchClock) {
+  clock.nodes++;
+  if (clock.nodes % CLOCK_CHECK_INTERVAL === 0 && Date.now() > clock.deadline) {
+    throw new SearchTimeout();
+  }
+}
+
+export function toUci(move: Move): string {
+  return move.from + move.to + (move.promotion || "");
+}
+
+// What a stored score says about the position: the exact value, or only a
+// lower or upper bound when the search was cut off by alpha-beta
+export type ScoreBound = "exact" | "lower" | "upper";
+
+export interface TableEntry {
+  depth: number;
+  score: number;
+  bound: ScoreBound;
+  move: string | null; // best move found, searched first next time
+}
+
+// Entries kept before the table starts over
+const TABLE_SIZE_LIMIT = 200000;
+
+// Positions already searched, keyed by Zobrist hash
+export class TranspositionTable {
+  private entries = new Map<number, TableEntry>();
+
+  get(key: number): TableEntry | undefined {
+    return this.entries.get(key);
+  }
+
+  // Keep the deeper search when a position is stored twice
+  set(key: number, entry: TableEntry) {
+    const existing = this.entries.get(key);
+    if (existing && existing.depth > entry.depth) return;
+    if (!existing && this.entries.size >= TABLE_SIZE_LIMIT) {
+      this.entries.clear();
+    }
+    this.entries.set(key, entry);
+  }
+}
+
+// Quiet moves that caused a cutoff, two per ply
+export type KillerMoves = string[][];
+
+export function recordKiller(killers: KillerMoves, ply: number, move: Move) {
+  const uci = toUci(move);
+  const slots = killers[ply] ?? (killers[ply] = []);
+  if (slots[0] === uci) return;
+  slots.unshift(uci);
+  slots.length = Math.min(slots.length, 2);
+}
+
+// Most valuable victim, then least valuable attacker (a king counts as the cheapest)
+function mvvLva(move: Move): number {
+  return PIECE_VALUES[move.captured!] * 10 - (move.piece === "k" ? 0 : PIECE_VALUES[move.piece]);
+}
+
+// Search order: the stored best move, captures by MVV-LVA, promotions,
+// killer moves, then everything else
+export function orderMoves(moves: Move[], hashMove: string | null = null, killers: string[] = []): Move[] {
+  const rank = (move: Move): number => {
+    const uci = toUci(move);
+    if (uci === hashMove) return 10000;
+    if (move.captured) return 1000 + mvvLva(move);
+    if (move.promotion) return 900 + PIECE_VALUES[move.promotion];
+    const killer = killers.indexOf(uci);
+    return killer >= 0 ? 500 - killer : 0;
+  };
+
+  return moves
+    .map(move => ({ move, rank: rank(move) }))
+    .sort((a, b) => b.rank - a.rank)
+    .map(({ move }) => move);
+}
+
+export interface RootResult {
+  move: Move;
+  score: number;
+}
+
+// Search every root move and return the best once each move's jitter is
+// added. searchMove(move, alpha) only has to say whether the move beats
+// alpha, so later moves are searched with a narrow window. Moves are tried
+// in the order given, which should put the previous iteration's best first.
+export function searchRootMoves(
+  moves: Move[],
+  jitter: Map<string, number>,
+  searchMove: (move: Move, alpha: number) => number
+): RootResult | null {
+  let best: (RootResult & { noisy: number }) | null = null;
+  for (const move of moves) {
+    const offset = jitter.get(toUci(move)) ?? 0;
+    const alpha = best ? best.noisy - offset : -Infinity;
+    const score = searchMove(move, alpha);
+    if (!best || score > alpha) {
+      best = { move, score, noisy: score + offset };
+    }
+  }
+  return best && { move: best.move, score: best.score };
+}
+
+// Random jitter per root move, fixed for the whole search so iterations agree
+export function rootJitter(moves: Move[], noise: number): Map<string, number> {
+  return new Map(moves.map(move => [toUci(move), (Math.random() * 2 - 1) * noise]));
+}
+
+// Put the best move first and keep the rest in order
+export function bestFirst(moves: Move[], best: Move): Move[] {
+  return [best, ...moves.filter(move => move !== best)];
+}
@@ -0,0 +1,105 @@
+// Puzzle Shootout: the tiebreak after a tied game, run like a penalty
+// shootout. Each round the player sets a puzzle for the AI, then solves one
+// the AI sets, both against the same clock. A puzzle the other side fails
+// scores for whoever set it. After the regular rounds a level score goes to
+// sudden death, one round at a time, until a round has a winner.
+
+import type { Difficulty, Puzzle, PuzzleSetter } from "./schema";
+
+export const SHOOTOUT_ROUNDS = 5;
+
+// Time each side has to solve a puzzle, in seconds
+export const SHOOTOUT_SOLVE_TIME = 15;
+
+// Length of the mates the AI sets at each game difficulty
+export const SHOOTOUT_MATE_IN: Record<Difficulty, number> = {
+  standard: 1,
+  grandmaster: 2,
+  insane: 3
+};
+
+export type ShootoutPuzzle = Pick<Puzzle, "id" | "setter" | "aiSolved" | "playerSolved">;
+
+export interface ShootoutRound {
+  round: number;
+  player: boolean | null; // the player's puzzle beat the AI; null until settled
+  ai: boolean | null;     // the AI's puzzle beat the player; null until settled
+}
+
+export interface ShootoutStanding {
+  rounds: ShootoutRound[];
+  playerScore: number;
+  aiScore: number;
+  suddenDeath: boolean;       // the regular rounds are over and the score was level
+  next: PuzzleSetter | null;  // who sets the next puzzle; null while one is being solved or once decided
+  pending: number | null;     // id of the puzzle being solved
+  winner: PuzzleSetter | null;
+}
+
+// Has the solver finished with this puzzle? Settled puzzles join the trainer's bank.
+export function isPuzzleSettled(puzzle: Pick<Puzzle, "setter" | "aiSolved" | "playerSolved">): boolean {
+  return (puzzle.setter === "player" ? puzzle.aiSolved : puzzle.playerSolved) !== null;
+}
+
+// Did the setter score with this puzzle? null until the solver has tried it.
+function scored(puzzle: ShootoutPuzzle): boolean | null {
+  const solved = puzzle.setter === "player" ? puzzle.aiSolved : puzzle.playerSolved;
+  return solved === null ? null : !solved;
+}
+
+// Work out the score, who sets next and whether the shootout is decided.
+// Puzzles are taken in the order they were set: player first in every round.
+export function getShootoutStanding(puzzles: ShootoutPuzzle[]): ShootoutStanding {
+  const sorted = [...puzzles].sort((a, b) => a.id - b.id);
+  const bySetter = {
+    player: sorted.filter(puzzle => puzzle.setter === "player"),
+    ai: sorted.filter(puzzle => puzzle.setter === "ai")
+  };
+
+  const score = { player: 0, ai: 0 };
+  const taken = { player: 0, ai: 0 };
+  const rounds: ShootoutRound[] = [];
+  let winner: PuzzleSetter | null = null;
+  let pending: number | null = null;
+
+  const roundCount = Math.max(bySetter.player.length, bySetter.ai.length);
+  for (let i = 0; i < roundCount && !winner && pending === null; i++) {
+    const round: ShootoutRound = { round: i + 1, player: null, ai: null };
+    rounds.push(round);
+
+    for (const setter of ["player", "ai"] as const) {
+      const puzzle = bySetter[setter][i];
+      if (!puzzle) break;
+
+      const result = scored(puzzle);
+      if (result === null) {
+        pending = puzzle.id;
+        break;
+      }
+
+      round[setter] = result;
+      taken[setter]++;
+      if (result) score[setter]++;
+
+      // In the regular rounds a side is through once the other can't catch up;
+      // in sudden death only a completed round can decide it
+      if (taken.player <= SHOOTOUT_ROUNDS && taken.ai <= SHOOTOUT_ROUNDS) {
+        if (score.player > score.ai + SHOOTOUT_ROUNDS - taken.ai) winner = "player";
+        else if (score.ai > score.player + SHOOTOUT_ROUNDS - taken.player) winner = "ai";
+      } else if (taken.player === taken.ai && score.player !== score.ai) {
+        winner = score.player > score.ai ? "player" : "ai";
+      }
+      if (winner) break;
+    }
+  }
+
+  return {
+    rounds,
+    playerScore: score.player,
+    aiScore: score.ai,
+    suddenDeath: taken.ai >= SHOOTOUT_ROUNDS && !winner,
+    next: winner || pending !== null ? null : taken.player === taken.ai ? "player" : "ai",
+    pending,
+    winner
+  };
+}
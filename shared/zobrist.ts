@@ -0,0 +1,150 @@
+// Zobrist hashing for the engine's transposition table. A position hashes to
+// the XOR of a random key per (piece, square), one for the side to move, one
+// per en passant file and one per Hukum move number of each colour, since
+// those decide which moves are allowed. Keys are 53 bits so they fit a plain
+// number: a 21-bit high half and a 32-bit low half, generated from a fixed
+// seed so hashes are the same in every process. The search hashes the root
+// once and updates the hash move by move.
+
+import type { Chess, Color, Move, PieceSymbol, Square } from "chess.js";
+import { HUKUM_MOVE_LIMIT, type MoveNumbers } from "./hukum";
+
+const PIECES: PieceSymbol[] = ["p", "n", "b", "r", "q", "k"];
+const HIGH_MASK = 0x1fffff;
+const LOW_RANGE = 0x100000000;
+
+// mulberry32: small, fast and good enough for hash keys
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  };
+}
+
+const random = seededRandom(0x48554b55);
+
+function makeKeys(count: number): { high: Uint32Array; low: Uint32Array } {
+  const high = new Uint32Array(count);
+  const low = new Uint32Array(count);
+  for (let i = 0; i < count; i++) {
+    high[i] = random() & HIGH_MASK;
+    low[i] = random();
+  }
+  return { high, low };
+}
+
+// Index: colour (0 white, 1 black) * 6 * 64 + piece * 64 + square
+const pieceKeys = makeKeys(2 * PIECES.length * 64);
+const sideKey = makeKeys(1);
+const enPassantKeys = makeKeys(8);
+
+// Move numbers past the limit all allow the same moves, so they share a key.
+// Index: colour * MOVE_NUMBER_KEYS + move number
+const MOVE_NUMBER_KEYS = HUKUM_MOVE_LIMIT + 3;
+const moveNumberKeys = makeKeys(2 * MOVE_NUMBER_KEYS);
+
+// A hash being built or updated, in its two halves
+interface HashHalves {
+  high: number;
+  low: number;
+}
+
+function toggle(hash: HashHalves, keys: { high: Uint32Array; low: Uint32Array }, index: number) {
+  hash.high ^= keys.high[index];
+  hash.low ^= keys.low[index];
+}
+
+function colorIndex(color: Color): number {
+  return color === "w" ? 0 : 1;
+}
+
+// Square index with a8 as 0, the order of chess.board()
+function squareIndex(square: Square): number {
+  return (56 - square.charCodeAt(1)) * 8 + square.charCodeAt(0) - 97;
+}
+
+function togglePiece(hash: HashHalves, color: Color, piece: PieceSymbol, square: number) {
+  toggle(hash, pieceKeys, colorIndex(color) * PIECES.length * 64 + PIECES.indexOf(piece) * 64 + square);
+}
+
+function moveNumberIndex(color: Color, moveNumber: number): number {
+  return colorIndex(color) * MOVE_NUMBER_KEYS + Math.max(0, Math.min(moveNumber, MOVE_NUMBER_KEYS - 1));
+}
+
+function toggleMoveNumber(hash: HashHalves, color: Color, moveNumber: number) {
+  toggle(hash, moveNumberKeys, moveNumberIndex(color, moveNumber));
+}
+
+// The en passant square of a FEN, toggled by file
+function toggleEnPassant(hash: HashHalves, fen: string) {
+  const enPassant = fen.split(" ")[3];
+  if (enPassant && enPassant !== "-") {
+    toggle(hash, enPassantKeys, enPassant.charCodeAt(0) - 97);
+  }
+}
+
+function joinHalves(hash: HashHalves): number {
+  return (hash.high >>> 0) * LOW_RANGE + (hash.low >>> 0);
+}
+
+// Hash the position from scratch: pieces, side to move, en passant file and
+// the move number each colour is on
+export function hashPosition(chess: Chess, moveNumbers: MoveNumbers): number {
+  const hash: HashHalves = { high: 0, low: 0 };
+
+  const board = chess.board();
+  for (let rank = 0; rank < 8; rank++) {
+    for (let file = 0; file < 8; file++) {
+      const piece = board[rank][file];
+      if (piece) togglePiece(hash, piece.color, piece.type, rank * 8 + file);
+    }
+  }
+
+  if (chess.turn() === "b") toggle(hash, sideKey, 0);
+  toggleEnPassant(hash, chess.fen());
+  toggleMoveNumber(hash, "w", moveNumbers.w);
+  toggleMoveNumber(hash, "b", moveNumbers.b);
+
+  return joinHalves(hash);
+}
+
+// The hash after move, given the hash and move numbers before it. The same
+// as hashing the new position from scratch, with the mover's move number
+// one higher.
+export function hashMove(hash: number, move: Move, moveNumbers: MoveNumbers): number {
+  const halves: HashHalves = { high: Math.floor(hash / LOW_RANGE), low: hash % LOW_RANGE };
+  const from = squareIndex(move.from);
+  const to = squareIndex(move.to);
+  const opponent = move.color === "w" ? "b" : "w";
+
+  togglePiece(halves, move.color, move.piece, from);
+  togglePiece(halves, move.color, move.promotion ?? move.piece, to);
+  if (move.isEnPassant()) {
+    // The captured pawn stands beside the mover's starting square
+    togglePiece(halves, opponent, "p", from - from % 8 + to % 8);
+  } else if (move.captured) {
+    togglePiece(halves, opponent, move.captured, to);
+  }
+  if (move.isKingsideCastle() || move.isQueensideCastle()) {
+    const kingside = move.isKingsideCastle();
+    togglePiece(halves, move.color, "r", to + (kingside ? 1 : -2));
+    togglePiece(halves, move.color, "r", to + (kingside ? -1 : 1));
+  }
+
+  toggle(halves, sideKey, 0);
+  toggleEnPassant(halves, move.before);
+  toggleEnPassant(halves, move.after);
+  // Past the limit the old and new move numbers share a key, which stays
+  const before = moveNumberIndex(move.color, moveNumbers[move.color]);
+  const after = moveNumberIndex(move.color, moveNumbers[move.color] + 1);
+  if (before !== after) {
+    toggle(halves, moveNumberKeys, before);
+    toggle(halves, moveNumberKeys, after);
+  }
+
+  return joinHalves(halves);
+}